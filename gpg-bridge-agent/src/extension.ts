@@ -3,20 +3,76 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { spawnSync } from 'child_process';
 import { AgentProxy } from './services/agentProxy';
-import { isTestEnvironment, isIntegrationTestEnvironment, extractErrorMessage } from '@gpg-bridge/shared';
+import type { ConsentDecision, ConsentOperation, ConsentRequest } from './services/agentProxy';
+import { AuditLog } from './services/auditLog';
+import { SshAgentProxy } from './services/sshAgentProxy';
+import { PublicKeyExporter } from './services/publicKeyExport';
+import { isTestEnvironment, isIntegrationTestEnvironment, extractErrorMessage, getDefaultAgentTransport, parseCommandPolicy, parseOptionRewriteRules, parseCommandLine, parseAssuanResponse, decodeGpgError, formatGpgError, GPG_ERR, DEFAULT_SSH_POLICY } from '@gpg-bridge/shared';
+import type { CommandPolicyDecision, SendCommandsOptions, SendCommandsResult } from '@gpg-bridge/shared';
+
+/**
+ * GnuPG daemons besides gpg-agent whose Assuan sockets can be relayed, with the name used in
+ * their command IDs. They only hold public data, so policy, consent, and audit do not apply.
+ */
+type RelayedComponent = 'dirmngr' | 'keyboxd';
+const RELAYED_COMPONENTS: Record<RelayedComponent, string> = {
+	dirmngr: 'Dirmngr',
+	keyboxd: 'Keyboxd'
+};
+
+/**
+ * gpg-agent sockets the remote can be relayed to, with their `gpgconf --list-dirs` names.
+ * The extra and browser sockets restrict what the remote may do; the standard socket does not.
+ */
+type AgentSocketKind = 'extra' | 'standard' | 'browser';
+const AGENT_SOCKET_DIRS: Record<AgentSocketKind, string> = {
+	extra: 'agent-extra-socket',
+	standard: 'agent-socket',
+	browser: 'agent-browser-socket'
+};
+
+/**
+ * What a consent prompt says the remote wants to do
+ */
+const CONSENT_OPERATION_LABELS: Record<ConsentOperation, string> = {
+	PKSIGN: 'sign',
+	PKDECRYPT: 'decrypt',
+	SSH_SIGN: 'sign an SSH request'
+};
+
+/**
+ * Gpg4win on Windows emulates Assuan sockets over TCP; GnuPG on macOS and Linux uses Unix sockets
+ */
+const agentTransport = getDefaultAgentTransport();
+
+/**
+ * GnuPG bin directories checked on macOS (Homebrew, MacGPG2) and Linux when gpg4winPath is not set
+ */
+const UNIX_GNUPG_PATHS = ['/opt/homebrew/bin', '/usr/local/MacGPG2/bin', '/usr/local/bin', '/usr/bin'];
 
 // Global agent proxy service instance
 let agentProxyService: AgentProxy | null = null;
+let sshAgentProxyService: SshAgentProxy | null = null;
+let componentProxyServices = new Map<RelayedComponent, AgentProxy>();
 let outputChannel: vscode.OutputChannel;
 let statusBarItem: vscode.StatusBarItem;
 let detectedGpg4winPath: string | null = null;
 let detectedAgentSocket: string | null = null;
+let detectedAgentSocketKind: AgentSocketKind = 'extra';
+let detectedSshSocket: string | null = null;
+let detectedComponentSockets = new Map<RelayedComponent, string>();
 let probeSuccessful = false;
+let auditLogPath: string | null = null;
+// Dismisses the pinentry notification of each session waiting on pinentry
+const pinentryNotices = new Map<string, () => void>();
+// Withdraws the open consent prompt of each session, answering it with deny
+const consentPrompts = new Map<string, () => void>();
 
 // This method is called when your extension is activated
 export async function activate(context: vscode.ExtensionContext): Promise<void> {
 	outputChannel = vscode.window.createOutputChannel('GPG Bridge Agent');
 	statusBarItem = vscode.window.createStatusBarItem(context.extension.id, vscode.StatusBarAlignment.Right, 100);
+	auditLogPath = path.join(context.globalStorageUri.fsPath, 'audit.jsonl');
 
 	outputChannel.appendLine('GPG Bridge Agent activated');
 
@@ -26,10 +82,17 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 		vscode.commands.registerCommand('_gpg-bridge-agent.connectAgent', connectAgent),
 		vscode.commands.registerCommand('_gpg-bridge-agent.sendCommands', sendCommands),
 		vscode.commands.registerCommand('_gpg-bridge-agent.disconnectAgent', disconnectAgent),
+		vscode.commands.registerCommand('_gpg-bridge-agent.connectSshAgent', connectSshAgent),
+		vscode.commands.registerCommand('_gpg-bridge-agent.sendSshRequest', sendSshRequest),
+		vscode.commands.registerCommand('_gpg-bridge-agent.disconnectSshAgent', disconnectSshAgent),
+		...registerComponentCommands('dirmngr'),
+		...registerComponentCommands('keyboxd'),
+		vscode.commands.registerCommand('_gpg-bridge-agent.exportPublicKeys', exportPublicKeys),
 		// UI commands visible to user
 		vscode.commands.registerCommand('gpg-bridge-agent.start', startAgentProxy),
 		vscode.commands.registerCommand('gpg-bridge-agent.stop', stopAgentProxy),
 		vscode.commands.registerCommand('gpg-bridge-agent.showStatus', showStatus),
+		vscode.commands.registerCommand('gpg-bridge-agent.openAuditLog', openAuditLog),
 		outputChannel,
 		statusBarItem
 	);
@@ -53,15 +116,20 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 
 			// Run sanity probe in background (fire-and-forget)
 			// It will update status bar to Ready after successful probe
-			probeGpgAgent();
+			// While waiting for gpg-agent, the probe runs when its socket file appears
+			if (!agentProxyService?.isWaitingForAgent()) {
+				probeGpgAgent();
+			}
 		} catch (error: unknown) {
 			outputChannel.appendLine(`Start failed: ${extractErrorMessage(error)}`);
 		}
 	}
 }
 
-export function deactivate() {
-	return agentProxyService?.stop();
+export async function deactivate(): Promise<void> {
+	await sshAgentProxyService?.stop();
+	await stopComponentProxies();
+	await agentProxyService?.stop();
 }
 
 // TODO Issue Reporting as defined at https://code.visualstudio.com/api/get-started/wrapping-up#issue-reporting
@@ -98,17 +166,20 @@ async function connectAgent(sessionId?: string): Promise<{ sessionId: string; gr
  *
  * Called by request-proxy to send a command block to gpg-agent.
  * commandBlock: complete command (e.g., "GETINFO version\n" or "D data\nEND\n")
- * Returns the complete response from gpg-agent.
+ * Returns the complete response from gpg-agent. With options.stream, complete lines are
+ * pushed to request-proxy as they arrive and only the remaining lines are returned.
  */
-async function sendCommands(sessionId: string, commandBlock: string): Promise<{ response: string }> {
+async function sendCommands(sessionId: string, commandBlock: string, options?: SendCommandsOptions | null): Promise<SendCommandsResult> {
 	if (!agentProxyService) {
 		throw new Error('Agent proxy not initialized. Please start the extension.');
 	}
 
 	try {
-		const result = await agentProxyService.sendCommands(sessionId, commandBlock);
+		const streamer = options?.stream ? createResponseStreamer(sessionId, '[sendCommands]') : undefined;
+		const result = await agentProxyService.sendCommands(sessionId, commandBlock, streamer?.push);
 		outputChannel.appendLine(`[sendCommands] Session ${sessionId}: sent and received response`);
-		return result;
+		notifyKeyOperationError(commandBlock, result.response);
+		return streamer ? { ...result, response: await streamer.finish(result.response) } : result;
 	} catch (error) {
 		const msg = extractErrorMessage(error);
 		outputChannel.appendLine(`[sendCommands] Session ${sessionId}: Error: ${msg}`);
@@ -116,19 +187,73 @@ async function sendCommands(sessionId: string, commandBlock: string): Promise<{
 	}
 }
 
+/**
+ * Push streamed response lines to request-proxy with _gpg-bridge-request.receiveResponseLines,
+ * one call at a time so they reach the client in order. Once a push fails, later lines are
+ * kept and returned with the rest of the response instead.
+ */
+function createResponseStreamer(sessionId: string, tag: string): { push: (lines: string) => void; finish: (response: string) => Promise<string> } {
+	let pending: Promise<void> = Promise.resolve();
+	let undelivered = '';
+	let failed = false;
+	return {
+		push: (lines: string) => {
+			pending = pending.then(async () => {
+				if (!failed) {
+					try {
+						await vscode.commands.executeCommand('_gpg-bridge-request.receiveResponseLines', sessionId, lines);
+						return;
+					} catch (error) {
+						failed = true;
+						outputChannel.appendLine(`${tag} Session ${sessionId}: Streaming failed, returning lines with the response: ${extractErrorMessage(error)}`);
+					}
+				}
+				undelivered += lines;
+			});
+		},
+		// The response is returned after the last push, so it cannot overtake streamed lines
+		finish: async (response: string) => {
+			await pending;
+			return undelivered + response;
+		}
+	};
+}
+
+/**
+ * Show a notification when a signing or decryption request fails in gpg-agent.
+ * Cancellations are skipped because the user caused them.
+ */
+function notifyKeyOperationError(commandBlock: string, response: string): void {
+	const { verb } = parseCommandLine(commandBlock);
+	const { terminal } = parseAssuanResponse(response);
+	if ((verb !== 'PKSIGN' && verb !== 'PKDECRYPT') || terminal?.type !== 'ERR') {
+		return;
+	}
+	const { code } = decodeGpgError(terminal.value);
+	if (code === GPG_ERR.CANCELED || code === GPG_ERR.FULLY_CANCELED) {
+		return;
+	}
+	const operation = verb === 'PKSIGN' ? 'Signing' : 'Decryption';
+	vscode.window.showErrorMessage(`GPG Bridge: ${operation} failed: ${formatGpgError(terminal.value)}`);
+}
+
 /**
  * Command: _gpg-agent-proxy.disconnectAgent
  *
  * Called by request-proxy to close a session.
  * sessionId: the session to disconnect
+ * reason: why the remote client went away, if an operation may still be running
  */
-async function disconnectAgent(sessionId: string): Promise<void> {
+async function disconnectAgent(sessionId: string, reason?: string | null): Promise<void> {
 	if (!agentProxyService) {
 		throw new Error('Agent proxy not initialized.');
 	}
 
 	try {
-		await agentProxyService.disconnectAgent(sessionId);
+		if (reason) {
+			withdrawConsentPrompt(sessionId, reason);
+		}
+		await agentProxyService.disconnectAgent(sessionId, reason ?? undefined);
 		outputChannel.appendLine(`[disconnectAgent] Session closed: ${sessionId}`);
 	} catch (error) {
 		const msg = extractErrorMessage(error);
@@ -137,12 +262,167 @@ async function disconnectAgent(sessionId: string): Promise<void> {
 	}
 }
 
+/**
+ * Command: _gpg-bridge-agent.connectSshAgent
+ *
+ * Called by request-proxy when a client connects to its SSH_AUTH_SOCK.
+ * Returns a sessionId for the SSH agent session.
+ */
+async function connectSshAgent(sessionId?: string): Promise<{ sessionId: string }> {
+	if (!sshAgentProxyService) {
+		throw new Error('SSH agent proxy not initialized. Is gpg-agent\'s SSH socket available?');
+	}
+
+	try {
+		const result = await sshAgentProxyService.connect(sessionId);
+		outputChannel.appendLine(`[connectSshAgent] Session created: ${result.sessionId}`);
+		return result;
+	} catch (error) {
+		outputChannel.appendLine(`[connectSshAgent] Error: ${extractErrorMessage(error)}`);
+		throw error;
+	}
+}
+
+/**
+ * Command: _gpg-bridge-agent.sendSshRequest
+ *
+ * Called by request-proxy to send one SSH agent request message (latin1 string).
+ * Returns gpg-agent's response message.
+ */
+async function sendSshRequest(sessionId: string, message: string): Promise<{ response: string }> {
+	if (!sshAgentProxyService) {
+		throw new Error('SSH agent proxy not initialized.');
+	}
+
+	try {
+		return await sshAgentProxyService.sendRequest(sessionId, message);
+	} catch (error) {
+		outputChannel.appendLine(`[sendSshRequest] Session ${sessionId}: Error: ${extractErrorMessage(error)}`);
+		throw error;
+	}
+}
+
+/**
+ * Command: _gpg-bridge-agent.disconnectSshAgent
+ *
+ * Called by request-proxy to close an SSH agent session.
+ */
+async function disconnectSshAgent(sessionId: string): Promise<void> {
+	if (!sshAgentProxyService) {
+		throw new Error('SSH agent proxy not initialized.');
+	}
+
+	try {
+		withdrawConsentPrompt(sessionId, 'SSH client disconnected');
+		await sshAgentProxyService.disconnect(sessionId);
+		outputChannel.appendLine(`[disconnectSshAgent] Session closed: ${sessionId}`);
+	} catch (error) {
+		outputChannel.appendLine(`[disconnectSshAgent] Session ${sessionId}: Error: ${extractErrorMessage(error)}`);
+		throw error;
+	}
+}
+
+/**
+ * Command: _gpg-bridge-agent.exportPublicKeys
+ *
+ * Called by request-proxy to sync public keys into the remote keyring.
+ * Returns the primary key fingerprints and ASCII-armored public keys for the secret keys gpg-agent holds.
+ */
+async function exportPublicKeys(): Promise<{ fingerprints: string[]; armored: string }> {
+	if (!agentProxyService || !detectedGpg4winPath) {
+		throw new Error('Agent proxy not initialized. Please start the extension.');
+	}
+
+	try {
+		const exporter = new PublicKeyExporter(agentProxyService, {
+			gpgPath: getGnupgExecutable(detectedGpg4winPath, 'gpg'),
+			logCallback: (message: string) => outputChannel.appendLine(message)
+		});
+		const result = await exporter.export();
+		outputChannel.appendLine(`[exportPublicKeys] Exported ${result.fingerprints.length} public key(s)`);
+		return result;
+	} catch (error) {
+		outputChannel.appendLine(`[exportPublicKeys] Error: ${extractErrorMessage(error)}`);
+		throw error;
+	}
+}
+
+/**
+ * Commands: _gpg-bridge-agent.connect<Name>, send<Name>Commands, disconnect<Name>
+ *
+ * Same contract as connectAgent, sendCommands, and disconnectAgent, for the dirmngr and
+ * keyboxd sockets (e.g. _gpg-bridge-agent.connectDirmngr). These daemons are not started
+ * with gpg-agent; like gpg does, they are launched when the first session connects.
+ */
+function registerComponentCommands(component: RelayedComponent): vscode.Disposable[] {
+	const name = RELAYED_COMPONENTS[component];
+	return [
+		vscode.commands.registerCommand(`_gpg-bridge-agent.connect${name}`, (sessionId?: string) => connectComponent(component, sessionId)),
+		vscode.commands.registerCommand(`_gpg-bridge-agent.send${name}Commands`, (sessionId: string, commandBlock: string, options?: SendCommandsOptions | null) => sendComponentCommands(component, sessionId, commandBlock, options)),
+		vscode.commands.registerCommand(`_gpg-bridge-agent.disconnect${name}`, (sessionId: string, reason?: string | null) => disconnectComponent(component, sessionId, reason))
+	];
+}
+
+function getComponentProxy(component: RelayedComponent): AgentProxy {
+	const proxy = componentProxyServices.get(component);
+	if (!proxy) {
+		throw new Error(`${RELAYED_COMPONENTS[component]} proxy not initialized. Is gpgconf --list-dirs ${component}-socket available?`);
+	}
+	return proxy;
+}
+
+async function connectComponent(component: RelayedComponent, sessionId?: string): Promise<{ sessionId: string; greeting: string }> {
+	const tag = `[connect${RELAYED_COMPONENTS[component]}]`;
+	try {
+		const proxy = getComponentProxy(component);
+		if (proxy.isWaitingForAgent()) {
+			launchGpgComponent(component);
+		}
+		const result = await proxy.connectAgent(sessionId);
+		outputChannel.appendLine(`${tag} Session created: ${result.sessionId}`);
+		return result;
+	} catch (error) {
+		outputChannel.appendLine(`${tag} Error: ${extractErrorMessage(error)}`);
+		throw error;
+	}
+}
+
+async function sendComponentCommands(component: RelayedComponent, sessionId: string, commandBlock: string, options?: SendCommandsOptions | null): Promise<SendCommandsResult> {
+	const tag = `[send${RELAYED_COMPONENTS[component]}Commands]`;
+	try {
+		const streamer = options?.stream ? createResponseStreamer(sessionId, tag) : undefined;
+		const result = await getComponentProxy(component).sendCommands(sessionId, commandBlock, streamer?.push);
+		return streamer ? { ...result, response: await streamer.finish(result.response) } : result;
+	} catch (error) {
+		outputChannel.appendLine(`${tag} Session ${sessionId}: Error: ${extractErrorMessage(error)}`);
+		throw error;
+	}
+}
+
+async function disconnectComponent(component: RelayedComponent, sessionId: string, reason?: string | null): Promise<void> {
+	const tag = `[disconnect${RELAYED_COMPONENTS[component]}]`;
+	try {
+		await getComponentProxy(component).disconnectAgent(sessionId, reason ?? undefined);
+		outputChannel.appendLine(`${tag} Session closed: ${sessionId}`);
+	} catch (error) {
+		outputChannel.appendLine(`${tag} Session ${sessionId}: Error: ${extractErrorMessage(error)}`);
+		throw error;
+	}
+}
+
 // ==============================================================================
 // UI command handlers
 // ==============================================================================
 
 /**
- * Detect Gpg4win installation path
+ * Path of gpg or gpgconf in a GnuPG bin directory
+ */
+function getGnupgExecutable(binPath: string, name: 'gpg' | 'gpgconf'): string {
+	return path.join(binPath, agentTransport === 'tcp' ? `${name}.exe` : name);
+}
+
+/**
+ * Detect Gpg4win installation path, or the GnuPG bin directory on macOS and Linux
  */
 async function detectGpg4winPath(): Promise<void> {
 	if (isTestEnvironment() && !isIntegrationTestEnvironment()) {
@@ -154,7 +434,7 @@ async function detectGpg4winPath(): Promise<void> {
 	// If a path is explicitly configured, use it exclusively — do not fall back to
 	// auto-detection.  An invalid configured path is a user error and should fail loudly.
 	if (configPath) {
-		const gpgconfPath = path.join(configPath, 'gpgconf.exe');
+		const gpgconfPath = getGnupgExecutable(configPath, 'gpgconf');
 		if (fs.existsSync(gpgconfPath)) {
 			detectedGpg4winPath = configPath;
 			detectAgentSocket();
@@ -163,6 +443,18 @@ async function detectGpg4winPath(): Promise<void> {
 		throw new Error(`Gpg4win not found at configured path: ${configPath}`);
 	}
 
+	if (agentTransport === 'unix') {
+		for (const checkPath of UNIX_GNUPG_PATHS) {
+			if (fs.existsSync(getGnupgExecutable(checkPath, 'gpgconf'))) {
+				detectedGpg4winPath = checkPath;
+				detectAgentSocket();
+				return;
+			}
+		}
+		outputChannel.appendLine('GnuPG not found. Please install GnuPG or configure gpgBridgeAgent.gpg4winPath.');
+		return;
+	}
+
 	// Check 64-bit default locations
 	const gpg4win64Paths = [
 		'C:\\Program Files\\GnuPG\\bin',
@@ -170,7 +462,7 @@ async function detectGpg4winPath(): Promise<void> {
 	];
 
 	for (const checkPath of gpg4win64Paths) {
-		const gpgconfPath = path.join(checkPath, 'gpgconf.exe');
+		const gpgconfPath = getGnupgExecutable(checkPath, 'gpgconf');
 		if (fs.existsSync(gpgconfPath)) {
 			detectedGpg4winPath = checkPath;
 			detectAgentSocket();
@@ -185,7 +477,7 @@ async function detectGpg4winPath(): Promise<void> {
 	];
 
 	for (const checkPath of gpg4win32Paths) {
-		const gpgconfPath = path.join(checkPath, 'gpgconf.exe');
+		const gpgconfPath = getGnupgExecutable(checkPath, 'gpgconf');
 		if (fs.existsSync(gpgconfPath)) {
 			detectedGpg4winPath = checkPath;
 			detectAgentSocket();
@@ -207,26 +499,90 @@ function detectAgentSocket(): void {
 		return;
 	}
 
-	const gpgconfPath = path.join(detectedGpg4winPath, 'gpgconf.exe');
+	const gpgconfPath = getGnupgExecutable(detectedGpg4winPath, 'gpgconf');
 	if (!fs.existsSync(gpgconfPath)) {
 		return;
 	}
 
+	// An invalid socket kind is a user error and should fail loudly
+	const socketKind = getAgentSocketKind();
 	try {
-		const result = spawnSync(gpgconfPath, ['--list-dirs', 'agent-extra-socket'], {
+		const result = spawnSync(gpgconfPath, ['--list-dirs', AGENT_SOCKET_DIRS[socketKind]], {
 			encoding: 'utf8',
 			timeout: 2000
 		});
 
 		if (result.status === 0 && result.stdout) {
 			detectedAgentSocket = result.stdout.trim();
-			outputChannel.appendLine(`Detected GPG agent extra socket: ${detectedAgentSocket}`);
+			detectedAgentSocketKind = socketKind;
+			outputChannel.appendLine(`Detected GPG agent ${socketKind} socket: ${detectedAgentSocket}`);
+		}
+
+		const sshResult = spawnSync(gpgconfPath, ['--list-dirs', 'agent-ssh-socket'], {
+			encoding: 'utf8',
+			timeout: 2000
+		});
+
+		if (sshResult.status === 0 && sshResult.stdout) {
+			detectedSshSocket = sshResult.stdout.trim();
+			outputChannel.appendLine(`Detected GPG agent SSH socket: ${detectedSshSocket}`);
+		}
+
+		for (const component of Object.keys(RELAYED_COMPONENTS) as RelayedComponent[]) {
+			const componentResult = spawnSync(gpgconfPath, ['--list-dirs', `${component}-socket`], {
+				encoding: 'utf8',
+				timeout: 2000
+			});
+
+			// gpgconf before 2.3 does not know keyboxd-socket and fails
+			if (componentResult.status === 0 && componentResult.stdout) {
+				detectedComponentSockets.set(component, componentResult.stdout.trim());
+				outputChannel.appendLine(`Detected ${component} socket: ${detectedComponentSockets.get(component)}`);
+			}
 		}
 	} catch (error) {
 		// Silently fail
 	}
 }
 
+/**
+ * Socket kind from gpgBridgeAgent.agentSocketKind, overridden for this remote by
+ * gpgBridgeAgent.agentSocketKindOverrides keyed by remote name (e.g. "ssh-remote myhost") or kind (e.g. "wsl")
+ */
+function getAgentSocketKind(): AgentSocketKind {
+	const config = vscode.workspace.getConfiguration('gpgBridgeAgent');
+	const overrides = config.get<Record<string, string>>('agentSocketKindOverrides') ?? {};
+	const kind = overrides[describeRemote()] ?? overrides[vscode.env.remoteName ?? ''] ?? config.get<string>('agentSocketKind', 'extra');
+	if (!Object.hasOwn(AGENT_SOCKET_DIRS, kind)) {
+		throw new Error(`Invalid gpgBridgeAgent.agentSocketKind: ${kind}`);
+	}
+	return kind as AgentSocketKind;
+}
+
+/**
+ * Start gpg-agent, dirmngr, or keyboxd with `gpgconf --launch`. Failures are logged; the
+ * proxy keeps waiting for the socket file either way.
+ */
+function launchGpgComponent(component: 'gpg-agent' | RelayedComponent): void {
+	if (!detectedGpg4winPath) {
+		return;
+	}
+
+	const gpgconfPath = getGnupgExecutable(detectedGpg4winPath, 'gpgconf');
+	outputChannel.appendLine(`Launching ${component}...`);
+	try {
+		const result = spawnSync(gpgconfPath, ['--launch', component], {
+			encoding: 'utf8',
+			timeout: 5000
+		});
+		if (result.status !== 0) {
+			outputChannel.appendLine(`gpgconf --launch ${component} failed: ${result.error?.message || result.stderr?.trim() || `exit code ${result.status}`}`);
+		}
+	} catch (error) {
+		outputChannel.appendLine(`gpgconf --launch ${component} failed: ${extractErrorMessage(error)}`);
+	}
+}
+
 /**
  * Start the agent proxy service
  */
@@ -250,18 +606,95 @@ async function startAgentProxy(): Promise<void> {
 
 		outputChannel.appendLine('Starting agent proxy...');
 
+		if (detectedAgentSocketKind === 'standard') {
+			outputChannel.appendLine('Warning: relaying the unrestricted gpg-agent socket');
+			vscode.window.showWarningMessage(
+				`GPG Bridge: ${describeRemote()} is relayed to the standard gpg-agent socket, which is not restricted like the extra socket. The remote can use every gpg-agent command the command policy allows.`
+			);
+		}
+
 		// Create a log callback that respects the debugLogging setting
 		const config = vscode.workspace.getConfiguration('gpgBridgeAgent');
+
+		if (!fs.existsSync(detectedAgentSocket) && config.get<boolean>('launchGpgAgent', false)) {
+			launchGpgComponent('gpg-agent');
+		}
 		const debugLogging = config.get<boolean>('debugLogging') || true;	// TODO remove forced debug logging
 		const logCallback = debugLogging ? (message: string) => outputChannel.appendLine(message) : undefined;
 
+		// An invalid policy is a user error and should fail loudly rather than silently allow everything
+		const commandPolicy = parseCommandPolicy(config.get('commandPolicy') ?? {});
+		const sshPolicy = parseCommandPolicy(config.get('sshPolicy') ?? DEFAULT_SSH_POLICY);
+		const optionRewriteRules = parseOptionRewriteRules(config.get('optionRewrite') ?? []);
+
+		// Integration tests have nobody to answer the consent notification
+		const confirmKeyOperations = config.get<boolean>('confirmKeyOperations', true) && !isIntegrationTestEnvironment();
+
+		const auditLog = config.get<boolean>('auditLog', true) && auditLogPath
+			? new AuditLog({
+				filePath: auditLogPath,
+				remoteName: describeRemote(),
+				maxFileBytes: config.get<number>('auditLogMaxSizeKB', 1024) * 1024,
+				maxFiles: config.get<number>('auditLogMaxFiles', 5),
+				logCallback: logCallback
+			})
+			: null;
+
 		agentProxyService = new AgentProxy({
 			gpgAgentSocketPath: detectedAgentSocket,
+			transport: agentTransport,
 			logCallback: logCallback,
-			statusBarCallback: () => updateStatusBar()
+			statusBarCallback: () => updateStatusBar(),
+			agentAvailableCallback: () => probeGpgAgent(),
+			connectionTimeoutMs: config.get<number>('connectionTimeoutMs'),
+			greetingTimeoutMs: config.get<number>('greetingTimeoutMs'),
+			commandIdleTimeoutMs: config.get<number>('commandIdleTimeoutMs'),
+			maxSessionLifetimeMs: config.get<number>('maxSessionLifetimeMs'),
+			maxResponseBytes: config.get<number>('maxResponseBytes'),
+			commandPolicy: commandPolicy,
+			confirmCommandCallback: confirmCommand,
+			optionRewriteRules: optionRewriteRules,
+			consentCallback: confirmKeyOperations ? requestConsent : undefined,
+			auditCallback: auditLog ? (record) => auditLog.write(record) : undefined,
+			pinentryCallback: showPinentryNotice,
+			resumeIdleSessions: config.get<boolean>('resumeIdleSessions', true)
 		});
 
-		outputChannel.appendLine('Agent proxy initialized. Probe of gpg-agent in process. Status will be READY when complete.');
+		// SSH sessions fail at connect with a hint if enable-ssh-support is off in gpg-agent.conf
+		sshAgentProxyService = detectedSshSocket
+			? new SshAgentProxy({
+				sshAgentSocketPath: detectedSshSocket,
+				transport: agentTransport,
+				logCallback: logCallback,
+				statusBarCallback: () => updateStatusBar(),
+				connectionTimeoutMs: config.get<number>('connectionTimeoutMs'),
+				commandPolicy: sshPolicy,
+				confirmCommandCallback: confirmCommand,
+				consentCallback: confirmKeyOperations ? requestConsent : undefined,
+				auditCallback: auditLog ? (record) => auditLog.write(record) : undefined
+			})
+			: null;
+
+		// dirmngr and keyboxd have no private key operations, so the command policy,
+		// consent, and audit log for gpg-agent do not apply
+		for (const [component, socketPath] of detectedComponentSockets) {
+			componentProxyServices.set(component, new AgentProxy({
+				gpgAgentSocketPath: socketPath,
+				transport: agentTransport,
+				logCallback: logCallback,
+				statusBarCallback: () => updateStatusBar(),
+				connectionTimeoutMs: config.get<number>('connectionTimeoutMs'),
+				greetingTimeoutMs: config.get<number>('greetingTimeoutMs'),
+				maxResponseBytes: config.get<number>('maxResponseBytes'),
+				resumeIdleSessions: false
+			}));
+		}
+
+		if (agentProxyService.isWaitingForAgent()) {
+			outputChannel.appendLine('Agent proxy initialized. Waiting for gpg-agent to create its socket. Status will be READY when it answers.');
+		} else {
+			outputChannel.appendLine('Agent proxy initialized. Probe of gpg-agent in process. Status will be READY when complete.');
+		}
 	} catch (error) {
 		const errorMessage = extractErrorMessage(error);
 		outputChannel.appendLine(`Error starting agent proxy: ${errorMessage}`);
@@ -272,6 +705,108 @@ async function startAgentProxy(): Promise<void> {
 	}
 }
 
+/**
+ * Ask the user to approve a command whose policy action is 'confirm'
+ */
+async function confirmCommand(sessionId: string, decision: CommandPolicyDecision): Promise<boolean> {
+	const choice = await vscode.window.showWarningMessage(
+		`GPG Bridge: allow ${describeRemote()} to run ${decision.verb} on gpg-agent?`,
+		{ modal: true, detail: `Session ${sessionId}` },
+		'Allow'
+	);
+	return choice === 'Allow';
+}
+
+/**
+ * Ask the user to approve a signing, decryption, or SSH signing operation.
+ * Non-modal so it does not interrupt typing; dismissing the notification denies.
+ * If the remote client hangs up first, the prompt is withdrawn and denies; an answer
+ * given afterwards is ignored.
+ */
+async function requestConsent(request: ConsentRequest): Promise<ConsentDecision> {
+	const operation = CONSENT_OPERATION_LABELS[request.operation];
+	const withdrawn = new Promise<undefined>((resolve) => consentPrompts.set(request.sessionId, () => resolve(undefined)));
+	let choice: string | undefined;
+	try {
+		choice = await Promise.race([
+			vscode.window.showInformationMessage(
+				`GPG Bridge: ${describeRemote()} wants to ${operation} with key ${request.keygrip ?? '(unknown keygrip)'}`,
+				'Allow once',
+				'Allow for this session',
+				'Deny'
+			),
+			withdrawn
+		]);
+	} finally {
+		consentPrompts.delete(request.sessionId);
+	}
+	switch (choice) {
+		case 'Allow once':
+			return 'allow-once';
+		case 'Allow for this session':
+			return 'allow-session';
+		default:
+			return 'deny';
+	}
+}
+
+/**
+ * Answer a session's open consent prompt with deny because its client went away
+ */
+function withdrawConsentPrompt(sessionId: string, reason: string): void {
+	const withdraw = consentPrompts.get(sessionId);
+	if (withdraw) {
+		outputChannel.appendLine(`[disconnectAgent] Session ${sessionId}: Consent prompt withdrawn: ${reason}`);
+		withdraw();
+	}
+}
+
+/**
+ * Tell the user which remote pinentry is asking for, while it is open.
+ * The notification is dismissed when pinentry closes, including when the remote
+ * client hangs up and the operation is cancelled.
+ */
+function showPinentryNotice(sessionId: string, open: boolean): void {
+	pinentryNotices.get(sessionId)?.();
+	pinentryNotices.delete(sessionId);
+	if (!open) {
+		return;
+	}
+	void vscode.window.withProgress(
+		{
+			location: vscode.ProgressLocation.Notification,
+			title: `GPG Bridge: ${describeRemote()} is waiting for the passphrase in pinentry`
+		},
+		() => new Promise<void>((resolve) => pinentryNotices.set(sessionId, resolve))
+	);
+}
+
+/**
+ * Name of the remote using this UI extension, e.g. "wsl Ubuntu-22.04" or "ssh-remote myhost".
+ * Dev container authorities are hex-encoded JSON, so only the remote kind is shown for them.
+ */
+function describeRemote(): string {
+	const remoteName = vscode.env.remoteName;
+	if (!remoteName) {
+		return 'the local window';
+	}
+	const authority = vscode.workspace.workspaceFolders?.[0]?.uri.authority ?? '';
+	const host = authority.split('+')[1];
+	return host && remoteName !== 'dev-container' ? `${remoteName} ${host}` : remoteName;
+}
+
+/**
+ * Open the audit log in an editor
+ */
+async function openAuditLog(): Promise<void> {
+	if (!auditLogPath || !fs.existsSync(auditLogPath)) {
+		vscode.window.showInformationMessage('GPG Bridge audit log is empty. Enable gpgBridgeAgent.auditLog to record sessions.');
+		return;
+	}
+	const document = await vscode.workspace.openTextDocument(vscode.Uri.file(auditLogPath));
+	await vscode.window.showTextDocument(document, { preview: false });
+}
+
 /**
  * Stop the agent proxy service
  */
@@ -282,11 +817,17 @@ async function stopAgentProxy(): Promise<void> {
 	}
 
 	outputChannel.appendLine('Stopping agent proxy...');
+	await sshAgentProxyService?.stop();
+	sshAgentProxyService = null;
+	await stopComponentProxies();
 	await agentProxyService.stop();
 	agentProxyService = null;
 	// Reset detected state so the next start re-detects (e.g. if Gpg4win path changed).
 	detectedGpg4winPath = null;
 	detectedAgentSocket = null;
+	detectedAgentSocketKind = 'extra';
+	detectedSshSocket = null;
+	detectedComponentSockets = new Map();
 	probeSuccessful = false;
 
 	updateStatusBar();
@@ -300,11 +841,14 @@ async function stopAgentProxy(): Promise<void> {
 function showStatus(): void {
 	const gpg4winPath = detectedGpg4winPath || '(not detected)';
 	const agentSocket = detectedAgentSocket || '(not detected)';
+	const sshSocket = detectedSshSocket || '(not detected)';
 
 	let state = 'Inactive';
 	let sessionCount = 0;
-	if (agentProxyService) {
-		sessionCount = agentProxyService.getSessionCount();
+	if (agentProxyService?.isWaitingForAgent()) {
+		state = 'Waiting for gpg-agent';
+	} else if (agentProxyService) {
+		sessionCount = getSessionCount();
 		state = sessionCount > 0 ? 'Active' : 'Ready';
 	}
 
@@ -313,13 +857,38 @@ function showStatus(): void {
 		'',
 		`State: ${state}${sessionCount > 0 ? ` (${sessionCount} session${sessionCount > 1 ? 's' : ''})` : ''}`,
 		`Gpg4win: ${gpg4winPath}`,
-		`GPG agent: ${agentSocket}`
+		`GPG agent: ${agentSocket}${detectedAgentSocket ? ` (${detectedAgentSocketKind} socket${detectedAgentSocketKind === 'standard' ? ', unrestricted' : ''})` : ''}`,
+		`GPG agent SSH: ${sshSocket}`,
+		...(Object.entries(RELAYED_COMPONENTS) as Array<[RelayedComponent, string]>).map(
+			([component, name]) => `${name}: ${detectedComponentSockets.get(component) || '(not detected)'}`)
 	].join('\n');
 
 	vscode.window.showInformationMessage(status, { modal: true });
 	outputChannel.show();
 }
 
+/**
+ * Active gpg-agent, SSH, dirmngr, and keyboxd sessions
+ */
+function getSessionCount(): number {
+	let count = (agentProxyService?.getSessionCount() ?? 0) + (sshAgentProxyService?.getSessionCount() ?? 0);
+	for (const proxy of componentProxyServices.values()) {
+		count += proxy.getSessionCount();
+	}
+	return count;
+}
+
+/**
+ * Stop the dirmngr and keyboxd proxies
+ */
+async function stopComponentProxies(): Promise<void> {
+	const proxies = [...componentProxyServices.values()];
+	componentProxyServices = new Map();
+	for (const proxy of proxies) {
+		await proxy.stop();
+	}
+}
+
 /**
  * Update the status bar item
  */
@@ -327,8 +896,14 @@ function updateStatusBar(): void {
 	let icon = '$(circle-slash)';
 	let tooltip = 'GPG Bridge Agent is not ready';
 
-	if (agentProxyService && probeSuccessful) {
-		const sessionCount = agentProxyService.getSessionCount();
+	if (agentProxyService?.isWaitingForAgent()) {
+		icon = '$(watch)';
+		tooltip = 'GPG Bridge Agent is waiting for gpg-agent to start';
+	} else if (agentProxyService?.isReconnecting()) {
+		icon = '$(debug-disconnect)';
+		tooltip = 'GPG Bridge Agent is reconnecting to gpg-agent';
+	} else if (agentProxyService && probeSuccessful) {
+		const sessionCount = getSessionCount();
 		if (sessionCount > 0) {
 			icon = '$(sync~spin)';
 			tooltip = `GPG Bridge Agent is active with ${sessionCount} session${sessionCount > 1 ? 's' : ''}`;
@@ -357,8 +932,12 @@ async function probeGpgAgent(): Promise<void> {
 
 	try {
 		const result = await agentProxyService.connectAgent();
-		await agentProxyService.sendCommands(result.sessionId, 'GETINFO version\n');
+		const { response } = await agentProxyService.sendCommands(result.sessionId, 'GETINFO version\n');
 		await agentProxyService.disconnectAgent(result.sessionId);
+		const { terminal } = parseAssuanResponse(response);
+		if (terminal?.type === 'ERR') {
+			throw new Error(formatGpgError(terminal.value));
+		}
 		outputChannel.appendLine('Probe of gpg-agent succeeded. Agent proxy is READY.');
 		probeSuccessful = true;
 		updateStatusBar();
@@ -4,16 +4,23 @@
  * Manages connections to gpg-agent Assuan socket.
  * Exposes three commands to the request-proxy extension:
  * - connectAgent(): Creates new socket, returns sessionId
- * - sendCommands(sessionId, commandBlock): Sends command block, returns response
- * - disconnectAgent(sessionId): Closes socket and cleans up
+ * - sendCommands(sessionId, commandBlock[, onPartialResponse]): Sends command block, returns response
+ * - disconnectAgent(sessionId[, reason]): Closes socket and cleans up, cancelling an operation in flight
+ *
+ * Watches the socket file so gpg-agent can start after the proxy: until the file appears
+ * the proxy waits for gpg-agent. A later restart is noticed too: the proxy reports a
+ * reconnecting state until the new agent answers, and sessions that were idle when the
+ * old agent went away are reconnected on their next command.
  */
 
 import * as net from 'net';
 import * as fs from 'fs';
 import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
-import { log, encodeProtocolData, decodeProtocolData, parseSocketFile, extractErrorMessage, sanitizeForLog, detectResponseCompletion, cleanupSocket } from '@gpg-bridge/shared';
-import type { LogConfig, IFileSystem, ISocketFactory, ISessionManager } from '@gpg-bridge/shared';
+import { log, encodeProtocolData, decodeProtocolData, resolveAgentEndpoint, getEndpointConnectOptions, describeAgentEndpoint, extractErrorMessage, sanitizeForLog, AssuanResponseFramer, cleanupSocket, writeWithBackpressure, enforceCommandPolicy, parseCommandLine, parseAssuanResponse, decodeGpgError, formatGpgError, makeGpgErrorValue, GPG_ERR, GPG_ERR_SOURCE, POLICY_DENIED_RESPONSE, rewriteOptionCommand, OPTION_DROPPED_RESPONSE, AssuanProtocolError, formatProtocolErrorResponse, DEFAULT_ASSUAN_LIMITS } from '@gpg-bridge/shared';
+import type { LogConfig, SendCommandsResult, CommandPolicyConfig, OptionRewriteRule, IFileSystem, IFileWatcher, ISocketFactory, ISessionManager, AgentTransport, AgentEndpoint } from '@gpg-bridge/shared';
+import { summarizeCommandBlock, summarizeResponse } from './auditLog';
+import type { AuditRecord } from './auditLog';
 
 // ============================================================================
 // State Machine Type Definitions
@@ -24,8 +31,8 @@ import type { LogConfig, IFileSystem, ISocketFactory, ISessionManager } from '@g
  */
 export type SessionState =
     | 'DISCONNECTED'           // No active connection, session can be created
-    | 'CONNECTING_TO_AGENT'    // TCP socket connection in progress
-    | 'SOCKET_CONNECTED'       // Socket connected, ready to send nonce
+    | 'CONNECTING_TO_AGENT'    // Socket connection in progress
+    | 'SOCKET_CONNECTED'       // Socket connected, ready to send nonce (TCP transport)
     | 'READY'                  // Connected and authenticated, can accept commands
     | 'SENDING_TO_AGENT'       // Command write in progress to agent
     | 'WAITING_FOR_AGENT'      // Accumulating response chunks from agent
@@ -34,7 +41,7 @@ export type SessionState =
     | 'FATAL';                 // Unrecoverable cleanup failure — session permanently dead
 
 /**
- * State machine events (10 total)
+ * State machine events (11 total)
  */
 export type StateEvent =
     // Client events (from request-proxy calling VS Code commands)
@@ -44,6 +51,7 @@ export type StateEvent =
     | 'AGENT_SOCKET_CONNECTED'
     | 'AGENT_WRITE_OK'
     | 'AGENT_DATA_CHUNK'
+    | 'AGENT_DATA_PARTIAL'
     | 'AGENT_DATA_RECEIVED'
     // Error & cleanup events
     | 'ERROR_OCCURRED'
@@ -75,6 +83,7 @@ const STATE_TRANSITIONS: StateTransitionTable = {
     },
     SOCKET_CONNECTED: {
         CLIENT_DATA_RECEIVED: 'SENDING_TO_AGENT',       // Nonce send begins
+        AGENT_WRITE_OK: 'WAITING_FOR_AGENT',            // Unix socket: no nonce, wait for greeting
         ERROR_OCCURRED: 'ERROR',
         CLEANUP_REQUESTED: 'CLOSING'                    // Socket close hadError=false
     },
@@ -90,6 +99,7 @@ const STATE_TRANSITIONS: StateTransitionTable = {
     },
     WAITING_FOR_AGENT: {
         AGENT_DATA_CHUNK: 'WAITING_FOR_AGENT',         // Stay in state, accumulating
+        AGENT_DATA_PARTIAL: 'WAITING_FOR_AGENT',       // Stay in state, complete lines streamed
         AGENT_DATA_RECEIVED: 'READY',
         ERROR_OCCURRED: 'ERROR',
         CLEANUP_REQUESTED: 'CLOSING'                    // Socket close hadError=false (BYE race)
@@ -110,11 +120,12 @@ const STATE_TRANSITIONS: StateTransitionTable = {
  * Event payload types
  */
 export interface EventPayloads {
-    CLIENT_CONNECT_REQUESTED: { port: number; nonce: Buffer };
-    CLIENT_DATA_RECEIVED: { commandBlock: string | Buffer };
+    CLIENT_CONNECT_REQUESTED: { endpoint: AgentEndpoint };
+    CLIENT_DATA_RECEIVED: { commandBlock: string | Buffer; stream?: boolean };  // stream: emit AGENT_DATA_PARTIAL
     AGENT_SOCKET_CONNECTED: undefined;
     AGENT_WRITE_OK: { requiresTimeout: boolean };  // Context: nonce (true) vs command (false)
     AGENT_DATA_CHUNK: { chunk: string };
+    AGENT_DATA_PARTIAL: { lines: string };
     AGENT_DATA_RECEIVED: { response: string };
     ERROR_OCCURRED: { error: Error; message?: string };
     CLEANUP_REQUESTED: { hadError: boolean };
@@ -126,9 +137,65 @@ export interface EventPayloads {
 // Configuration & Dependencies
 // ============================================================================
 
-export interface AgentProxyConfig extends LogConfig {
-    gpgAgentSocketPath: string; // Path to Assuan socket file
+/**
+ * Private key operations that require user consent; SSH_SIGN is an SSH agent SIGN_REQUEST
+ */
+export type ConsentOperation = 'PKSIGN' | 'PKDECRYPT' | 'SSH_SIGN';
+
+/**
+ * User's answer to a consent request
+ * - allow-once: forward this operation only
+ * - allow-session: forward this and later operations with the same key in this session
+ * - deny: reject with an Assuan ERR without contacting gpg-agent
+ */
+export type ConsentDecision = 'allow-once' | 'allow-session' | 'deny';
+
+/**
+ * Details shown to the user when asking for consent
+ */
+export interface ConsentRequest {
+    sessionId: string;
+    operation: ConsentOperation;
+    keygrip: string | null;     // From the preceding SIGKEY (PKSIGN) or SETKEY (PKDECRYPT), null if none seen; for SSH_SIGN the key's SHA256 fingerprint
+}
+
+/**
+ * Response returned to the client when the user denies consent.
+ * GPG_ERR_CANCELED from source GPG Agent, the same error gpg-agent returns when
+ * the user cancels pinentry, so gpg reports "Operation cancelled".
+ */
+export const CONSENT_DENIED_RESPONSE = `ERR ${makeGpgErrorValue(GPG_ERR_SOURCE.GPGAGENT, GPG_ERR.CANCELED)} Operation cancelled <GPG Agent>\n`;
+
+const CONSENT_OPERATIONS: ReadonlySet<string> = new Set<ConsentOperation>(['PKSIGN', 'PKDECRYPT']);
+
+/**
+ * Commands that only configure the session; replayed when an idle session is resumed
+ */
+const SETUP_COMMANDS: ReadonlySet<string> = new Set(['OPTION', 'RESET']);
+
+/**
+ * Identify a gpg-agent instance: a restart rewrites the port and nonce of a TCP socket file.
+ * A Unix socket path stays the same; its restart is noticed by the file disappearing.
+ */
+function getEndpointKey(endpoint: AgentEndpoint): string {
+    return endpoint.transport === 'tcp' ? `${endpoint.port}:${endpoint.nonce.toString('hex')}` : endpoint.path;
+}
+
+export interface AgentProxyConfig extends LogConfig, CommandPolicyConfig {
+    gpgAgentSocketPath: string; // Path to Assuan socket file, may not exist yet
+    transport?: AgentTransport;         // Default: 'tcp' (Gpg4win socket emulation); 'unix' for macOS/Linux hosts
     statusBarCallback?: () => void;
+    agentAvailableCallback?: () => void;    // Socket file appeared after the proxy started without it
+    connectionTimeoutMs?: number;       // Default: 5000
+    greetingTimeoutMs?: number;         // Default: 5000
+    commandIdleTimeoutMs?: number;      // Default: 0 (disabled)
+    maxSessionLifetimeMs?: number;      // Default: 0 (disabled)
+    consentCallback?: (request: ConsentRequest) => Promise<ConsentDecision>;  // Omit to forward private key operations without asking
+    auditCallback?: (record: AuditRecord) => void;  // Receives session and command records without D-block payloads
+    resumeIdleSessions?: boolean;       // Default: true - reconnect sessions that were idle when gpg-agent went away
+    optionRewriteRules?: OptionRewriteRule[];   // Omit to forward OPTION commands unchanged
+    maxResponseBytes?: number;          // Default: 64 MiB - largest gpg-agent response accepted
+    pinentryCallback?: (sessionId: string, open: boolean) => void;  // gpg-agent opened pinentry for a session (INQUIRE PINENTRY_LAUNCHED), or it was answered, cancelled, or the session closed
 }
 
 /**
@@ -137,7 +204,11 @@ export interface AgentProxyConfig extends LogConfig {
 export interface AgentSessionManagerConfig extends LogConfig {
     connectionTimeoutMs: number;    // Default: 5000 - network operation timeout
     greetingTimeoutMs: number;      // Default: 5000 - nonce authentication timeout
-    // No response timeout - commands can be interactive (password prompts, INQUIRE)
+    commandIdleTimeoutMs: number;   // Default: 0 (disabled) - max silence from gpg-agent while waiting for a command response
+    maxSessionLifetimeMs: number;   // Default: 0 (disabled) - session is closed once this old
+    maxResponseBytes: number;       // Default: 64 MiB - session is closed if a response grows larger
+    pinentryCallback?: (sessionId: string, open: boolean) => void;
+    // The idle timeout is suspended while pinentry is open; commands can wait on human interaction
     // Network failures detected via socket 'close' event
 }
 
@@ -147,6 +218,7 @@ export interface AgentSessionManagerConfig extends LogConfig {
 interface AgentProxyDeps {
     socketFactory: ISocketFactory;
     fileSystem: IFileSystem;
+    fileWatcher: IFileWatcher;
 }
 
 // ============================================================================
@@ -161,12 +233,23 @@ export class AgentSessionManager extends EventEmitter implements ISessionManager
     public readonly sessionId: string;
     private state: SessionState = 'DISCONNECTED';
     private socket: net.Socket | null = null;
-    private buffer: string = '';
+    private readonly response = new AssuanResponseFramer();    // Response to the command in flight, scanned as chunks arrive
     private connectionTimeout: NodeJS.Timeout | null = null;
     private agentDataTimeout: NodeJS.Timeout | null = null;     // timeout for agent to respond, usually used for greeting response
-    // No responseTimeout - commands can be interactive (password prompts via pinentry)
+    private commandIdleTimeout: NodeJS.Timeout | null = null;   // timeout for agent silence during a command, restarted by each chunk
+    private sessionLifetimeTimeout: NodeJS.Timeout | null = null;
+    private pinentryActive = false;     // gpg-agent announced pinentry; waiting on the user, not the agent
+    private streamResponse = false;     // Emit complete lines of the response in flight as AGENT_DATA_PARTIAL
+    private currentCommand: string | null = null;   // Verb of the command whose response or INQUIRE is outstanding
+    private pendingInquiry: string | null = null;   // Keyword of the INQUIRE gpg-agent waits for the client to answer
     private lastError: Error | null = null;  // Stores error for Promise bridges to retrieve
-    private pendingNonce: Buffer | null = null;  // Temporary nonce storage between connect request and socket connect
+    private pendingNonce: Buffer | null = null;  // Temporary nonce storage between connect request and socket connect, TCP only
+    private signingKeygrip: string | null = null;    // From most recent SIGKEY, used by PKSIGN
+    private decryptKeygrip: string | null = null;    // From most recent SETKEY, used by PKDECRYPT
+    private readonly sessionConsents = new Set<string>();  // "<operation>:<keygrip>" approved for this session
+    private readonly setupCommands: string[] = [];   // Successful OPTION/RESET blocks, replayed on resume
+    private byeSent = false;
+    private droppedWhileIdle = false;    // gpg-agent closed the socket while no command was in flight
 
     constructor(
         sessionId: string,
@@ -176,7 +259,8 @@ export class AgentSessionManager extends EventEmitter implements ISessionManager
         super();
         this.sessionId = sessionId;
 
-        // Register handlers for all 10 events
+        // Register handlers for all events except AGENT_DATA_PARTIAL, which only the
+        // sendCommands() promise bridge listens to
         // Use .once() for single-fire events, .on() for events that can fire multiple times
 
         // Single-fire initialization events
@@ -207,8 +291,8 @@ export class AgentSessionManager extends EventEmitter implements ISessionManager
     private handleClientConnectRequested(payload: EventPayloads['CLIENT_CONNECT_REQUESTED']): void {
         this.transition('CLIENT_CONNECT_REQUESTED');
 
-        const { port, nonce } = payload;
-        log(this.config, `[${this.sessionId}] Connecting to localhost:${port}...`);
+        const { endpoint } = payload;
+        log(this.config, `[${this.sessionId}] Connecting to ${describeAgentEndpoint(endpoint)}...`);
 
         // Set connection timeout
         this.connectionTimeout = setTimeout(() => {
@@ -218,14 +302,21 @@ export class AgentSessionManager extends EventEmitter implements ISessionManager
             });
         }, this.config.connectionTimeoutMs);
 
+        // Set session lifetime limit, covers the whole session including idle READY time
+        if (this.config.maxSessionLifetimeMs > 0) {
+            this.sessionLifetimeTimeout = setTimeout(() => {
+                log(this.config, `[${this.sessionId}] Session lifetime exceeded after ${this.config.maxSessionLifetimeMs}ms`);
+                this.emit('ERROR_OCCURRED', {
+                    error: new Error(`Session lifetime exceeded after ${this.config.maxSessionLifetimeMs}ms`)
+                });
+            }, this.config.maxSessionLifetimeMs);
+        }
+
         // Create socket connection
-        const socket = this.socketFactory.createConnection({
-            host: 'localhost',
-            port: port
-        });
+        const socket = this.socketFactory.createConnection(getEndpointConnectOptions(endpoint));
 
         // Store nonce for sending after socket async connection
-        this.pendingNonce = nonce;
+        this.pendingNonce = endpoint.transport === 'tcp' ? endpoint.nonce : null;
 
         // Set socket and wire events
         this.setSocket(socket);
@@ -234,7 +325,8 @@ export class AgentSessionManager extends EventEmitter implements ISessionManager
     /**
      * Handle AGENT_SOCKET_CONNECTED: socket connection established
      * Transition: CONNECTING_TO_AGENT → SOCKET_CONNECTED
-     * Clears connection timeout and emits CLIENT_DATA_RECEIVED with nonce
+     * Clears connection timeout and emits CLIENT_DATA_RECEIVED with nonce; a Unix socket
+     * has no nonce and goes straight to waiting for the greeting with AGENT_WRITE_OK
      */
     private handleAgentSocketConnected(): void {
         this.transition('AGENT_SOCKET_CONNECTED');
@@ -247,7 +339,8 @@ export class AgentSessionManager extends EventEmitter implements ISessionManager
 
         const nonce = this.pendingNonce;
         if (!nonce) {
-            this.emit('ERROR_OCCURRED', { error: new Error('Missing nonce after connection') });
+            log(this.config, `[${this.sessionId}] Socket connected, waiting for greeting`);
+            this.emit('AGENT_WRITE_OK', { requiresTimeout: true });
             return;
         }
 
@@ -262,15 +355,16 @@ export class AgentSessionManager extends EventEmitter implements ISessionManager
 
     /**
      * Handle AGENT_WRITE_OK: data written to agent successfully
-     * Transition: SOCKET_CONNECTED → WAITING_FOR_AGENT (after nonce)
+     * Transition: SOCKET_CONNECTED → WAITING_FOR_AGENT (Unix socket, nothing to write)
+     * Transition: SENDING_TO_AGENT → WAITING_FOR_AGENT (after nonce)
      * Transition: SENDING_TO_AGENT → WAITING_FOR_AGENT (after command)
      */
     private handleAgentWriteOk(payload: EventPayloads['AGENT_WRITE_OK']): void {
         this.transition('AGENT_WRITE_OK');
         log(this.config, `[${this.sessionId}] Write completed, waiting for response...`);
 
-        // Only set greeting timeout for nonce authentication (requiresTimeout=true)
-        // NO timeout for command responses - they can be interactive (password prompts, INQUIRE)
+        // Greeting timeout for nonce authentication (requiresTimeout=true)
+        // Command responses only get the optional idle timeout, and none while pinentry is open
         const { requiresTimeout } = payload;
 
         if (requiresTimeout) {
@@ -280,8 +374,31 @@ export class AgentSessionManager extends EventEmitter implements ISessionManager
                     error: new Error(`Greeting timeout after ${this.config.greetingTimeoutMs}ms`)
                 });
             }, this.config.greetingTimeoutMs);
+        } else if (this.pinentryActive) {
+            log(this.config, `[${this.sessionId}] Pinentry active, command idle timeout suspended`);
+        } else {
+            this.startCommandIdleTimeout();
+        }
+        // Otherwise rely on socket 'close' for network failures
+    }
+
+    /**
+     * (Re)start the command idle timeout if configured
+     */
+    private startCommandIdleTimeout(): void {
+        if (this.commandIdleTimeout) {
+            clearTimeout(this.commandIdleTimeout);
+            this.commandIdleTimeout = null;
         }
-        // For command responses: no timeout, rely on socket 'close' for network failures
+        if (this.config.commandIdleTimeoutMs <= 0) {
+            return;
+        }
+        this.commandIdleTimeout = setTimeout(() => {
+            log(this.config, `[${this.sessionId}] Command idle timeout after ${this.config.commandIdleTimeoutMs}ms`);
+            this.emit('ERROR_OCCURRED', {
+                error: new Error(`Command idle timeout after ${this.config.commandIdleTimeoutMs}ms`)
+            });
+        }, this.config.commandIdleTimeoutMs);
     }
 
     /**
@@ -291,15 +408,26 @@ export class AgentSessionManager extends EventEmitter implements ISessionManager
     private handleClientDataReceived(payload: EventPayloads['CLIENT_DATA_RECEIVED']): void {
         this.transition('CLIENT_DATA_RECEIVED');
 
-        const { commandBlock } = payload;
+        const { commandBlock, stream } = payload;
         const isNonce = Buffer.isBuffer(commandBlock);
+        this.streamResponse = stream ?? false;
+        this.pendingInquiry = null;
+        if (!isNonce) {
+            const { verb } = parseCommandLine(commandBlock);
+            if (verb === 'BYE') {
+                this.byeSent = true;
+            }
+            if (verb !== 'D' && verb !== 'END' && verb !== 'CAN') {
+                this.currentCommand = verb;     // INQUIRE answers continue the current command
+            }
+        }
         const logMsg = isNonce
             ? `${commandBlock.length}-byte nonce`
             : sanitizeForLog(commandBlock);
         log(this.config, `[${this.sessionId}] Sending ${isNonce ? 'nonce' : 'command'}: ${logMsg}`);
 
-        // Reset buffer for new response
-        this.buffer = '';
+        // Reset for new response
+        this.response.reset();
 
         // Write data to socket
         if (!this.socket) {
@@ -315,7 +443,9 @@ export class AgentSessionManager extends EventEmitter implements ISessionManager
             ? commandBlock
             : encodeProtocolData(commandBlock);
 
-        this.socket.write(data, (error) => {
+        // Large INQUIRE D-blocks (PKDECRYPT ciphertext) can exceed the socket buffer; wait for
+        // 'drain' so the session stays in SENDING_TO_AGENT until the agent has accepted them
+        writeWithBackpressure(this.socket, data, (error) => {
             if (error) {
                 log(this.config, `[${this.sessionId}] Write failed: ${error.message}`);
                 this.emit('ERROR_OCCURRED', { error });
@@ -333,23 +463,60 @@ export class AgentSessionManager extends EventEmitter implements ISessionManager
      */
     private handleAgentDataChunk(payload: EventPayloads['AGENT_DATA_CHUNK']): void {
         const { chunk } = payload;
-        this.buffer += chunk;
+        const completion = this.response.push(chunk);
+        this.setPinentryActive(false);  // Any agent output means it is no longer blocked on pinentry
 
-        log(this.config, `[${this.sessionId}] Accumulated ${this.buffer.length} bytes`);
+        log(this.config, `[${this.sessionId}] Accumulated ${this.response.length} bytes`);
+
+        if (this.response.length > this.config.maxResponseBytes) {
+            this.response.reset();
+            this.emit('ERROR_OCCURRED', {
+                error: new AssuanProtocolError(`Agent response exceeds ${this.config.maxResponseBytes} bytes`, GPG_ERR.ASS_TOO_MUCH_DATA)
+            });
+            return;
+        }
 
         // Check if response is complete
-        const completion = detectResponseCompletion(this.buffer);
         if (completion.complete) {
-            log(this.config, `[${this.sessionId}] Complete response (${completion.type}): ${sanitizeForLog(this.buffer)}`);
+            const response = this.response.getResponse();
+            log(this.config, `[${this.sessionId}] Complete response (${completion.type}): ${sanitizeForLog(response)}`);
+            const { terminal } = parseAssuanResponse(response);
+            if (terminal?.type === 'ERR') {
+                log(this.config, `[${this.sessionId}] gpg-agent error ${terminal.value}: ${formatGpgError(terminal.value)} [${decodeGpgError(terminal.value).name}]`);
+            }
 
             // Clear greeting timeout if set (only set for nonce authentication)
             if (this.agentDataTimeout) {
                 clearTimeout(this.agentDataTimeout);
                 this.agentDataTimeout = null;
             }
+            if (this.commandIdleTimeout) {
+                clearTimeout(this.commandIdleTimeout);
+                this.commandIdleTimeout = null;
+            }
+
+            // gpg-agent sends INQUIRE PINENTRY_LAUNCHED before waiting on the user; the
+            // response to the client's reply can take as long as the user needs
+            this.setPinentryActive(terminal?.type === 'INQUIRE' && terminal.keyword === 'PINENTRY_LAUNCHED');
+            this.pendingInquiry = terminal?.type === 'INQUIRE' ? terminal.keyword : null;
+            if (terminal?.type !== 'INQUIRE') {
+                this.currentCommand = null;
+            }
 
             // Emit AGENT_DATA_RECEIVED (unified event for greeting and command responses)
-            this.emit('AGENT_DATA_RECEIVED', { response: this.buffer });
+            this.emit('AGENT_DATA_RECEIVED', { response });
+        } else {
+            if (this.commandIdleTimeout) {
+                // Partial output (e.g. S PROGRESS) proves the agent is alive
+                this.startCommandIdleTimeout();
+            }
+            if (this.streamResponse) {
+                const lines = this.response.takeLines();
+                if (lines) {
+                    log(this.config, `[${this.sessionId}] Streaming partial response: ${sanitizeForLog(lines)}`);
+                    this.emit('AGENT_DATA_PARTIAL', { lines });
+                }
+            }
         }
     }
 
@@ -404,6 +571,7 @@ export class AgentSessionManager extends EventEmitter implements ISessionManager
 
         // Clear all timeouts
         this.clearAllTimeouts();
+        this.setPinentryActive(false);
 
         // Remove all operational event handlers before touching the socket.
         // This prevents any in-flight or delayed socket events (e.g., a late 'connect'
@@ -422,8 +590,8 @@ export class AgentSessionManager extends EventEmitter implements ISessionManager
             this.socket = null;
         }
 
-        // Clear buffer
-        this.buffer = '';
+        // Clear accumulated response
+        this.response.reset();
 
         // Emit result (BEFORE removing listeners so CLEANUP_COMPLETE/ERROR handlers can run)
         if (cleanupError) {
@@ -461,6 +629,27 @@ export class AgentSessionManager extends EventEmitter implements ISessionManager
         return this.state;
     }
 
+    /**
+     * Keyword of the INQUIRE gpg-agent is waiting for the client to answer, or null
+     */
+    public getPendingInquiry(): string | null {
+        return this.pendingInquiry;
+    }
+
+    /**
+     * Verb of the command whose response or INQUIRE is outstanding, or null between commands
+     */
+    public getCurrentCommand(): string | null {
+        return this.currentCommand;
+    }
+
+    /**
+     * Whether gpg-agent announced pinentry (INQUIRE PINENTRY_LAUNCHED) and has not answered since
+     */
+    public isPinentryActive(): boolean {
+        return this.pinentryActive;
+    }
+
     /**
      * Get last stored error (for Promise bridges in AgentProxy to retrieve on cleanup)
      */
@@ -468,6 +657,84 @@ export class AgentSessionManager extends EventEmitter implements ISessionManager
         return this.lastError;
     }
 
+    /**
+     * Track key selection commands so consent requests can name the key in use.
+     * gpg-agent keeps the selected keys until RESET, so this mirrors that lifetime.
+     */
+    public recordKeySelection(commandBlock: string): void {
+        for (const line of commandBlock.split('\n')) {
+            const { verb, args } = parseCommandLine(line);
+            const keygrip = args.split(/\s+/).pop() || null;
+            if (verb === 'SIGKEY') {
+                this.signingKeygrip = keygrip;
+            } else if (verb === 'SETKEY') {
+                this.decryptKeygrip = keygrip;
+            } else if (verb === 'RESET') {
+                this.signingKeygrip = null;
+                this.decryptKeygrip = null;
+            }
+        }
+    }
+
+    /**
+     * Get the keygrip a private key operation will use
+     */
+    public getSelectedKeygrip(operation: ConsentOperation): string | null {
+        return operation === 'PKSIGN' ? this.signingKeygrip : this.decryptKeygrip;
+    }
+
+    /**
+     * Check whether the user allowed this operation and key for the rest of the session
+     */
+    public hasSessionConsent(operation: ConsentOperation, keygrip: string | null): boolean {
+        return this.sessionConsents.has(`${operation}:${keygrip ?? ''}`);
+    }
+
+    /**
+     * Remember that the user allowed this operation and key for the rest of the session
+     */
+    public grantSessionConsent(operation: ConsentOperation, keygrip: string | null): void {
+        this.sessionConsents.add(`${operation}:${keygrip ?? ''}`);
+    }
+
+    /**
+     * Remember a command block that only configures the session (OPTION, RESET) once
+     * gpg-agent accepted it, so it can be replayed on a new connection
+     */
+    public recordSetupCommand(commandBlock: string, response: string): void {
+        const verbs = commandBlock.split('\n')
+            .map((line) => parseCommandLine(line).verb)
+            .filter((verb) => verb);
+        if (verbs.length === 0 || !verbs.every((verb) => SETUP_COMMANDS.has(verb))) {
+            return;
+        }
+        if (parseAssuanResponse(response).terminal?.type === 'OK') {
+            this.setupCommands.push(commandBlock);
+        }
+    }
+
+    public getSetupCommands(): string[] {
+        return [...this.setupCommands];
+    }
+
+    /**
+     * Whether gpg-agent closed the connection between commands, without a BYE from the
+     * client. This is what an agent restart looks like to an idle session.
+     */
+    public wasDroppedWhileIdle(): boolean {
+        return this.droppedWhileIdle;
+    }
+
+    /**
+     * Track pinentry and report changes to pinentryCallback
+     */
+    private setPinentryActive(active: boolean): void {
+        if (this.pinentryActive !== active) {
+            this.pinentryActive = active;
+            this.config.pinentryCallback?.(this.sessionId, active);
+        }
+    }
+
     /**
      * Validate and execute state transition
      * Throws if transition is invalid
@@ -524,12 +791,14 @@ export class AgentSessionManager extends EventEmitter implements ISessionManager
         // Error event - fires once when socket error occurs
         socket.once('error', (err: Error) => {
             log(this.config, `[${this.sessionId}] Socket error: ${err.message}`);
+            this.noteAgentDrop();
             this.emit('ERROR_OCCURRED', { error: err });
         });
 
         // Close event - fires exactly once when socket closes
         socket.once('close', (hadError: boolean) => {
             log(this.config, `[${this.sessionId}] Socket closed (hadError=${hadError})`);
+            this.noteAgentDrop();
 
             if (hadError) {
                 // Transmission error during socket I/O
@@ -542,8 +811,18 @@ export class AgentSessionManager extends EventEmitter implements ISessionManager
     }
 
     /**
-     * Clear all active timeouts (connection and greeting only)
-     * No response timeout - commands can require indefinite human interaction
+     * Record whether the socket went away while the session was idle and not saying BYE.
+     * READY alone is not idle: after an INQUIRE the session is READY for the client's answer,
+     * and replaying setup commands on a new connection could not continue that command.
+     */
+    private noteAgentDrop(): void {
+        if (this.state === 'READY' && !this.byeSent && this.pendingInquiry === null && this.currentCommand === null) {
+            this.droppedWhileIdle = true;
+        }
+    }
+
+    /**
+     * Clear all active timeouts (connection, greeting, command idle, and session lifetime)
      */
     private clearAllTimeouts(): void {
         if (this.connectionTimeout) {
@@ -554,6 +833,14 @@ export class AgentSessionManager extends EventEmitter implements ISessionManager
             clearTimeout(this.agentDataTimeout);
             this.agentDataTimeout = null;
         }
+        if (this.commandIdleTimeout) {
+            clearTimeout(this.commandIdleTimeout);
+            this.commandIdleTimeout = null;
+        }
+        if (this.sessionLifetimeTimeout) {
+            clearTimeout(this.sessionLifetimeTimeout);
+            this.sessionLifetimeTimeout = null;
+        }
     }
 }
 
@@ -583,6 +870,7 @@ export function validateTransitionTable(): Array<{ state: SessionState; event: S
         'AGENT_SOCKET_CONNECTED',
         'AGENT_WRITE_OK',
         'AGENT_DATA_CHUNK',
+        'AGENT_DATA_PARTIAL',
         'AGENT_DATA_RECEIVED',
         'ERROR_OCCURRED',
         'CLEANUP_REQUESTED',
@@ -611,15 +899,33 @@ export function validateTransitionTable(): Array<{ state: SessionState; event: S
 
 export class AgentProxy {
     private sessions: Map<string, AgentSessionManager> = new Map();
+    private resumableSessions: Map<string, string[]> = new Map();  // sessionId → setup commands to replay
     private socketFactory: ISocketFactory;
     private fileSystem: IFileSystem;
-    private readonly sessionTimeouts = {
-        connection: 5000,   // Non-interactive network operation
-        greeting: 5000      // Non-interactive nonce authentication
-        // No response timeout - commands can be interactive (password prompts, INQUIRE)
+    private readonly transport: AgentTransport;
+    private socketFileWatch: { close(): void } | null = null;
+    private socketFileKey: string | null = null;    // "<port>:<nonce hex>" of the last socket file read; the path for Unix sockets
+    private reconnecting = false;
+    private waitingForAgent = false;    // Socket file has not existed since the proxy started
+    private readonly sessionTimeouts: {
+        connection: number;
+        greeting: number;
+        commandIdle: number;
+        maxLifetime: number;
     };
+    private readonly maxResponseBytes: number;
 
     constructor(private config: AgentProxyConfig, deps?: Partial<AgentProxyDeps>) {
+        this.sessionTimeouts = {
+            connection: config.connectionTimeoutMs ?? 5000,    // Non-interactive network operation
+            greeting: config.greetingTimeoutMs ?? 5000,        // Non-interactive nonce authentication
+            commandIdle: config.commandIdleTimeoutMs ?? 0,     // Off by default, commands can be interactive
+            maxLifetime: config.maxSessionLifetimeMs ?? 0      // Off by default
+        };
+        this.maxResponseBytes = config.maxResponseBytes ?? DEFAULT_ASSUAN_LIMITS.maxResponseBytes;
+
+        this.transport = config.transport ?? 'tcp';
+
         // Initialize with defaults or provided dependencies
         this.socketFactory = deps?.socketFactory ?? { createConnection: (options) => net.createConnection(options) };
         this.fileSystem = deps?.fileSystem ?? ({
@@ -627,10 +933,21 @@ export class AgentProxy {
             readFileSync: fs.readFileSync
         } as unknown as IFileSystem);
 
-        // Validate socket path exists
+        // gpg-agent may not be running yet; the watcher reports when it creates the socket file
         if (!this.fileSystem.existsSync(config.gpgAgentSocketPath)) {
-            throw new Error(`GPG agent socket not found: ${config.gpgAgentSocketPath}`);
+            log(this.config, `[AgentProxy] GPG agent socket not found, waiting for ${config.gpgAgentSocketPath}`);
+            this.waitingForAgent = true;
         }
+
+        // Watch the socket file: gpg-agent creates it on start and rewrites it with a new port
+        // and nonce on restart. Not persistent, so the watcher alone never keeps the process alive.
+        const fileWatcher: IFileWatcher = deps?.fileWatcher ?? {
+            watch: (path, listener) => {
+                fs.watchFile(path, { persistent: false, interval: 1000 }, listener);
+                return { close: () => fs.unwatchFile(path, listener) };
+            }
+        };
+        this.socketFileWatch = fileWatcher.watch(config.gpgAgentSocketPath, () => this.handleSocketFileChanged());
     }
 
     /**
@@ -640,7 +957,10 @@ export class AgentProxy {
         return {
             ...this.config,
             connectionTimeoutMs: this.sessionTimeouts.connection,
-            greetingTimeoutMs: this.sessionTimeouts.greeting
+            greetingTimeoutMs: this.sessionTimeouts.greeting,
+            commandIdleTimeoutMs: this.sessionTimeouts.commandIdle,
+            maxSessionLifetimeMs: this.sessionTimeouts.maxLifetime,
+            maxResponseBytes: this.maxResponseBytes
         };
     }
 
@@ -650,6 +970,7 @@ export class AgentProxy {
      * Creates a new session and connects to the GPG agent via TCP socket with nonce authentication.
      * The session flows through states: DISCONNECTED → CONNECTING_TO_AGENT → SOCKET_CONNECTED →
      * SENDING_TO_AGENT (nonce) → WAITING_FOR_AGENT (greeting) → READY.
+     * With the Unix socket transport there is no nonce: SOCKET_CONNECTED → WAITING_FOR_AGENT.
      *
      * Uses event-driven state machine with promise bridge pattern:
      * - Registers listeners for AGENT_DATA_RECEIVED (success) and CLEANUP_REQUESTED (error)
@@ -660,7 +981,7 @@ export class AgentProxy {
      *                  both extensions log the same identifier for the end-to-end session.
      *                  Falls back to a freshly generated UUID if omitted.
      * @returns Promise resolving to object with sessionId (UUID) and greeting response
-     * @throws Connection timeout (5s), greeting timeout (5s), socket errors, validation errors
+     * @throws Connection timeout (default 5s), greeting timeout (default 5s), socket errors, validation errors
      *
      * @example
      * const { sessionId, greeting } = await agentProxy.connectAgent();
@@ -668,13 +989,20 @@ export class AgentProxy {
      */
     public async connectAgent(sessionId: string = uuidv4()): Promise<{ sessionId: string; greeting: string }> {
         log(this.config, `[${sessionId}] Create session to gpg-agent...`);
+        if (this.waitingForAgent) {
+            // The file watcher polls; check now in case the agent was just launched
+            this.handleSocketFileChanged();
+        }
+        if (this.waitingForAgent) {
+            throw new Error(`Connection to gpg-agent failed: gpg-agent is not running (waiting for ${this.config.gpgAgentSocketPath})`);
+        }
 
         try {
-            // Read and parse the socket file to get port and nonce
-            const socketData = this.fileSystem.readFileSync(this.config.gpgAgentSocketPath);
-            const { port, nonce } = parseSocketFile(socketData);
+            // Read and parse the socket file (following a redirection) to get port and nonce, or the Unix socket path
+            const endpoint = this.readEndpoint();
+            this.socketFileKey = getEndpointKey(endpoint);
 
-            log(this.config, `[${sessionId}] Found config: localhost:${port} with nonce`);
+            log(this.config, `[${sessionId}] Found config: ${describeAgentEndpoint(endpoint)}${endpoint.transport === 'tcp' ? ' with nonce' : ''}`);
 
             // Create session manager
             const sessionConfig = this.createSessionConfig();
@@ -685,9 +1013,20 @@ export class AgentProxy {
 
             // Register permanent cleanup listener to remove session from map
             // This ensures cleanup works even if Promise bridges have already resolved
+            let connectedAt: number | null = null;
             session.once('CLEANUP_COMPLETE', () => {
                 log(this.config, `[${sessionId}] Removing session from map after cleanup`);
-                this.sessions.delete(sessionId);
+                if (this.sessions.get(sessionId) === session) {
+                    this.sessions.delete(sessionId);
+                }
+                if (connectedAt !== null) {
+                    this.audit({ event: 'session-end', time: new Date().toISOString(), sessionId, durationMs: Date.now() - connectedAt });
+                }
+                if (session.wasDroppedWhileIdle() && this.config.resumeIdleSessions !== false) {
+                    log(this.config, `[${sessionId}] gpg-agent closed idle session, will reconnect on next command`);
+                    this.resumableSessions.set(sessionId, session.getSetupCommands());
+                    this.setReconnecting(true);
+                }
             });
 
             // Promise bridge: wait for AGENT_DATA_RECEIVED (greeting) or CLEANUP_REQUESTED
@@ -695,6 +1034,9 @@ export class AgentProxy {
             return await new Promise<{ sessionId: string; greeting: string }>((resolve, reject) => {
                 const handleResponse = (payload: { response: string }) => {
                     session.removeListener('CLEANUP_REQUESTED', handleCleanup);
+                    connectedAt = Date.now();
+                    this.setReconnecting(false);
+                    this.audit({ event: 'session-start', time: new Date(connectedAt).toISOString(), sessionId });
                     resolve({ sessionId, greeting: payload.response });
                 };
 
@@ -712,7 +1054,7 @@ export class AgentProxy {
                 session.once('AGENT_DATA_RECEIVED', handleResponse);  // Greeting is first response
 
                 // Initiate connection
-                session.emit('CLIENT_CONNECT_REQUESTED', { port, nonce });
+                session.emit('CLIENT_CONNECT_REQUESTED', { endpoint });
             });
         } catch (error) {
             const msg = extractErrorMessage(error, 'Unknown error during connection');
@@ -730,7 +1072,7 @@ export class AgentProxy {
      *
      * Sends one or more GPG commands to the agent and waits for complete response.
      * Session must be in READY state (protocol violation if not). Response accumulates
-     * until OK/ERR/INQUIRE detected via detectResponseCompletion().
+     * until OK/ERR/INQUIRE detected via AssuanResponseFramer.
      *
      * Uses event-driven state machine with promise bridge pattern:
      * - Validates session exists and is in READY state
@@ -740,11 +1082,27 @@ export class AgentProxy {
      *
      * State flow: READY → SENDING_TO_AGENT → WAITING_FOR_AGENT → READY
      *
-     * NO TIMEOUT: Commands can be interactive (password prompts, INQUIRE). Network failures
-     * detected via socket 'close' event, not arbitrary timeouts.
+     * NO RESPONSE TIMEOUT by default: Commands can be interactive (password prompts, INQUIRE).
+     * Network failures detected via socket 'close' event. The optional commandIdleTimeoutMs
+     * limits silence from gpg-agent and is suspended while pinentry is open.
+     *
+     * When a command policy is configured, every command in the block is checked first.
+     * A rejected block is answered with a synthesized ERR and never reaches gpg-agent;
+     * the session stays READY. PKSIGN and PKDECRYPT additionally require user consent
+     * when a consentCallback is configured; a denial is answered with CONSENT_DENIED_RESPONSE.
+     * An OPTION command matched by optionRewriteRules is forwarded with the replacement value,
+     * or dropped and answered with OK.
+     *
+     * If gpg-agent closed this session while it was idle (e.g. the agent restarted), the
+     * session is reconnected first and its earlier OPTION/RESET commands are replayed.
+     *
+     * With onPartialResponse, complete lines (status lines such as S PROGRESS, D lines) are
+     * passed to it as they arrive instead of waiting for the whole response; the promise then
+     * resolves with only the remaining lines, which still end with OK, ERR, or INQUIRE.
      *
      * @param sessionId - Session ID from connectAgent()
      * @param commandBlock - GPG command(s) to send (e.g., "BYE\n" or "GETINFO version\n")
+     * @param onPartialResponse - Optional receiver for complete lines before the response ends
      * @returns Promise resolving to object with response string from agent
      * @throws Session not found, not in READY state (protocol violation), write errors, socket errors
      *
@@ -752,12 +1110,74 @@ export class AgentProxy {
      * const { response } = await agentProxy.sendCommands(sessionId, 'GETINFO version\n');
      * console.log(`Agent version: ${response}`);
      */
-    public async sendCommands(sessionId: string, commandBlock: string): Promise<{ response: string }> {
-        const session = this.sessions.get(sessionId);
+    public async sendCommands(sessionId: string, commandBlock: string, onPartialResponse?: (lines: string) => void): Promise<SendCommandsResult> {
+        const startTime = Date.now();
+        let result = 'FAILED';
+        try {
+            const reply = await this.relayCommands(sessionId, commandBlock, onPartialResponse);
+            result = summarizeResponse(reply.response);
+            return reply;
+        } finally {
+            this.audit({
+                event: 'command',
+                time: new Date(startTime).toISOString(),
+                sessionId,
+                ...summarizeCommandBlock(commandBlock),
+                result,
+                durationMs: Date.now() - startTime
+            });
+        }
+    }
+
+    /**
+     * Check policy, rewrite OPTION commands, and check consent, then forward the command
+     * block to gpg-agent. See sendCommands() for the flow.
+     */
+    private async relayCommands(sessionId: string, commandBlock: string, onPartialResponse?: (lines: string) => void): Promise<SendCommandsResult> {
+        const session = this.sessions.get(sessionId) ?? await this.resumeSession(sessionId);
         if (!session) {
             return Promise.reject(new Error(`Invalid session: ${sessionId}`));
         }
 
+        // Policy check before the READY check: confirmation may take a while, and the
+        // session state must be validated after it completes
+        if (this.config.commandPolicy && !(await enforceCommandPolicy(this.config, sessionId, commandBlock))) {
+            log(this.config, `[${sessionId}] Command rejected by policy, not sent to gpg-agent`);
+            return { response: POLICY_DENIED_RESPONSE };
+        }
+
+        // Only the option name is logged; values such as putenv may be sensitive
+        const rewrite = this.config.optionRewriteRules ? rewriteOptionCommand(this.config.optionRewriteRules, commandBlock) : null;
+        if (rewrite?.action === 'drop') {
+            log(this.config, `[${sessionId}] OPTION ${rewrite.option} dropped, not sent to gpg-agent`);
+            return { response: OPTION_DROPPED_RESPONSE };
+        }
+        if (rewrite?.action === 'replace') {
+            log(this.config, `[${sessionId}] OPTION ${rewrite.option} replaced`);
+        }
+        const forwardBlock = rewrite?.commandBlock ?? commandBlock;
+
+        const consentCallback = this.config.consentCallback;
+        if (!consentCallback) {
+            session.recordKeySelection(forwardBlock);
+        } else if (!(await this.requestConsent(session, forwardBlock, consentCallback))) {
+            log(this.config, `[${sessionId}] Operation denied by user, not sent to gpg-agent`);
+            return { response: CONSENT_DENIED_RESPONSE };
+        }
+
+        // The rewritten block is what a resumed session replays
+        const reply = await this.forwardCommands(session, forwardBlock, onPartialResponse);
+        session.recordSetupCommand(forwardBlock, reply.response);
+        return reply;
+    }
+
+    /**
+     * Send the command block to gpg-agent and wait for the complete response,
+     * streaming complete lines to onPartialResponse if given
+     */
+    private forwardCommands(session: AgentSessionManager, commandBlock: string, onPartialResponse?: (lines: string) => void): Promise<SendCommandsResult> {
+        const sessionId = session.sessionId;
+
         // Protocol violation check: must be in READY state
         if (session.getState() !== 'READY') {
             const error = new Error(`Protocol violation: sendCommands called while session in ${session.getState()}`);
@@ -771,25 +1191,39 @@ export class AgentProxy {
 
         // Promise bridge: wait for AGENT_DATA_RECEIVED or CLEANUP_REQUESTED
         // Note: ERROR_OCCURRED always emits CLEANUP_REQUESTED, so we only listen to CLEANUP
-        return new Promise<{ response: string }>((resolve, reject) => {
+        return new Promise<SendCommandsResult>((resolve, reject) => {
+            const handlePartial = (payload: { lines: string }) => {
+                onPartialResponse?.(payload.lines);
+            };
+
             const handleComplete = (payload: { response: string }) => {
                 session.removeListener('CLEANUP_REQUESTED', handleCleanup);
+                session.removeListener('AGENT_DATA_PARTIAL', handlePartial);
                 resolve({ response: payload.response });
             };
 
             const handleCleanup = () => {
                 session.removeListener('AGENT_DATA_RECEIVED', handleComplete);
+                session.removeListener('AGENT_DATA_PARTIAL', handlePartial);
                 // Use stored error if available, otherwise generic message
                 const error = session.getLastError() ?? new Error('Session closed while waiting for command response');
+                if (error instanceof AssuanProtocolError) {
+                    // The session is closed, but the client still gets an ERR it can report
+                    resolve({ response: formatProtocolErrorResponse(error), sessionClosed: true });
+                    return;
+                }
                 reject(error);
             };
 
             // Register listeners (no ERROR_OCCURRED - it always leads to CLEANUP_REQUESTED)
             session.once('CLEANUP_REQUESTED', handleCleanup);
             session.once('AGENT_DATA_RECEIVED', handleComplete);
+            if (onPartialResponse) {
+                session.on('AGENT_DATA_PARTIAL', handlePartial);
+            }
 
             // Emit data received event
-            session.emit('CLIENT_DATA_RECEIVED', { commandBlock });
+            session.emit('CLIENT_DATA_RECEIVED', { commandBlock, stream: !!onPartialResponse });
         });
     }
 
@@ -805,9 +1239,17 @@ export class AgentProxy {
      * - Validates session exists
      * - Registers listener for CLEANUP_REQUESTED (covers both graceful and error paths)
      * - If READY: emits CLIENT_DATA_RECEIVED with 'BYE\n'
-     * - If not READY: emits ERROR_OCCURRED to force cleanup
+     * - If a command is in flight: emits CLEANUP_REQUESTED to close the connection
+     * - Otherwise: emits ERROR_OCCURRED to force cleanup
      * - Promise always resolves (never rejects) after cleanup complete
      *
+     * A client that goes away mid-operation is cancelled the way Assuan allows. If gpg-agent
+     * is waiting for the answer to an INQUIRE (with PINENTRY_LAUNCHED, pinentry is already
+     * open), the INQUIRE is answered with CAN, gpg-agent closes pinentry and ends the command
+     * with ERR, then BYE follows. gpg-agent reads no commands while one is in flight, but it
+     * watches the connection while pinentry is open; closing the connection makes it cancel
+     * pinentry and abandon the command.
+     *
      * Cleanup guarantees:
      * - Socket listeners removed via removeAllListeners()
      * - Socket destroyed via socket.destroy()
@@ -815,6 +1257,7 @@ export class AgentProxy {
      * - First-error-wins pattern (cleanup continues even if one step fails)
      *
      * @param sessionId - Session ID from connectAgent()
+     * @param reason - Why the caller disconnects, logged when an operation is cancelled
      * @returns Promise resolving when session cleaned up and removed from Map
      * @throws Session not found
      *
@@ -822,12 +1265,39 @@ export class AgentProxy {
      * await agentProxy.disconnectAgent(sessionId);
      * console.log('Disconnected from agent');
      */
-    public async disconnectAgent(sessionId: string): Promise<void> {
+    public async disconnectAgent(sessionId: string, reason?: string): Promise<void> {
+        if (this.resumableSessions.delete(sessionId)) {
+            log(this.config, `[${sessionId}] Disconnected before resuming, nothing to close`);
+            return;
+        }
+
         const session = this.sessions.get(sessionId);
         if (!session) {
             throw new Error(`Invalid session: ${sessionId}`);
         }
 
+        const because = reason ? `: ${reason}` : '';
+        const operation = session.getCurrentCommand() ?? 'command';
+        const inquiry = session.getState() === 'READY' ? session.getPendingInquiry() : null;
+        if (inquiry) {
+            log(this.config, `[${sessionId}] Cancelling ${operation} at INQUIRE ${inquiry} with CAN${because}`);
+            try {
+                const { response } = await this.forwardCommands(session, 'CAN\n');
+                log(this.config, `[${sessionId}] gpg-agent answered CAN: ${sanitizeForLog(response)}`);
+            } catch (error) {
+                log(this.config, `[${sessionId}] CAN failed: ${extractErrorMessage(error)}`);
+            }
+            const state = session.getState();
+            if (state !== 'READY') {
+                // gpg-agent closed the connection instead; cleanup is underway or done
+                if ((state === 'DISCONNECTED' || state === 'FATAL') && this.sessions.get(sessionId) === session) {
+                    this.sessions.delete(sessionId);
+                }
+                this.config.statusBarCallback?.();
+                return;
+            }
+        }
+
         log(this.config, `[${sessionId}] Disconnect gracefully from gpg-agent...`);
 
         // Promise bridge: wait for CLEANUP_REQUESTED
@@ -846,8 +1316,13 @@ export class AgentProxy {
             session.once('CLEANUP_REQUESTED', handleDisconnected);
 
             // Send BYE command through normal flow (if state is READY)
-            if (session.getState() === 'READY') {
+            const state = session.getState();
+            if (state === 'READY') {
                 session.emit('CLIENT_DATA_RECEIVED', { commandBlock: 'BYE\n' });
+            } else if (state === 'SENDING_TO_AGENT' || state === 'WAITING_FOR_AGENT') {
+                const waitingOn = session.isPinentryActive() ? ' with pinentry open' : '';
+                log(this.config, `[${sessionId}] Cancelling ${operation} in flight${waitingOn} by closing the connection${because}`);
+                session.emit('CLEANUP_REQUESTED', { hadError: false });
             } else {
                 // If not READY, just trigger cleanup
                 log(this.config, `[${sessionId}] Session not READY, forcing cleanup...`);
@@ -858,6 +1333,164 @@ export class AgentProxy {
         });
     }
 
+    /**
+     * Reconnect a session that gpg-agent closed while it was idle, under the same sessionId,
+     * and replay its setup commands. A replayed command that fails is logged and skipped;
+     * gpg-agent answers the client's next command with the default for that option.
+     *
+     * @returns the new session, or undefined if sessionId is not waiting to be resumed
+     * @throws Connection failures, as connectAgent()
+     */
+    private async resumeSession(sessionId: string): Promise<AgentSessionManager | undefined> {
+        const setupCommands = this.resumableSessions.get(sessionId);
+        if (!setupCommands) {
+            return undefined;
+        }
+        this.resumableSessions.delete(sessionId);
+
+        log(this.config, `[${sessionId}] Resuming session, replaying ${setupCommands.length} setup command(s)`);
+        await this.connectAgent(sessionId);
+        const session = this.sessions.get(sessionId)!;
+        for (const commandBlock of setupCommands) {
+            const { response } = await this.forwardCommands(session, commandBlock);
+            if (parseAssuanResponse(response).terminal?.type === 'OK') {
+                session.recordSetupCommand(commandBlock, response);
+            } else {
+                log(this.config, `[${sessionId}] Replayed setup command failed: ${sanitizeForLog(response)}`);
+            }
+        }
+        return session;
+    }
+
+    /**
+     * Socket file watcher callback. The first readable file while waiting means gpg-agent
+     * started: leave the waiting state and let agentAvailableCallback probe it. Afterwards a
+     * changed port or nonce means gpg-agent restarted: report reconnecting and probe the
+     * new agent. A missing or unreadable file means gpg-agent is gone; the next change will
+     * bring it back.
+     */
+    private handleSocketFileChanged(): void {
+        let key: string;
+        try {
+            key = getEndpointKey(this.readEndpoint());
+        } catch (error) {
+            if (!this.waitingForAgent) {
+                log(this.config, `[AgentProxy] gpg-agent socket file unavailable: ${extractErrorMessage(error)}`);
+                this.socketFileKey = null;  // Any socket that reappears is a new agent
+                this.setReconnecting(true);
+            }
+            return;
+        }
+
+        if (this.waitingForAgent) {
+            log(this.config, '[AgentProxy] gpg-agent socket file appeared');
+            this.waitingForAgent = false;
+            this.socketFileKey = key;
+            this.config.statusBarCallback?.();
+            this.config.agentAvailableCallback?.();
+            return;
+        }
+        if (key === this.socketFileKey) {
+            return;
+        }
+
+        log(this.config, '[AgentProxy] gpg-agent socket file changed, connecting to new agent');
+        this.socketFileKey = key;
+        this.setReconnecting(true);
+        void this.probeAgent();
+    }
+
+    /**
+     * Resolve the socket path with the configured transport
+     */
+    private readEndpoint(): AgentEndpoint {
+        return resolveAgentEndpoint(this.config.gpgAgentSocketPath, this.transport, this.fileSystem);
+    }
+
+    /**
+     * Open and close a session to confirm gpg-agent answers; a greeting clears the reconnecting state
+     */
+    private async probeAgent(): Promise<void> {
+        try {
+            const { sessionId } = await this.connectAgent();
+            await this.disconnectAgent(sessionId);
+        } catch (error) {
+            log(this.config, `[AgentProxy] gpg-agent not reachable yet: ${extractErrorMessage(error)}`);
+        }
+    }
+
+    private setReconnecting(reconnecting: boolean): void {
+        if (this.reconnecting === reconnecting) {
+            return;
+        }
+        this.reconnecting = reconnecting;
+        log(this.config, `[AgentProxy] ${reconnecting ? 'Reconnecting to gpg-agent' : 'Connected to gpg-agent'}`);
+        this.config.statusBarCallback?.();
+    }
+
+    /**
+     * Ask the user to approve a private key operation.
+     *
+     * Every line of the block is checked, so a PKSIGN or PKDECRYPT after another command
+     * is not missed; all other commands are allowed. Key selections (SIGKEY, SETKEY) are
+     * recorded line by line, so each operation is asked about with the key it will use.
+     * Approvals given for the whole session are remembered per operation and keygrip.
+     * A failing consentCallback (e.g. notification error) is treated as deny.
+     *
+     * @returns true if the command block may be sent to gpg-agent
+     */
+    private async requestConsent(
+        session: AgentSessionManager,
+        commandBlock: string,
+        consentCallback: (request: ConsentRequest) => Promise<ConsentDecision>
+    ): Promise<boolean> {
+        for (const line of commandBlock.split('\n')) {
+            session.recordKeySelection(line);
+            const { verb } = parseCommandLine(line);
+            if (!CONSENT_OPERATIONS.has(verb)) {
+                continue;
+            }
+
+            const operation = verb as ConsentOperation;
+            const keygrip = session.getSelectedKeygrip(operation);
+            if (session.hasSessionConsent(operation, keygrip)) {
+                log(this.config, `[${session.sessionId}] ${operation} with ${keygrip ?? 'unknown key'} already allowed for this session`);
+                continue;
+            }
+
+            let decision: ConsentDecision;
+            try {
+                decision = await consentCallback({ sessionId: session.sessionId, operation, keygrip });
+            } catch (error) {
+                log(this.config, `[${session.sessionId}] Consent request failed: ${extractErrorMessage(error)}`);
+                decision = 'deny';
+            }
+            log(this.config, `[${session.sessionId}] Consent for ${operation} with ${keygrip ?? 'unknown key'}: ${decision}`);
+
+            if (decision === 'deny') {
+                return false;
+            }
+            if (decision === 'allow-session') {
+                session.grantSessionConsent(operation, keygrip);
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Pass a record to the audit callback. Callback errors are logged and never affect the session.
+     */
+    private audit(record: AuditRecord): void {
+        if (!this.config.auditCallback) {
+            return;
+        }
+        try {
+            this.config.auditCallback(record);
+        } catch (error) {
+            log(this.config, `[${record.sessionId}] Audit callback failed: ${extractErrorMessage(error)}`);
+        }
+    }
+
     public isRunning(): boolean {
         return this.sessions.size > 0;
     }
@@ -866,6 +1499,20 @@ export class AgentProxy {
         return this.sessions.size;
     }
 
+    /**
+     * Whether the proxy started before gpg-agent and the socket file has not appeared yet
+     */
+    public isWaitingForAgent(): boolean {
+        return this.waitingForAgent;
+    }
+
+    /**
+     * Whether gpg-agent went away and no new connection has succeeded since
+     */
+    public isReconnecting(): boolean {
+        return this.reconnecting;
+    }
+
     /**
      * Stop the agent proxy and await deterministic cleanup of all active sessions.
      *
@@ -881,8 +1528,13 @@ export class AgentProxy {
      *    an invalid transition and the once() handler is already consumed
      * 3. All other active states: register listener AND emit ERROR_OCCURRED to
      *    drive them into teardown
+     *
+     * The socket file watcher is closed and sessions waiting to be resumed are dropped.
      */
     public async stop(): Promise<void> {
+        this.socketFileWatch?.close();
+        this.socketFileWatch = null;
+        this.resumableSessions.clear();
         if (this.sessions.size === 0) {
             return;
         }
@@ -0,0 +1,200 @@
+/**
+ * Audit Log Service
+ *
+ * Append-only JSON Lines record of sessions relayed to gpg-agent: when each session
+ * connected and disconnected, which commands it sent, which keygrips they referenced,
+ * and how gpg-agent answered. D-block payloads (signature input, ciphertext, passphrases)
+ * are never recorded; only command verbs and keygrips are extracted from command blocks.
+ * SSH agent requests are recorded by message type and signing key fingerprint.
+ *
+ * The file rotates by size: audit.jsonl → audit.jsonl.1 → ... → audit.jsonl.<maxFiles>,
+ * and the oldest file is deleted.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { log, extractErrorMessage, parseCommandLine, parseAssuanResponse } from '@gpg-bridge/shared';
+import type { LogConfig } from '@gpg-bridge/shared';
+
+// ============================================================================
+// Audit Records
+// ============================================================================
+
+/**
+ * Session connected to gpg-agent and received its greeting
+ */
+export interface AuditSessionStart {
+    event: 'session-start';
+    time: string;           // ISO 8601
+    sessionId: string;
+}
+
+/**
+ * Command block answered by gpg-agent, the command policy, or the consent prompt
+ */
+export interface AuditCommand {
+    event: 'command';
+    time: string;           // ISO 8601, when the command block was received
+    sessionId: string;
+    verbs: string[];        // Command verbs in the block, excluding D lines
+    keygrips: string[];     // Keygrips referenced by command arguments
+    result: string;         // 'OK', 'ERR <code>', 'INQUIRE <keyword>', or 'FAILED' if the session failed
+    durationMs: number;
+}
+
+/**
+ * SSH agent request answered by gpg-agent, the SSH policy, or the consent prompt
+ */
+export interface AuditSshRequest {
+    event: 'ssh-request';
+    time: string;           // ISO 8601, when the request was received
+    sessionId: string;
+    message: string;        // Request message type, e.g. 'SIGN_REQUEST'
+    fingerprint: string | null;     // SHA256 fingerprint of the signing key for SIGN_REQUEST
+    result: string;         // Response message type, e.g. 'SIGN_RESPONSE' or 'FAILURE', or 'FAILED' if the session failed
+    durationMs: number;
+}
+
+/**
+ * Session removed after graceful disconnect or error
+ */
+export interface AuditSessionEnd {
+    event: 'session-end';
+    time: string;           // ISO 8601
+    sessionId: string;
+    durationMs: number;     // Since session-start
+}
+
+export type AuditRecord = AuditSessionStart | AuditCommand | AuditSshRequest | AuditSessionEnd;
+
+/**
+ * Extract the command verbs and keygrips referenced by a command block.
+ * D lines are skipped entirely so their payload never reaches the audit log.
+ *
+ * @example
+ * summarizeCommandBlock('SIGKEY D27B...5BA4\nSETHASH 8 ABCD...\n')
+ * // { verbs: ['SIGKEY', 'SETHASH'], keygrips: ['D27B...5BA4'] }
+ */
+export function summarizeCommandBlock(commandBlock: string): { verbs: string[]; keygrips: string[] } {
+    const verbs: string[] = [];
+    const keygrips = new Set<string>();
+    for (const line of commandBlock.split('\n')) {
+        const { verb, args } = parseCommandLine(line);
+        if (!verb || verb === 'D' || verb.startsWith('#')) {
+            continue;
+        }
+        verbs.push(verb);
+        for (const match of args.matchAll(/(?:^|[\s&])([0-9A-Fa-f]{40})(?=\s|$)/g)) {
+            keygrips.add(match[1].toUpperCase());
+        }
+    }
+    return { verbs, keygrips: [...keygrips] };
+}
+
+/**
+ * Reduce a gpg-agent response to its final status line without data or descriptions.
+ *
+ * @example
+ * summarizeResponse('D sig\nOK\n')                       // 'OK'
+ * summarizeResponse('ERR 67108963 Operation cancelled\n') // 'ERR 67108963'
+ */
+export function summarizeResponse(response: string): string {
+    const { terminal } = parseAssuanResponse(response);
+    switch (terminal?.type) {
+        case 'OK':
+            return 'OK';
+        case 'ERR':
+            return `ERR ${terminal.value}`;
+        case 'INQUIRE':
+            return `INQUIRE ${terminal.keyword}`;
+        default:
+            return 'UNKNOWN';
+    }
+}
+
+// ============================================================================
+// Configuration & Dependencies
+// ============================================================================
+
+export interface AuditLogConfig extends LogConfig {
+    filePath: string;       // Active log file, rotated files get .1, .2, ... suffixes
+    remoteName: string;     // Added to every record
+    maxFileBytes: number;   // Rotate before a write would exceed this size
+    maxFiles: number;       // Rotated files to keep; 0 keeps none
+}
+
+export interface IAuditFileSystem {
+    existsSync(path: string): boolean;
+    statSync(path: string): { size: number };
+    appendFileSync(path: string, data: string, options?: { mode?: number }): void;
+    renameSync(oldPath: string, newPath: string): void;
+    unlinkSync(path: string): void;
+    mkdirSync(path: string, options?: { recursive: boolean; mode?: number }): void;
+}
+
+export interface AuditLogDeps {
+    fileSystem: IAuditFileSystem;
+}
+
+// ============================================================================
+// Audit Log (Public API)
+// ============================================================================
+
+export class AuditLog {
+    private fileSystem: IAuditFileSystem;
+
+    constructor(private config: AuditLogConfig, deps?: Partial<AuditLogDeps>) {
+        this.fileSystem = deps?.fileSystem ?? fs;
+    }
+
+    public getFilePath(): string {
+        return this.config.filePath;
+    }
+
+    /**
+     * Append one record. Failures are logged and swallowed: a full disk or locked file
+     * must not break signing.
+     */
+    public write(record: AuditRecord): void {
+        const line = JSON.stringify({ ...record, remote: this.config.remoteName }) + '\n';
+        try {
+            this.fileSystem.mkdirSync(path.dirname(this.config.filePath), { recursive: true });
+            this.rotateIfNeeded(Buffer.byteLength(line));
+            this.fileSystem.appendFileSync(this.config.filePath, line, { mode: 0o600 });
+        } catch (error) {
+            log(this.config, `Audit log write failed: ${extractErrorMessage(error)}`);
+        }
+    }
+
+    /**
+     * Shift rotated files up by one and move the active file to .1 when the next
+     * write would exceed maxFileBytes
+     */
+    private rotateIfNeeded(incomingBytes: number): void {
+        const { filePath, maxFileBytes, maxFiles } = this.config;
+        if (!this.fileSystem.existsSync(filePath)) {
+            return;
+        }
+        const size = this.fileSystem.statSync(filePath).size;
+        if (size === 0 || size + incomingBytes <= maxFileBytes) {
+            return;
+        }
+
+        const oldest = `${filePath}.${maxFiles}`;
+        if (maxFiles > 0 && this.fileSystem.existsSync(oldest)) {
+            this.fileSystem.unlinkSync(oldest);
+        }
+        for (let index = maxFiles - 1; index >= 1; index--) {
+            const source = `${filePath}.${index}`;
+            if (this.fileSystem.existsSync(source)) {
+                this.fileSystem.renameSync(source, `${filePath}.${index + 1}`);
+            }
+        }
+        if (maxFiles > 0) {
+            this.fileSystem.renameSync(filePath, `${filePath}.1`);
+        } else {
+            this.fileSystem.unlinkSync(filePath);
+        }
+        log(this.config, `Audit log rotated at ${size} bytes`);
+    }
+}
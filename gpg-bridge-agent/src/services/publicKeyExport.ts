@@ -0,0 +1,157 @@
+/**
+ * Public Key Export Service
+ *
+ * Exports the public keys that belong to the secret keys gpg-agent holds, so a remote can
+ * import them and use the agent's keys without a copy of the Windows public keyring.
+ *
+ * 1. Ask gpg-agent for its keygrips with KEYINFO --list
+ * 2. Map keygrips to primary key fingerprints with gpg --list-keys --with-keygrip
+ * 3. Export those keys with gpg --export --armor
+ */
+
+import { spawnSync } from 'child_process';
+import { log, parseAssuanResponse, formatGpgError } from '@gpg-bridge/shared';
+import type { LogConfig } from '@gpg-bridge/shared';
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Extract keygrips from a KEYINFO --list response.
+ *
+ * @example
+ * parseKeyinfoKeygrips('S KEYINFO D27BB288411333745EE1B194FBC6162A92775BA4 D - - - P - - -\nOK\n')
+ * // ['D27BB288411333745EE1B194FBC6162A92775BA4']
+ */
+export function parseKeyinfoKeygrips(response: string): string[] {
+    const keygrips = new Set<string>();
+    for (const status of parseAssuanResponse(response).status) {
+        const keygrip = status.args.split(' ', 1)[0];
+        if (status.keyword === 'KEYINFO' && /^[0-9A-Fa-f]{40}$/.test(keygrip)) {
+            keygrips.add(keygrip.toUpperCase());
+        }
+    }
+    return [...keygrips];
+}
+
+/**
+ * Find the primary key fingerprints whose primary key or any subkey has one of the keygrips.
+ *
+ * @param colons Output of gpg --with-colons --with-keygrip --list-keys
+ * @param keygrips Upper-case keygrips held by gpg-agent
+ */
+export function findFingerprintsForKeygrips(colons: string, keygrips: ReadonlySet<string>): string[] {
+    const fingerprints = new Set<string>();
+    let primary: string | null = null;
+    let expectPrimaryFpr = false;
+    for (const line of colons.split(/\r?\n/)) {
+        const fields = line.split(':');
+        switch (fields[0]) {
+            case 'pub':
+                primary = null;
+                expectPrimaryFpr = true;
+                break;
+            case 'fpr':
+                if (expectPrimaryFpr) {
+                    primary = fields[9]?.toUpperCase() || null;
+                    expectPrimaryFpr = false;
+                }
+                break;
+            case 'grp':
+                if (primary && keygrips.has(fields[9]?.toUpperCase() ?? '')) {
+                    fingerprints.add(primary);
+                }
+                break;
+        }
+    }
+    return [...fingerprints];
+}
+
+// ============================================================================
+// Configuration & Dependencies
+// ============================================================================
+
+export interface PublicKeyExporterConfig extends LogConfig {
+    gpgPath: string;    // Windows gpg.exe
+}
+
+/**
+ * Session operations of AgentProxy used to run KEYINFO --list
+ */
+export interface IKeyinfoSource {
+    connectAgent(): Promise<{ sessionId: string }>;
+    sendCommands(sessionId: string, commandBlock: string): Promise<{ response: string }>;
+    disconnectAgent(sessionId: string): Promise<void>;
+}
+
+export interface GpgResult {
+    status: number | null;
+    stdout: string;
+    stderr: string;
+}
+
+export interface PublicKeyExporterDeps {
+    runGpg: (gpgPath: string, args: string[]) => GpgResult;
+}
+
+// ============================================================================
+// Public Key Exporter (Public API)
+// ============================================================================
+
+export class PublicKeyExporter {
+    private runGpg: (gpgPath: string, args: string[]) => GpgResult;
+
+    constructor(private agent: IKeyinfoSource, private config: PublicKeyExporterConfig, deps?: Partial<PublicKeyExporterDeps>) {
+        this.runGpg = deps?.runGpg ?? ((gpgPath, args) => {
+            const result = spawnSync(gpgPath, args, { encoding: 'utf8', timeout: 30000 });
+            return { status: result.status, stdout: result.stdout ?? '', stderr: result.error?.message || result.stderr || '' };
+        });
+    }
+
+    /**
+     * Export the public keys for every secret key gpg-agent holds.
+     *
+     * @returns Primary key fingerprints and their ASCII-armored export; both empty if gpg-agent has no keys
+     * @throws gpg-agent errors (e.g. KEYINFO denied by the command policy), gpg failures
+     */
+    public async export(): Promise<{ fingerprints: string[]; armored: string }> {
+        const keygrips = await this.listAgentKeygrips();
+        log(this.config, `[PublicKeyExporter] gpg-agent holds ${keygrips.length} key(s)`);
+        if (keygrips.length === 0) {
+            return { fingerprints: [], armored: '' };
+        }
+
+        const colons = this.gpg(['--batch', '--with-colons', '--with-keygrip', '--list-keys']);
+        const fingerprints = findFingerprintsForKeygrips(colons, new Set(keygrips));
+        log(this.config, `[PublicKeyExporter] Found ${fingerprints.length} public key(s) for those keygrips`);
+        if (fingerprints.length === 0) {
+            return { fingerprints: [], armored: '' };
+        }
+
+        const armored = this.gpg(['--batch', '--armor', '--export', ...fingerprints]);
+        return { fingerprints, armored };
+    }
+
+    private async listAgentKeygrips(): Promise<string[]> {
+        const { sessionId } = await this.agent.connectAgent();
+        try {
+            const { response } = await this.agent.sendCommands(sessionId, 'KEYINFO --list\n');
+            const { terminal } = parseAssuanResponse(response);
+            if (terminal?.type === 'ERR') {
+                throw new Error(`KEYINFO --list failed: ${formatGpgError(terminal.value)}`);
+            }
+            return parseKeyinfoKeygrips(response);
+        } finally {
+            await this.agent.disconnectAgent(sessionId);
+        }
+    }
+
+    private gpg(args: string[]): string {
+        const result = this.runGpg(this.config.gpgPath, args);
+        if (result.status !== 0) {
+            throw new Error(`gpg ${args.slice(1).join(' ')} failed: ${result.stderr.trim() || `exit code ${result.status}`}`);
+        }
+        return result.stdout;
+    }
+}
@@ -0,0 +1,430 @@
+/**
+ * SSH Agent Proxy Service
+ *
+ * Manages connections to gpg-agent's SSH agent socket (gpgconf --list-dirs agent-ssh-socket,
+ * requires enable-ssh-support in gpg-agent.conf). On Windows this socket is emulated the same
+ * way as the Assuan socket: a file with a TCP port and a 16-byte nonce.
+ *
+ * Exposes three commands to the request-proxy extension:
+ * - connect(): Creates new socket and authenticates with the nonce (TCP transport), returns sessionId
+ * - sendRequest(sessionId, message): Sends one SSH agent request, returns the response message
+ * - disconnect(sessionId): Closes socket and cleans up
+ *
+ * The SSH agent protocol has no greeting and exactly one response message per request,
+ * so each session only needs to track whether a request is in flight.
+ *
+ * Requests get the same safeguards as Assuan commands in AgentProxy: a command policy keyed
+ * by message type name (adding, removing, and locking keys is denied by default), consent
+ * for SIGN_REQUEST, and one audit record per request. Refused requests are answered with
+ * SSH_AGENT_FAILURE without contacting gpg-agent.
+ */
+
+import * as net from 'net';
+import * as fs from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { log, encodeProtocolData, decodeProtocolData, resolveAgentEndpoint, getEndpointConnectOptions, describeAgentEndpoint, extractErrorMessage, cleanupSocket, extractSshMessage, describeSshMessage, getSshMessageName, getSshSignRequestFingerprint, enforceCommandPolicy, DEFAULT_SSH_POLICY, SSH_AGENT_FAILURE_RESPONSE } from '@gpg-bridge/shared';
+import type { LogConfig, CommandPolicy, CommandPolicyConfig, IFileSystem, ISocketFactory, ISessionManager, AgentTransport } from '@gpg-bridge/shared';
+import type { ConsentDecision, ConsentRequest } from './agentProxy';
+import type { AuditRecord } from './auditLog';
+
+// ============================================================================
+// Configuration & Dependencies
+// ============================================================================
+
+/**
+ * commandPolicy rules name SSH message types (e.g. ADD_IDENTITY); default: DEFAULT_SSH_POLICY
+ */
+export interface SshAgentProxyConfig extends LogConfig, CommandPolicyConfig {
+    sshAgentSocketPath: string;     // Path to the SSH agent socket file (port and nonce) or Unix socket
+    transport?: AgentTransport;     // Default: 'tcp' (Gpg4win socket emulation); 'unix' for macOS/Linux hosts
+    statusBarCallback?: () => void;
+    connectionTimeoutMs?: number;   // Default: 5000
+    consentCallback?: (request: ConsentRequest) => Promise<ConsentDecision>;  // Omit to forward sign requests without asking
+    auditCallback?: (record: AuditRecord) => void;  // Receives one record per request without its payload
+}
+
+/**
+ * Optional dependencies for SshAgentProxy (all defaults provided)
+ */
+interface SshAgentProxyDeps {
+    socketFactory: ISocketFactory;
+    fileSystem: IFileSystem;
+}
+
+/**
+ * SSH session states
+ */
+export type SshSessionState =
+    | 'CONNECTING'          // TCP connect and nonce write in progress
+    | 'READY'               // Authenticated, can accept a request
+    | 'WAITING_FOR_AGENT'   // Request sent, accumulating the response message
+    | 'CLOSED';             // Socket closed, session removed
+
+// ============================================================================
+// SSH Agent Session (Per-Session)
+// ============================================================================
+
+/**
+ * Single connection to gpg-agent's SSH socket
+ */
+class SshAgentSession implements ISessionManager {
+    private state: SshSessionState = 'CONNECTING';
+    private buffer = '';
+    private pending: { resolve: (response: string) => void; reject: (error: Error) => void } | null = null;
+    private readonly sessionConsents = new Set<string>();  // Key fingerprints allowed to sign for this session
+
+    constructor(
+        public readonly sessionId: string,
+        private readonly socket: net.Socket,
+        private readonly config: LogConfig,
+        private readonly onClosed: () => void
+    ) {
+        socket.on('data', (chunk: Buffer) => this.handleData(decodeProtocolData(chunk)));
+        socket.once('error', (error: Error) => {
+            log(this.config, `[${this.sessionId}] SSH socket error: ${error.message}`);
+            this.close(error);
+        });
+        socket.once('close', () => {
+            log(this.config, `[${this.sessionId}] SSH socket closed`);
+            this.close(new Error('gpg-agent closed the SSH agent connection'));
+        });
+    }
+
+    public getState(): SshSessionState {
+        return this.state;
+    }
+
+    /**
+     * Connect, write the nonce, and resolve once gpg-agent accepted the write.
+     * Without a nonce (Unix socket) the session is ready as soon as it connects.
+     */
+    public authenticate(nonce: Buffer | null, timeoutMs: number): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            const timeout = setTimeout(() => {
+                this.close(new Error(`Connection timeout after ${timeoutMs}ms`));
+            }, timeoutMs);
+            this.pending = {
+                resolve: () => {
+                    clearTimeout(timeout);
+                    resolve();
+                },
+                reject: (error) => {
+                    clearTimeout(timeout);
+                    reject(error);
+                }
+            };
+
+            this.socket.once('connect', () => {
+                if (!nonce) {
+                    this.state = 'READY';
+                    this.settle((pending) => pending.resolve(''));
+                    return;
+                }
+                this.socket.write(nonce, (error) => {
+                    if (error) {
+                        this.close(error);
+                        return;
+                    }
+                    log(this.config, `[${this.sessionId}] SSH socket authenticated`);
+                    this.state = 'READY';
+                    this.settle((pending) => pending.resolve(''));
+                });
+            });
+        });
+    }
+
+    /**
+     * Whether the user allowed signing with this key for the rest of the session
+     */
+    public hasSessionConsent(fingerprint: string | null): boolean {
+        return this.sessionConsents.has(fingerprint ?? '');
+    }
+
+    /**
+     * Remember that the user allowed signing with this key for the rest of the session
+     */
+    public grantSessionConsent(fingerprint: string | null): void {
+        this.sessionConsents.add(fingerprint ?? '');
+    }
+
+    /**
+     * Send one framed request and wait for the framed response
+     */
+    public request(message: string): Promise<string> {
+        if (this.state !== 'READY') {
+            return Promise.reject(new Error(`Protocol violation: SSH request while session in ${this.state}`));
+        }
+
+        this.state = 'WAITING_FOR_AGENT';
+        this.buffer = '';
+        return new Promise<string>((resolve, reject) => {
+            this.pending = { resolve, reject };
+            this.socket.write(encodeProtocolData(message), (error) => {
+                if (error) {
+                    this.close(error);
+                }
+            });
+        });
+    }
+
+    /**
+     * Destroy the socket and reject any request in flight. Safe to call more than once.
+     */
+    public close(error: Error | null = null): void {
+        if (this.state === 'CLOSED') {
+            return;
+        }
+        this.state = 'CLOSED';
+        if (error) {
+            log(this.config, `[${this.sessionId}] Closing SSH session: ${error.message}`);
+        }
+        const cleanupError = cleanupSocket(this.socket, this.config, this.sessionId);
+        this.settle((pending) => pending.reject(error ?? cleanupError ?? new Error('SSH session closed')));
+        this.onClosed();
+    }
+
+    private handleData(chunk: string): void {
+        if (this.state !== 'WAITING_FOR_AGENT') {
+            this.close(new Error(`Protocol violation: gpg-agent sent ${chunk.length} bytes in state ${this.state}`));
+            return;
+        }
+
+        this.buffer += chunk;
+        let extraction;
+        try {
+            extraction = extractSshMessage(this.buffer);
+        } catch (error) {
+            this.close(error instanceof Error ? error : new Error(String(error)));
+            return;
+        }
+        if (!extraction.extracted) {
+            return;
+        }
+        if (extraction.remaining) {
+            this.close(new Error(`Protocol violation: gpg-agent sent ${extraction.remaining.length} bytes after its response`));
+            return;
+        }
+
+        this.buffer = '';
+        this.state = 'READY';
+        const response = extraction.extracted;
+        this.settle((pending) => pending.resolve(response));
+    }
+
+    private settle(action: (pending: NonNullable<SshAgentSession['pending']>) => void): void {
+        const pending = this.pending;
+        this.pending = null;
+        if (pending) {
+            action(pending);
+        }
+    }
+}
+
+// ============================================================================
+// SSH Agent Proxy (Public API)
+// ============================================================================
+
+export class SshAgentProxy {
+    private sessions: Map<string, SshAgentSession> = new Map();
+    private socketFactory: ISocketFactory;
+    private fileSystem: IFileSystem;
+    private readonly connectionTimeoutMs: number;
+    private readonly transport: AgentTransport;
+    private readonly commandPolicy: CommandPolicy;
+
+    constructor(private config: SshAgentProxyConfig, deps?: Partial<SshAgentProxyDeps>) {
+        this.connectionTimeoutMs = config.connectionTimeoutMs ?? 5000;
+        this.transport = config.transport ?? 'tcp';
+        this.commandPolicy = config.commandPolicy ?? DEFAULT_SSH_POLICY;
+        this.socketFactory = deps?.socketFactory ?? { createConnection: (options) => net.createConnection(options) };
+        this.fileSystem = deps?.fileSystem ?? ({
+            existsSync: fs.existsSync,
+            readFileSync: fs.readFileSync
+        } as unknown as IFileSystem);
+    }
+
+    /**
+     * Connect to gpg-agent's SSH socket and return a sessionId.
+     *
+     * The socket file is read on every connect so a restarted gpg-agent is picked up.
+     *
+     * @param sessionId Optional caller-supplied UUID hint, as for AgentProxy.connectAgent()
+     * @throws Socket file missing or invalid (SSH support disabled in gpg-agent), connection timeout, socket errors
+     */
+    public async connect(sessionId: string = uuidv4()): Promise<{ sessionId: string }> {
+        log(this.config, `[${sessionId}] Create SSH session to gpg-agent...`);
+
+        try {
+            if (!this.fileSystem.existsSync(this.config.sshAgentSocketPath)) {
+                throw new Error(`${this.config.sshAgentSocketPath} not found; add enable-ssh-support to gpg-agent.conf`);
+            }
+            const endpoint = resolveAgentEndpoint(this.config.sshAgentSocketPath, this.transport, this.fileSystem);
+            log(this.config, `[${sessionId}] Connecting to SSH agent at ${describeAgentEndpoint(endpoint)}...`);
+
+            const socket = this.socketFactory.createConnection(getEndpointConnectOptions(endpoint));
+            const session = new SshAgentSession(sessionId, socket, this.config, () => {
+                if (this.sessions.get(sessionId) === session) {
+                    this.sessions.delete(sessionId);
+                    this.config.statusBarCallback?.();
+                }
+            });
+            this.sessions.set(sessionId, session);
+
+            await session.authenticate(endpoint.transport === 'tcp' ? endpoint.nonce : null, this.connectionTimeoutMs);
+            return { sessionId };
+        } catch (error) {
+            const msg = extractErrorMessage(error, 'Unknown error during connection');
+            log(this.config, `[${sessionId}] Connection to gpg-agent SSH socket failed: ${msg}`);
+            this.sessions.get(sessionId)?.close();
+            throw new Error(`Connection to gpg-agent SSH socket failed: ${msg}`);
+        } finally {
+            this.config.statusBarCallback?.();
+        }
+    }
+
+    /**
+     * Send one framed SSH agent request and return gpg-agent's framed response.
+     *
+     * The request is checked against the SSH policy, and a SIGN_REQUEST is asked about with
+     * consentCallback when configured; either refusal is answered with SSH_AGENT_FAILURE
+     * without contacting gpg-agent. Every request is passed to auditCallback.
+     *
+     * @param sessionId - Session ID from connect()
+     * @param message - Complete request message including its length prefix, as a latin1 string
+     * @throws Session not found, request in flight (protocol violation), malformed message, socket errors
+     */
+    public async sendRequest(sessionId: string, message: string): Promise<{ response: string }> {
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            throw new Error(`Invalid session: ${sessionId}`);
+        }
+
+        const startTime = Date.now();
+        const fingerprint = getSshSignRequestFingerprint(message);
+        let result = 'FAILED';
+        try {
+            const reply = await this.relayRequest(session, message, fingerprint);
+            result = getSshMessageName(reply.response);
+            return reply;
+        } finally {
+            this.audit({
+                event: 'ssh-request',
+                time: new Date(startTime).toISOString(),
+                sessionId,
+                message: getSshMessageName(message),
+                fingerprint,
+                result,
+                durationMs: Date.now() - startTime
+            });
+        }
+    }
+
+    /**
+     * Check the framing, policy, and consent, then forward the request to gpg-agent
+     */
+    private async relayRequest(session: SshAgentSession, message: string, fingerprint: string | null): Promise<{ response: string }> {
+        const sessionId = session.sessionId;
+        const { extracted, remaining } = extractSshMessage(message);
+        if (!extracted || remaining) {
+            throw new Error('SSH request must be exactly one complete message');
+        }
+
+        const name = getSshMessageName(message);
+        if (!(await enforceCommandPolicy({ ...this.config, commandPolicy: this.commandPolicy }, sessionId, name))) {
+            log(this.config, `[${sessionId}] SSH request ${name} rejected by policy, not sent to gpg-agent`);
+            return { response: SSH_AGENT_FAILURE_RESPONSE };
+        }
+
+        const consentCallback = this.config.consentCallback;
+        if (consentCallback && name === 'SIGN_REQUEST' && !(await this.requestConsent(session, fingerprint, consentCallback))) {
+            log(this.config, `[${sessionId}] SSH sign request denied by user, not sent to gpg-agent`);
+            return { response: SSH_AGENT_FAILURE_RESPONSE };
+        }
+
+        // The client may have disconnected while a confirmation or consent prompt was open
+        if (this.sessions.get(sessionId) !== session) {
+            throw new Error(`Invalid session: ${sessionId}`);
+        }
+
+        log(this.config, `[${sessionId}] Send SSH request: ${describeSshMessage(message)}`);
+        const response = await session.request(message);
+        log(this.config, `[${sessionId}] SSH response: ${describeSshMessage(response)}`);
+        return { response };
+    }
+
+    /**
+     * Ask the user to approve signing with an SSH key, unless already allowed for the session.
+     * A failing consentCallback (e.g. notification error) is treated as deny.
+     *
+     * @returns true if the request may be sent to gpg-agent
+     */
+    private async requestConsent(
+        session: SshAgentSession,
+        fingerprint: string | null,
+        consentCallback: (request: ConsentRequest) => Promise<ConsentDecision>
+    ): Promise<boolean> {
+        if (session.hasSessionConsent(fingerprint)) {
+            log(this.config, `[${session.sessionId}] SSH_SIGN with ${fingerprint ?? 'unknown key'} already allowed for this session`);
+            return true;
+        }
+
+        let decision: ConsentDecision;
+        try {
+            decision = await consentCallback({ sessionId: session.sessionId, operation: 'SSH_SIGN', keygrip: fingerprint });
+        } catch (error) {
+            log(this.config, `[${session.sessionId}] Consent request failed: ${extractErrorMessage(error)}`);
+            decision = 'deny';
+        }
+        log(this.config, `[${session.sessionId}] Consent for SSH_SIGN with ${fingerprint ?? 'unknown key'}: ${decision}`);
+
+        if (decision === 'allow-session') {
+            session.grantSessionConsent(fingerprint);
+        }
+        return decision !== 'deny';
+    }
+
+    /**
+     * Pass a record to the audit callback. Callback errors are logged and never affect the session.
+     */
+    private audit(record: AuditRecord): void {
+        if (!this.config.auditCallback) {
+            return;
+        }
+        try {
+            this.config.auditCallback(record);
+        } catch (error) {
+            log(this.config, `[${record.sessionId}] Audit callback failed: ${extractErrorMessage(error)}`);
+        }
+    }
+
+    /**
+     * Close a session. The SSH agent protocol has no goodbye message.
+     *
+     * @throws Session not found
+     */
+    public async disconnect(sessionId: string): Promise<void> {
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            throw new Error(`Invalid session: ${sessionId}`);
+        }
+        log(this.config, `[${sessionId}] Disconnect SSH session`);
+        session.close();
+    }
+
+    public getSessionCount(): number {
+        return this.sessions.size;
+    }
+
+    /**
+     * Close all sessions
+     */
+    public async stop(): Promise<void> {
+        if (this.sessions.size === 0) {
+            return;
+        }
+        log(this.config, `[SshAgentProxy] Stopping ${this.sessions.size} active session(s)`);
+        for (const session of [...this.sessions.values()]) {
+            session.close(new Error('SshAgentProxy stopped'));
+        }
+    }
+}
@@ -1,4 +1,4 @@
-/**
+﻿/**
  * Integration Tests: Agent-Proxy Service
  *
  * Tests AgentProxy with mocked dependencies.
@@ -6,7 +6,10 @@
  */
 
 import { expect } from 'chai';
-import { AgentProxy } from '../services/agentProxy';
+import { AgentProxy, CONSENT_DENIED_RESPONSE } from '../services/agentProxy';
+import type { AgentProxyConfig, ConsentDecision, ConsentRequest } from '../services/agentProxy';
+import type { AuditRecord } from '../services/auditLog';
+import { DEFAULT_COMMAND_POLICY, DEFAULT_OPTION_REWRITE_RULES, encodeInquireData, OPTION_DROPPED_RESPONSE, POLICY_DENIED_RESPONSE } from '@gpg-bridge/shared';
 import { MockSocketFactory, MockFileSystem, MockLogConfig } from '@gpg-bridge/shared/test';
 
 describe('AgentProxy', () => {
@@ -134,20 +137,124 @@ describe('AgentProxy', () => {
             }
         });
 
-        it('should throw when socket file is missing', () => {
-            expect(() => {
-                new AgentProxy(
+        it('should wait for gpg-agent when socket file is missing', async () => {
+            const agentProxy = new AgentProxy(
+                {
+                    logCallback: mockLogConfig.logCallback,
+                    gpgAgentSocketPath: '/nonexistent/socket',
+                    statusBarCallback: undefined
+                },
+                {
+                    fileSystem: mockFileSystem,
+                    fileWatcher: mockFileSystem,
+                    socketFactory: mockSocketFactory
+                }
+            );
+
+            expect(agentProxy.isWaitingForAgent()).to.be.true;
+            expect(mockLogConfig.hasLog('GPG agent socket not found')).to.be.true;
+            try {
+                await agentProxy.connectAgent();
+                expect.fail('Should have thrown');
+            } catch (error: unknown) {
+                expect((error as Error).message).to.include('gpg-agent is not running');
+            }
+            expect(mockSocketFactory.getSockets()).to.have.length(0);
+        });
+
+        it('should connect to a Unix socket without sending a nonce', async () => {
+            const unixSocketPath = '/run/user/1000/gnupg/S.gpg-agent.extra';
+            mockFileSystem.setFile(unixSocketPath, Buffer.alloc(0));
+            const agentProxy = new AgentProxy(
+                {
+                    logCallback: mockLogConfig.logCallback,
+                    gpgAgentSocketPath: unixSocketPath,
+                    transport: 'unix'
+                },
+                {
+                    fileSystem: mockFileSystem,
+                    socketFactory: mockSocketFactory
+                }
+            );
+
+            const socketPromise = agentProxy.connectAgent();
+            await new Promise((resolve) => setTimeout(resolve, 10));
+
+            const socket = mockSocketFactory.getLastSocket();
+            expect(mockSocketFactory.lastConnectionOptions).to.deep.equal({ path: unixSocketPath });
+            expect(socket!.data).to.have.length(0);
+
+            socket!.simulateGreeting();
+
+            const result = await socketPromise;
+            expect(result.greeting).to.include('OK');
+        });
+
+        describe('socket redirection', () => {
+            const redirectedPath = '/home/me/.gnupg/S.gpg-agent.redirected';
+
+            beforeEach(() => {
+                process.env.GPG_BRIDGE_TEST_HOME = '/home/me';
+            });
+
+            afterEach(() => {
+                delete process.env.GPG_BRIDGE_TEST_HOME;
+            });
+
+            it('should follow a redirect with environment variables to the port and nonce', async () => {
+                const nonce = Buffer.alloc(16, 7);
+                mockFileSystem.setFile(socketPath, Buffer.from('%Assuan%\nsocket=${GPG_BRIDGE_TEST_HOME}/.gnupg/S.gpg-agent.redirected\n'));
+                mockFileSystem.setFile(redirectedPath, Buffer.concat([Buffer.from('27182\n'), nonce]));
+                const agentProxy = new AgentProxy(
+                    {
+                        logCallback: mockLogConfig.logCallback,
+                        gpgAgentSocketPath: socketPath
+                    },
+                    {
+                        fileSystem: mockFileSystem,
+                        socketFactory: mockSocketFactory
+                    }
+                );
+
+                const connectPromise = agentProxy.connectAgent();
+                await new Promise((resolve) => setTimeout(resolve, 10));
+
+                const socket = mockSocketFactory.getLastSocket()!;
+                expect(mockSocketFactory.lastConnectionOptions).to.deep.equal({ host: 'localhost', port: 27182 });
+                expect(socket.data[0]).to.deep.equal(nonce);
+                expect(mockFileSystem.callLog.filter((call) => call.method === 'readFileSync').map((call) => call.args[0]))
+                    .to.include.members([socketPath, redirectedPath]);
+
+                socket.simulateGreeting();
+                expect((await connectPromise).greeting).to.include('OK');
+            });
+
+            it('should follow a redirect to a Unix socket', async () => {
+                const unixSocketPath = '/run/user/1000/gnupg/S.gpg-agent.extra';
+                mockFileSystem.setFile(unixSocketPath, Buffer.from('%Assuan%\nsocket=${GPG_BRIDGE_TEST_HOME}/.gnupg/S.gpg-agent.redirected\n'));
+                mockFileSystem.setFile(redirectedPath, Buffer.alloc(0));
+                const agentProxy = new AgentProxy(
                     {
                         logCallback: mockLogConfig.logCallback,
-                        gpgAgentSocketPath: '/nonexistent/socket',
-                        statusBarCallback: undefined
+                        gpgAgentSocketPath: unixSocketPath,
+                        transport: 'unix'
                     },
                     {
                         fileSystem: mockFileSystem,
                         socketFactory: mockSocketFactory
                     }
                 );
-            }).to.throw('GPG agent socket not found');
+
+                const connectPromise = agentProxy.connectAgent();
+                await new Promise((resolve) => setTimeout(resolve, 10));
+
+                const socket = mockSocketFactory.getLastSocket()!;
+                expect(mockSocketFactory.lastConnectionOptions).to.deep.equal({ path: redirectedPath });
+                expect(socket.data).to.have.length(0);
+
+                socket.simulateGreeting();
+                expect((await connectPromise).greeting).to.include('OK');
+            });
         });
     });
 
@@ -413,6 +520,32 @@ describe('AgentProxy', () => {
             expect(cmdResult.response).to.include('ERR');
         });
 
+        it('should log decoded gpg-error for ERR response', async () => {
+            const agentProxy = new AgentProxy(
+                {
+                    logCallback: mockLogConfig.logCallback,
+                    gpgAgentSocketPath: socketPath
+                },
+                {
+                    fileSystem: mockFileSystem,
+                    socketFactory: mockSocketFactory
+                }
+            );
+
+            const connectPromise = agentProxy.connectAgent();
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            const socket = mockSocketFactory.getLastSocket();
+            socket!.simulateGreeting();
+            const { sessionId } = await connectPromise;
+
+            const commandPromise = agentProxy.sendCommands(sessionId, 'PKSIGN\n');
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            socket!.emit('data', Buffer.from('ERR 67108881 No secret key <GPG Agent>\n'));
+            await commandPromise;
+
+            expect(mockLogConfig.hasLog(/No secret key \(gpg-agent\) \[GPG_ERR_NO_SECKEY\]/)).to.be.true;
+        });
+
         it('should detect INQUIRE response', async () => {
             const agentProxy = new AgentProxy(
                 {
@@ -892,6 +1025,114 @@ describe('AgentProxy', () => {
                 expect(agentProxy.getSessionCount()).to.equal(0);
             }
         });
+
+        describe('configured timeouts', () => {
+            const connectWithTimeouts = async (config: Partial<AgentProxyConfig>) => {
+                const agentProxy = new AgentProxy(
+                    {
+                        logCallback: mockLogConfig.logCallback,
+                        gpgAgentSocketPath: socketPath,
+                        ...config
+                    },
+                    {
+                        fileSystem: mockFileSystem,
+                        socketFactory: mockSocketFactory
+                    }
+                );
+                const connectPromise = agentProxy.connectAgent();
+                await new Promise((resolve) => setTimeout(resolve, 10));
+                const socket = mockSocketFactory.getLastSocket()!;
+                socket.simulateGreeting();
+                const { sessionId } = await connectPromise;
+                return { agentProxy, socket, sessionId };
+            };
+
+            it('should use the configured greeting timeout', async () => {
+                const agentProxy = new AgentProxy(
+                    {
+                        logCallback: mockLogConfig.logCallback,
+                        gpgAgentSocketPath: socketPath,
+                        greetingTimeoutMs: 50
+                    },
+                    {
+                        fileSystem: mockFileSystem,
+                        socketFactory: mockSocketFactory
+                    }
+                );
+
+                const start = Date.now();
+                try {
+                    await agentProxy.connectAgent();
+                    expect.fail('Should have timed out waiting for greeting');
+                } catch (error: unknown) {
+                    expect((error as Error).message).to.match(/Greeting timeout after 50ms/);
+                }
+                expect(Date.now() - start).to.be.lessThan(1000);
+            });
+
+            it('should not time out command responses by default', async () => {
+                const { agentProxy, socket, sessionId } = await connectWithTimeouts({});
+
+                const commandPromise = agentProxy.sendCommands(sessionId, 'PKSIGN\n');
+                await new Promise((resolve) => setTimeout(resolve, 100));
+                socket.emit('data', Buffer.from('D sig\nOK\n'));
+
+                expect((await commandPromise).response).to.equal('D sig\nOK\n');
+            });
+
+            it('should fail a command when gpg-agent is silent past the idle timeout', async () => {
+                const { agentProxy, sessionId } = await connectWithTimeouts({ commandIdleTimeoutMs: 50 });
+
+                try {
+                    await agentProxy.sendCommands(sessionId, 'PKSIGN\n');
+                    expect.fail('Should have timed out');
+                } catch (error: unknown) {
+                    expect((error as Error).message).to.match(/Command idle timeout after 50ms/);
+                }
+                await new Promise((resolve) => setTimeout(resolve, 10));
+                expect(agentProxy.getSessionCount()).to.equal(0);
+            });
+
+            it('should restart the idle timeout on partial output', async () => {
+                const { agentProxy, socket, sessionId } = await connectWithTimeouts({ commandIdleTimeoutMs: 80 });
+
+                const commandPromise = agentProxy.sendCommands(sessionId, 'GENKEY\n');
+                for (let i = 0; i < 3; i++) {
+                    await new Promise((resolve) => setTimeout(resolve, 50));
+                    socket.emit('data', Buffer.from('S PROGRESS primegen X 0 0\n'));
+                }
+                socket.emit('data', Buffer.from('OK\n'));
+
+                expect((await commandPromise).response).to.match(/OK\n$/);
+            });
+
+            it('should suspend the idle timeout while pinentry is open', async () => {
+                const { agentProxy, socket, sessionId } = await connectWithTimeouts({ commandIdleTimeoutMs: 50 });
+
+                const signPromise = agentProxy.sendCommands(sessionId, 'PKSIGN\n');
+                await new Promise((resolve) => setTimeout(resolve, 10));
+                socket.emit('data', Buffer.from('INQUIRE PINENTRY_LAUNCHED 1234 qt 1.2.1\n'));
+                await signPromise;
+
+                // User takes longer than the idle timeout to enter the passphrase
+                const endPromise = agentProxy.sendCommands(sessionId, 'END\n');
+                await new Promise((resolve) => setTimeout(resolve, 150));
+                socket.emit('data', Buffer.from('D sig\nOK\n'));
+
+                expect((await endPromise).response).to.equal('D sig\nOK\n');
+                expect(mockLogConfig.hasLog('Pinentry active, command idle timeout suspended')).to.be.true;
+            });
+
+            it('should close sessions that exceed the maximum lifetime', async () => {
+                const { agentProxy } = await connectWithTimeouts({ maxSessionLifetimeMs: 50 });
+                expect(agentProxy.getSessionCount()).to.equal(1);
+
+                await new Promise((resolve) => setTimeout(resolve, 100));
+
+                expect(agentProxy.getSessionCount()).to.equal(0);
+                expect(mockLogConfig.hasLog('Session lifetime exceeded after 50ms')).to.be.true;
+            });
+        });
     });
 
     describe('nonce authentication', () => {
@@ -1192,7 +1433,8 @@ describe('AgentProxy', () => {
                 {
                     logCallback: mockLogConfig.logCallback,
                     gpgAgentSocketPath: socketPath,
-                    statusBarCallback: undefined
+                    statusBarCallback: undefined,
+                    resumeIdleSessions: false   // Otherwise the closed idle session is resumed
                 },
                 {
                     fileSystem: mockFileSystem,
@@ -2456,4 +2698,859 @@ describe('AgentProxy', () => {
         });
     });
 
+    describe('Command Policy', () => {
+        const connectWithPolicy = async (config: Partial<AgentProxyConfig>) => {
+            const agentProxy = new AgentProxy(
+                {
+                    logCallback: mockLogConfig.logCallback,
+                    gpgAgentSocketPath: socketPath,
+                    ...config
+                },
+                {
+                    fileSystem: mockFileSystem,
+                    socketFactory: mockSocketFactory
+                }
+            );
+            const connectPromise = agentProxy.connectAgent();
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            const socket = mockSocketFactory.getLastSocket()!;
+            socket.simulateGreeting();
+            const { sessionId } = await connectPromise;
+            return { agentProxy, socket, sessionId };
+        };
+
+        it('should answer denied commands without writing to gpg-agent', async () => {
+            const { agentProxy, socket, sessionId } = await connectWithPolicy({ commandPolicy: DEFAULT_COMMAND_POLICY });
+            const writesBefore = socket.data.length;
+
+            const result = await agentProxy.sendCommands(sessionId, 'PRESET_PASSPHRASE ABCDEF -1 736563726574\n');
+
+            expect(result.response).to.equal(POLICY_DENIED_RESPONSE);
+            expect(socket.data.length).to.equal(writesBefore);
+            expect(mockLogConfig.hasLog('736563726574')).to.be.false;
+        });
+
+        it('should keep the session READY after a denied command', async () => {
+            const { agentProxy, socket, sessionId } = await connectWithPolicy({ commandPolicy: DEFAULT_COMMAND_POLICY });
+
+            await agentProxy.sendCommands(sessionId, 'DELETE_KEY ABCDEF\n');
+
+            const commandPromise = agentProxy.sendCommands(sessionId, 'GETINFO version\n');
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            socket.emit('data', Buffer.from('D 2.4.8\nOK\n'));
+
+            const result = await commandPromise;
+            expect(result.response).to.equal('D 2.4.8\nOK\n');
+        });
+
+        it('should deny a block if any command in it is denied', async () => {
+            const { agentProxy, socket, sessionId } = await connectWithPolicy({ commandPolicy: DEFAULT_COMMAND_POLICY });
+            const writesBefore = socket.data.length;
+
+            const result = await agentProxy.sendCommands(sessionId, 'NOP\nEXPORT_KEY ABCDEF\n');
+
+            expect(result.response).to.equal(POLICY_DENIED_RESPONSE);
+            expect(socket.data.length).to.equal(writesBefore);
+        });
+
+        it('should forward INQUIRE D-blocks even when the default action is deny', async () => {
+            const { agentProxy, socket, sessionId } = await connectWithPolicy({
+                commandPolicy: { defaultAction: 'deny', rules: [] }
+            });
+
+            const commandPromise = agentProxy.sendCommands(sessionId, 'D 1234\nEND\n');
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            socket.emit('data', Buffer.from('OK\n'));
+
+            const result = await commandPromise;
+            expect(result.response).to.equal('OK\n');
+            expect(socket.data[socket.data.length - 1].toString('latin1')).to.equal('D 1234\nEND\n');
+        });
+
+        it('should deny confirm actions when the user rejects', async () => {
+            const { agentProxy, socket, sessionId } = await connectWithPolicy({
+                commandPolicy: { defaultAction: 'allow', rules: [{ command: 'PKDECRYPT', action: 'confirm' }] },
+                confirmCommandCallback: async () => false
+            });
+            const writesBefore = socket.data.length;
+
+            const result = await agentProxy.sendCommands(sessionId, 'PKDECRYPT\n');
+
+            expect(result.response).to.equal(POLICY_DENIED_RESPONSE);
+            expect(socket.data.length).to.equal(writesBefore);
+        });
+    });
+
+    describe('Response Size Limit', () => {
+        const connectWithLimit = async (maxResponseBytes: number) => {
+            const agentProxy = new AgentProxy(
+                {
+                    logCallback: mockLogConfig.logCallback,
+                    gpgAgentSocketPath: socketPath,
+                    maxResponseBytes
+                },
+                {
+                    fileSystem: mockFileSystem,
+                    socketFactory: mockSocketFactory
+                }
+            );
+            const connectPromise = agentProxy.connectAgent();
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            const socket = mockSocketFactory.getLastSocket()!;
+            socket.simulateGreeting();
+            const { sessionId } = await connectPromise;
+            return { agentProxy, socket, sessionId };
+        };
+
+        it('should accept a response split across chunks up to the limit', async () => {
+            const { agentProxy, socket, sessionId } = await connectWithLimit(32);
+
+            const commandPromise = agentProxy.sendCommands(sessionId, 'GETINFO version\n');
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            socket.emit('data', Buffer.from('D 2.4.8\n'));
+            socket.emit('data', Buffer.from('OK\n'));
+
+            expect(await commandPromise).to.deep.equal({ response: 'D 2.4.8\nOK\n' });
+            expect(agentProxy.getSessionCount()).to.equal(1);
+        });
+
+        it('should answer ERR and close the session when a response exceeds the limit', async () => {
+            const { agentProxy, socket, sessionId } = await connectWithLimit(32);
+
+            const commandPromise = agentProxy.sendCommands(sessionId, 'EXPORT_KEY 0123456789ABCDEF0123456789ABCDEF01234567\n');
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            socket.emit('data', Buffer.from('D 0123456789ABCDEF'));
+            socket.emit('data', Buffer.from('0123456789ABCDEF'));
+
+            expect(await commandPromise).to.deep.equal({ response: 'ERR 67109137 Too much data for IPC layer <GPG Agent>\n', sessionClosed: true });
+            expect(agentProxy.getSessionCount()).to.equal(0);
+            expect(mockLogConfig.getLogs().some((line) => line.includes(sessionId) && line.includes('Agent response exceeds 32 bytes'))).to.be.true;
+        });
+    });
+
+    describe('Response Streaming', () => {
+        const connect = async () => {
+            const agentProxy = new AgentProxy(
+                {
+                    logCallback: mockLogConfig.logCallback,
+                    gpgAgentSocketPath: socketPath
+                },
+                {
+                    fileSystem: mockFileSystem,
+                    socketFactory: mockSocketFactory
+                }
+            );
+            const connectPromise = agentProxy.connectAgent();
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            const socket = mockSocketFactory.getLastSocket()!;
+            socket.simulateGreeting();
+            const { sessionId } = await connectPromise;
+            return { agentProxy, socket, sessionId };
+        };
+
+        it('should pass complete lines on as they arrive and resolve with the rest', async () => {
+            const { agentProxy, socket, sessionId } = await connect();
+            const streamed: string[] = [];
+
+            const commandPromise = agentProxy.sendCommands(sessionId, 'GENKEY\n', (lines) => streamed.push(lines));
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            socket.emit('data', Buffer.from('S PROGRESS primegen X 1 0\nS PROG'));
+            expect(streamed).to.deep.equal(['S PROGRESS primegen X 1 0\n']);
+
+            socket.emit('data', Buffer.from('RESS primegen X 2 0\n'));
+            expect(streamed).to.deep.equal(['S PROGRESS primegen X 1 0\n', 'S PROGRESS primegen X 2 0\n']);
+
+            socket.emit('data', Buffer.from('D (10:public-key)\nOK\n'));
+            expect((await commandPromise).response).to.equal('D (10:public-key)\nOK\n');
+            expect(streamed).to.have.length(2);
+        });
+
+        it('should stream lines before an INQUIRE and keep the INQUIRE in the response', async () => {
+            const { agentProxy, socket, sessionId } = await connect();
+            const streamed: string[] = [];
+
+            const commandPromise = agentProxy.sendCommands(sessionId, 'PKDECRYPT\n', (lines) => streamed.push(lines));
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            socket.emit('data', Buffer.from('S INQUIRE_MAXLEN 4096\n'));
+            socket.emit('data', Buffer.from('INQUIRE CIPHERTEXT\n'));
+
+            expect((await commandPromise).response).to.equal('INQUIRE CIPHERTEXT\n');
+            expect(streamed).to.deep.equal(['S INQUIRE_MAXLEN 4096\n']);
+        });
+
+        it('should not stream without a receiver', async () => {
+            const { agentProxy, socket, sessionId } = await connect();
+
+            const commandPromise = agentProxy.sendCommands(sessionId, 'GENKEY\n');
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            socket.emit('data', Buffer.from('S PROGRESS primegen X 1 0\n'));
+            socket.emit('data', Buffer.from('OK\n'));
+
+            expect((await commandPromise).response).to.equal('S PROGRESS primegen X 1 0\nOK\n');
+        });
+    });
+
+    describe('Client Cancellation', () => {
+        const connect = async () => {
+            const pinentry: Array<[string, boolean]> = [];
+            const agentProxy = new AgentProxy(
+                {
+                    logCallback: mockLogConfig.logCallback,
+                    gpgAgentSocketPath: socketPath,
+                    pinentryCallback: (sessionId, open) => pinentry.push([sessionId, open])
+                },
+                {
+                    fileSystem: mockFileSystem,
+                    socketFactory: mockSocketFactory
+                }
+            );
+            const connectPromise = agentProxy.connectAgent();
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            const socket = mockSocketFactory.getLastSocket()!;
+            socket.simulateGreeting();
+            const { sessionId } = await connectPromise;
+            return { agentProxy, socket, sessionId, pinentry };
+        };
+
+        it('should answer a pending pinentry INQUIRE with CAN before BYE', async () => {
+            const { agentProxy, socket, sessionId, pinentry } = await connect();
+
+            const signPromise = agentProxy.sendCommands(sessionId, 'PKSIGN\n');
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            socket.emit('data', Buffer.from('INQUIRE PINENTRY_LAUNCHED 1234 qt 1.2.1\n'));
+            await signPromise;
+            expect(pinentry).to.deep.equal([[sessionId, true]]);
+
+            // Client hung up while the user was looking at pinentry
+            const disconnectPromise = agentProxy.disconnectAgent(sessionId, 'client disconnected during PKSIGN');
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            expect(socket.data[socket.data.length - 1].toString()).to.equal('CAN\n');
+            socket.emit('data', Buffer.from('ERR 83886179 Operation cancelled <Pinentry>\n'));
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            expect(socket.data[socket.data.length - 1].toString()).to.equal('BYE\n');
+            socket.emit('data', Buffer.from('OK closing connection\n'));
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            socket.simulateClose(false);
+            await disconnectPromise;
+
+            expect(pinentry).to.deep.equal([[sessionId, true], [sessionId, false]]);
+            expect(agentProxy.getSessionCount()).to.equal(0);
+            expect(mockLogConfig.getLogs().some((line) => line.includes(`[${sessionId}] Cancelling PKSIGN at INQUIRE PINENTRY_LAUNCHED with CAN: client disconnected during PKSIGN`))).to.be.true;
+        });
+
+        it('should close the connection to cancel a command waiting on pinentry', async () => {
+            const { agentProxy, socket, sessionId, pinentry } = await connect();
+
+            const signPromise = agentProxy.sendCommands(sessionId, 'PKSIGN\n');
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            socket.emit('data', Buffer.from('INQUIRE PINENTRY_LAUNCHED 1234 qt 1.2.1\n'));
+            await signPromise;
+
+            // The client acknowledged the INQUIRE; gpg-agent now waits for the passphrase
+            const endPromise = agentProxy.sendCommands(sessionId, 'END\n');
+            const endResult = endPromise.then(() => 'resolved', (error: Error) => error.message);
+            await new Promise((resolve) => setTimeout(resolve, 10));
+
+            await agentProxy.disconnectAgent(sessionId, 'client disconnected during PKSIGN');
+
+            expect(await endResult).to.not.equal('resolved');
+            expect(socket.destroyed).to.be.true;
+            expect(socket.data.map((chunk) => chunk.toString())).to.not.include('BYE\n');
+            expect(pinentry).to.deep.equal([[sessionId, true], [sessionId, false]]);
+            expect(agentProxy.getSessionCount()).to.equal(0);
+            expect(mockLogConfig.getLogs().some((line) => line.includes(`[${sessionId}] Cancelling PKSIGN in flight with pinentry open by closing the connection: client disconnected during PKSIGN`))).to.be.true;
+            expect(mockLogConfig.getLogs().some((line) => line.includes(sessionId) && line.includes('forcing cleanup'))).to.be.false;
+        });
+
+        it('should disconnect normally when no operation is running', async () => {
+            const { agentProxy, socket, sessionId, pinentry } = await connect();
+
+            const disconnectPromise = agentProxy.disconnectAgent(sessionId, 'client disconnected');
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            expect(socket.data[socket.data.length - 1].toString()).to.equal('BYE\n');
+            socket.emit('data', Buffer.from('OK closing connection\n'));
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            socket.simulateClose(false);
+            await disconnectPromise;
+
+            expect(pinentry).to.deep.equal([]);
+            expect(mockLogConfig.getLogs().some((line) => line.includes(sessionId) && line.includes('Cancelling'))).to.be.false;
+        });
+    });
+
+    describe('Write Backpressure', () => {
+        it('should wait for drain before treating a large D-block as sent', async () => {
+            const agentProxy = new AgentProxy(
+                {
+                    logCallback: mockLogConfig.logCallback,
+                    gpgAgentSocketPath: socketPath
+                },
+                {
+                    fileSystem: mockFileSystem,
+                    socketFactory: mockSocketFactory
+                }
+            );
+            const connectPromise = agentProxy.connectAgent();
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            const socket = mockSocketFactory.getLastSocket()!;
+            socket.simulateGreeting();
+            const { sessionId } = await connectPromise;
+            const writeCompleted = () => mockLogConfig.getLogs().filter((line) => line.includes(sessionId) && line.includes('Write completed')).length;
+            const baseline = writeCompleted();
+
+            socket.backpressure = true;
+            const dBlock = encodeInquireData('\xAB'.repeat(256 * 1024));
+            const commandPromise = agentProxy.sendCommands(sessionId, dBlock);
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            expect(socket.getHeldWriteCount()).to.equal(1);
+            expect(writeCompleted()).to.equal(baseline);
+
+            socket.drain();
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            expect(writeCompleted()).to.equal(baseline + 1);
+
+            socket.emit('data', Buffer.from('D decrypted\nOK\n'));
+            expect((await commandPromise).response).to.equal('D decrypted\nOK\n');
+        });
+    });
+
+    describe('OPTION Rewrite', () => {
+        const connectWithRules = async () => {
+            const agentProxy = new AgentProxy(
+                {
+                    logCallback: mockLogConfig.logCallback,
+                    gpgAgentSocketPath: socketPath,
+                    optionRewriteRules: [
+                        { option: 'lc-messages', action: 'replace', value: 'en_US.UTF-8' },
+                        ...DEFAULT_OPTION_REWRITE_RULES
+                    ]
+                },
+                {
+                    fileSystem: mockFileSystem,
+                    socketFactory: mockSocketFactory
+                }
+            );
+            const connectPromise = agentProxy.connectAgent();
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            const socket = mockSocketFactory.getLastSocket()!;
+            socket.simulateGreeting();
+            const { sessionId } = await connectPromise;
+            return { agentProxy, socket, sessionId };
+        };
+
+        it('should answer dropped options with OK without writing to gpg-agent', async () => {
+            const { agentProxy, socket, sessionId } = await connectWithRules();
+            const writesBefore = socket.data.length;
+
+            const result = await agentProxy.sendCommands(sessionId, 'OPTION putenv=DBUS_SESSION_BUS_ADDRESS=unix:path=/run/user/1000/bus\n');
+
+            expect(result.response).to.equal(OPTION_DROPPED_RESPONSE);
+            expect(socket.data.length).to.equal(writesBefore);
+            expect(mockLogConfig.hasLog('DBUS_SESSION_BUS_ADDRESS')).to.be.false;
+        });
+
+        it('should send replaced options with the configured value', async () => {
+            const { agentProxy, socket, sessionId } = await connectWithRules();
+
+            const commandPromise = agentProxy.sendCommands(sessionId, 'OPTION lc-messages=C\n');
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            socket.emit('data', Buffer.from('OK\n'));
+
+            await commandPromise;
+            expect(socket.data[socket.data.length - 1].toString('latin1')).to.equal('OPTION lc-messages=en_US.UTF-8\n');
+        });
+
+        it('should forward options without a rule unchanged', async () => {
+            const { agentProxy, socket, sessionId } = await connectWithRules();
+
+            const commandPromise = agentProxy.sendCommands(sessionId, 'OPTION pinentry-mode=loopback\n');
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            socket.emit('data', Buffer.from('OK\n'));
+
+            await commandPromise;
+            expect(socket.data[socket.data.length - 1].toString('latin1')).to.equal('OPTION pinentry-mode=loopback\n');
+        });
+    });
+
+    describe('Operation Consent', () => {
+        const KEYGRIP_A = 'D27BB288411333745EE1B194FBC6162A92775BA4';
+        const KEYGRIP_B = '0123456789ABCDEF0123456789ABCDEF01234567';
+
+        const connectWithConsent = async (decisions: ConsentDecision[]) => {
+            const requests: ConsentRequest[] = [];
+            const agentProxy = new AgentProxy(
+                {
+                    logCallback: mockLogConfig.logCallback,
+                    gpgAgentSocketPath: socketPath,
+                    consentCallback: async (request) => {
+                        requests.push(request);
+                        return decisions.shift() ?? 'deny';
+                    }
+                },
+                {
+                    fileSystem: mockFileSystem,
+                    socketFactory: mockSocketFactory
+                }
+            );
+            const connectPromise = agentProxy.connectAgent();
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            const socket = mockSocketFactory.getLastSocket()!;
+            socket.simulateGreeting();
+            const { sessionId } = await connectPromise;
+
+            // Send a command and answer it from gpg-agent with the given response
+            const send = async (commandBlock: string, agentResponse = 'OK\n') => {
+                const writesBefore = socket.data.length;
+                const commandPromise = agentProxy.sendCommands(sessionId, commandBlock);
+                await new Promise((resolve) => setTimeout(resolve, 10));
+                if (socket.data.length > writesBefore) {
+                    socket.emit('data', Buffer.from(agentResponse));
+                }
+                return commandPromise;
+            };
+            return { agentProxy, socket, sessionId, requests, send };
+        };
+
+        it('should ask with the operation and keygrip from SIGKEY', async () => {
+            const { sessionId, requests, send } = await connectWithConsent(['allow-once']);
+
+            await send(`SIGKEY ${KEYGRIP_A}\n`);
+            const result = await send('PKSIGN\n', 'D sig\nOK\n');
+
+            expect(result.response).to.equal('D sig\nOK\n');
+            expect(requests).to.deep.equal([{ sessionId, operation: 'PKSIGN', keygrip: KEYGRIP_A }]);
+        });
+
+        it('should use the keygrip from SETKEY for PKDECRYPT', async () => {
+            const { requests, send } = await connectWithConsent(['allow-once']);
+
+            await send(`SIGKEY ${KEYGRIP_A}\n`);
+            await send(`SETKEY ${KEYGRIP_B}\n`);
+            await send('PKDECRYPT\n', 'INQUIRE CIPHERTEXT\n');
+
+            expect(requests[0].operation).to.equal('PKDECRYPT');
+            expect(requests[0].keygrip).to.equal(KEYGRIP_B);
+        });
+
+        it('should answer denied operations with operation cancelled without writing to gpg-agent', async () => {
+            const { socket, send } = await connectWithConsent(['deny']);
+            await send(`SIGKEY ${KEYGRIP_A}\n`);
+            const writesBefore = socket.data.length;
+
+            const result = await send('PKSIGN\n');
+
+            expect(result.response).to.equal(CONSENT_DENIED_RESPONSE);
+            expect(socket.data.length).to.equal(writesBefore);
+        });
+
+        it('should ask for an operation that follows another command in the block', async () => {
+            const { socket, sessionId, requests, send } = await connectWithConsent(['deny']);
+            const writesBefore = socket.data.length;
+
+            const result = await send(`NOP\nSIGKEY ${KEYGRIP_A}\nPKSIGN\n`);
+
+            expect(requests).to.deep.equal([{ sessionId, operation: 'PKSIGN', keygrip: KEYGRIP_A }]);
+            expect(result.response).to.equal(CONSENT_DENIED_RESPONSE);
+            expect(socket.data.length).to.equal(writesBefore);
+        });
+
+        it('should ask with the key selected before each operation in the block', async () => {
+            const { sessionId, requests, send } = await connectWithConsent(['allow-once', 'allow-once']);
+
+            await send(`SIGKEY ${KEYGRIP_A}\nPKSIGN\nSIGKEY ${KEYGRIP_B}\nPKSIGN\n`, 'D sig\nOK\n');
+
+            expect(requests).to.deep.equal([
+                { sessionId, operation: 'PKSIGN', keygrip: KEYGRIP_A },
+                { sessionId, operation: 'PKSIGN', keygrip: KEYGRIP_B }
+            ]);
+        });
+
+        it('should keep the session READY after a denied operation', async () => {
+            const { send } = await connectWithConsent(['deny']);
+
+            await send('PKSIGN\n');
+            const result = await send('GETINFO version\n', 'D 2.4.8\nOK\n');
+
+            expect(result.response).to.equal('D 2.4.8\nOK\n');
+        });
+
+        it('should ask again after allow-once', async () => {
+            const { requests, send } = await connectWithConsent(['allow-once', 'deny']);
+            await send(`SIGKEY ${KEYGRIP_A}\n`);
+
+            await send('PKSIGN\n');
+            const result = await send('PKSIGN\n');
+
+            expect(requests).to.have.length(2);
+            expect(result.response).to.equal(CONSENT_DENIED_RESPONSE);
+        });
+
+        it('should not ask again for the same key after allow-session', async () => {
+            const { requests, send } = await connectWithConsent(['allow-session']);
+            await send(`SIGKEY ${KEYGRIP_A}\n`);
+
+            await send('PKSIGN\n');
+            const result = await send('PKSIGN\n', 'D sig\nOK\n');
+
+            expect(requests).to.have.length(1);
+            expect(result.response).to.equal('D sig\nOK\n');
+        });
+
+        it('should ask again for a different key after allow-session', async () => {
+            const { requests, send } = await connectWithConsent(['allow-session', 'deny']);
+
+            await send(`SIGKEY ${KEYGRIP_A}\n`);
+            await send('PKSIGN\n');
+            await send(`SIGKEY ${KEYGRIP_B}\n`);
+            const result = await send('PKSIGN\n');
+
+            expect(requests.map((request) => request.keygrip)).to.deep.equal([KEYGRIP_A, KEYGRIP_B]);
+            expect(result.response).to.equal(CONSENT_DENIED_RESPONSE);
+        });
+
+        it('should deny when the consent callback fails', async () => {
+            const agentProxy = new AgentProxy(
+                {
+                    logCallback: mockLogConfig.logCallback,
+                    gpgAgentSocketPath: socketPath,
+                    consentCallback: async () => { throw new Error('notification failed'); }
+                },
+                {
+                    fileSystem: mockFileSystem,
+                    socketFactory: mockSocketFactory
+                }
+            );
+            const connectPromise = agentProxy.connectAgent();
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            mockSocketFactory.getLastSocket()!.simulateGreeting();
+            const { sessionId } = await connectPromise;
+
+            const result = await agentProxy.sendCommands(sessionId, 'PKDECRYPT\n');
+
+            expect(result.response).to.equal(CONSENT_DENIED_RESPONSE);
+            expect(mockLogConfig.hasLog('notification failed')).to.be.true;
+        });
+
+        it('should not ask for other commands', async () => {
+            const { requests, send } = await connectWithConsent([]);
+
+            const result = await send('GETINFO version\n', 'D 2.4.8\nOK\n');
+
+            expect(result.response).to.equal('D 2.4.8\nOK\n');
+            expect(requests).to.have.length(0);
+        });
+    });
+
+    describe('Audit', () => {
+        const connectWithAudit = async () => {
+            const records: AuditRecord[] = [];
+            const agentProxy = new AgentProxy(
+                {
+                    logCallback: mockLogConfig.logCallback,
+                    gpgAgentSocketPath: socketPath,
+                    commandPolicy: DEFAULT_COMMAND_POLICY,
+                    auditCallback: (record) => records.push(record)
+                },
+                {
+                    fileSystem: mockFileSystem,
+                    socketFactory: mockSocketFactory
+                }
+            );
+            const connectPromise = agentProxy.connectAgent('audit-session');
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            const socket = mockSocketFactory.getLastSocket()!;
+            socket.simulateGreeting();
+            await connectPromise;
+            return { agentProxy, socket, records };
+        };
+
+        it('should record session start and end', async () => {
+            const { agentProxy, socket, records } = await connectWithAudit();
+
+            const disconnectPromise = agentProxy.disconnectAgent('audit-session');
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            socket.emit('data', Buffer.from('OK\n'));
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            socket.simulateClose(false);
+            await disconnectPromise;
+            await new Promise((resolve) => setTimeout(resolve, 10));
+
+            expect(records.map((record) => record.event)).to.deep.equal(['session-start', 'session-end']);
+            expect(records[0].sessionId).to.equal('audit-session');
+            expect(records[1]).to.have.property('durationMs').that.is.a('number');
+        });
+
+        it('should record verbs, keygrips, and result without D-block payloads', async () => {
+            const { agentProxy, socket, records } = await connectWithAudit();
+            const keygrip = 'D27BB288411333745EE1B194FBC6162A92775BA4';
+
+            const commandPromise = agentProxy.sendCommands('audit-session', `SIGKEY ${keygrip}\n`);
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            socket.emit('data', Buffer.from('OK\n'));
+            await commandPromise;
+
+            const inquirePromise = agentProxy.sendCommands('audit-session', 'D 736563726574\nEND\n');
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            socket.emit('data', Buffer.from('ERR 67108875 Bad passphrase <GPG Agent>\n'));
+            await inquirePromise;
+
+            const commands = records.filter((record) => record.event === 'command');
+            expect(commands[0]).to.include({ result: 'OK' });
+            expect(commands[0]).to.deep.include({ verbs: ['SIGKEY'], keygrips: [keygrip] });
+            expect(commands[1]).to.deep.include({ verbs: ['END'], keygrips: [], result: 'ERR 67108875' });
+            expect(JSON.stringify(records)).to.not.include('736563726574');
+        });
+
+        it('should record commands denied by policy', async () => {
+            const { agentProxy, records } = await connectWithAudit();
+
+            await agentProxy.sendCommands('audit-session', 'DELETE_KEY ABCDEF\n');
+
+            expect(records[records.length - 1]).to.deep.include({ event: 'command', verbs: ['DELETE_KEY'], result: 'ERR 67109115' });
+        });
+
+        it('should record failed commands', async () => {
+            const { agentProxy, records } = await connectWithAudit();
+
+            try {
+                await agentProxy.sendCommands('unknown-session', 'NOP\n');
+            } catch {
+                // Expected
+            }
+
+            expect(records[records.length - 1]).to.deep.include({ sessionId: 'unknown-session', result: 'FAILED' });
+        });
+    });
+    describe('Agent Restart', () => {
+        const restartedSocketFile = Buffer.concat([Buffer.from('27182\n', 'utf-8'), Buffer.alloc(16, 7)]);
+        const tick = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+        const connectWithWatcher = async (config: Partial<AgentProxyConfig> = {}) => {
+            let statusBarUpdates = 0;
+            const agentProxy = new AgentProxy(
+                {
+                    logCallback: mockLogConfig.logCallback,
+                    gpgAgentSocketPath: socketPath,
+                    statusBarCallback: () => statusBarUpdates++,
+                    ...config
+                },
+                {
+                    fileSystem: mockFileSystem,
+                    fileWatcher: mockFileSystem,
+                    socketFactory: mockSocketFactory
+                }
+            );
+            const connectPromise = agentProxy.connectAgent('restart-session');
+            await tick();
+            const socket = mockSocketFactory.getLastSocket()!;
+            socket.simulateGreeting();
+            await connectPromise;
+            return { agentProxy, socket, statusBarUpdates: () => statusBarUpdates };
+        };
+
+        const sendOk = async (agentProxy: AgentProxy, socket: ReturnType<MockSocketFactory['getLastSocket']>, commandBlock: string) => {
+            const commandPromise = agentProxy.sendCommands('restart-session', commandBlock);
+            await tick();
+            socket!.emit('data', Buffer.from('OK\n'));
+            return commandPromise;
+        };
+
+        it('should watch the socket file until stopped', async () => {
+            const { agentProxy } = await connectWithWatcher();
+            expect(mockFileSystem.getWatcherCount(socketPath)).to.equal(1);
+
+            await agentProxy.stop();
+
+            expect(mockFileSystem.getWatcherCount(socketPath)).to.equal(0);
+        });
+
+        it('should report reconnecting until the restarted agent answers', async () => {
+            const { agentProxy, statusBarUpdates } = await connectWithWatcher();
+            const updatesBefore = statusBarUpdates();
+
+            mockFileSystem.unlinkSync(socketPath);
+            mockFileSystem.triggerWatch(socketPath);
+            expect(agentProxy.isReconnecting()).to.be.true;
+            expect(statusBarUpdates()).to.be.greaterThan(updatesBefore);
+
+            mockFileSystem.setFile(socketPath, restartedSocketFile);
+            mockFileSystem.triggerWatch(socketPath);
+            await tick();
+            const probeSocket = mockSocketFactory.getLastSocket()!;
+            expect((mockSocketFactory.lastConnectionOptions as { port: number }).port).to.equal(27182);
+            probeSocket.simulateGreeting();
+            await tick();
+
+            expect(agentProxy.isReconnecting()).to.be.false;
+        });
+
+        it('should ignore watcher events that do not change port or nonce', async () => {
+            const { agentProxy } = await connectWithWatcher();
+            const socketCount = mockSocketFactory.getSockets().length;
+
+            mockFileSystem.triggerWatch(socketPath);
+            await tick();
+
+            expect(agentProxy.isReconnecting()).to.be.false;
+            expect(mockSocketFactory.getSockets()).to.have.length(socketCount);
+        });
+
+        it('should resume an idle session and replay OPTION commands', async () => {
+            const { agentProxy, socket } = await connectWithWatcher();
+            await sendOk(agentProxy, socket, 'OPTION ttyname=/dev/pts/1\n');
+            await sendOk(agentProxy, socket, 'GETINFO version\n');
+
+            // gpg-agent restarts while the session is idle
+            socket.simulateClose(false);
+            await tick();
+            expect(agentProxy.getSessionCount()).to.equal(0);
+            expect(agentProxy.isReconnecting()).to.be.true;
+            mockFileSystem.setFile(socketPath, restartedSocketFile);
+
+            const commandPromise = agentProxy.sendCommands('restart-session', 'HAVEKEY ABCDEF\n');
+            await tick();
+            const resumedSocket = mockSocketFactory.getLastSocket()!;
+            expect(resumedSocket).to.not.equal(socket);
+            resumedSocket.simulateGreeting();
+            await tick();
+            expect(resumedSocket.data[1].toString('latin1')).to.equal('OPTION ttyname=/dev/pts/1\n');
+            resumedSocket.emit('data', Buffer.from('OK\n'));
+            await tick();
+            expect(resumedSocket.data[2].toString('latin1')).to.equal('HAVEKEY ABCDEF\n');
+            resumedSocket.emit('data', Buffer.from('OK\n'));
+
+            expect((await commandPromise).response).to.equal('OK\n');
+            expect(agentProxy.isReconnecting()).to.be.false;
+            expect(mockLogConfig.hasLog(/Resuming session, replaying 1 setup command/)).to.be.true;
+        });
+
+        it('should not resume a session that said BYE', async () => {
+            const { agentProxy, socket } = await connectWithWatcher();
+            await sendOk(agentProxy, socket, 'BYE\n');
+            socket.simulateClose(false);
+            await tick();
+
+            try {
+                await agentProxy.sendCommands('restart-session', 'GETINFO version\n');
+                expect.fail('Should have thrown');
+            } catch (error) {
+                expect((error as Error).message).to.include('Invalid session');
+            }
+            expect(agentProxy.isReconnecting()).to.be.false;
+        });
+
+        it('should not resume a session dropped while an INQUIRE was pending', async () => {
+            const { agentProxy, socket } = await connectWithWatcher();
+            const commandPromise = agentProxy.sendCommands('restart-session', 'PKSIGN\n');
+            await tick();
+            socket!.emit('data', Buffer.from('INQUIRE PINENTRY_LAUNCHED 1234 curses 1.2.1 /dev/pts/1 xterm-256color :0\n'));
+            expect((await commandPromise).response).to.match(/^INQUIRE PINENTRY_LAUNCHED/);
+
+            // gpg-agent goes away while the session is READY for the INQUIRE answer
+            socket!.simulateClose(false);
+            await tick();
+            const socketCount = mockSocketFactory.getSockets().length;
+
+            try {
+                await agentProxy.sendCommands('restart-session', 'END\n');
+                expect.fail('Should have thrown');
+            } catch (error) {
+                expect((error as Error).message).to.include('Invalid session');
+            }
+            expect(mockSocketFactory.getSockets()).to.have.length(socketCount);
+            expect(agentProxy.isReconnecting()).to.be.false;
+        });
+
+        it('should not resume sessions when resumeIdleSessions is false', async () => {
+            const { agentProxy, socket } = await connectWithWatcher({ resumeIdleSessions: false });
+            socket.simulateClose(false);
+            await tick();
+
+            try {
+                await agentProxy.sendCommands('restart-session', 'GETINFO version\n');
+                expect.fail('Should have thrown');
+            } catch (error) {
+                expect((error as Error).message).to.include('Invalid session');
+            }
+        });
+
+        it('should disconnect a session waiting to resume without reconnecting', async () => {
+            const { agentProxy, socket } = await connectWithWatcher();
+            socket.simulateClose(false);
+            await tick();
+            const socketCount = mockSocketFactory.getSockets().length;
+
+            await agentProxy.disconnectAgent('restart-session');
+
+            expect(mockSocketFactory.getSockets()).to.have.length(socketCount);
+            try {
+                await agentProxy.disconnectAgent('restart-session');
+                expect.fail('Should have thrown');
+            } catch (error) {
+                expect((error as Error).message).to.include('Invalid session');
+            }
+        });
+    });
+    describe('Waiting for gpg-agent', () => {
+        const createWaitingProxy = () => {
+            mockFileSystem.unlinkSync(socketPath);
+            const events: string[] = [];
+            const agentProxy = new AgentProxy(
+                {
+                    logCallback: mockLogConfig.logCallback,
+                    gpgAgentSocketPath: socketPath,
+                    statusBarCallback: () => events.push('status'),
+                    agentAvailableCallback: () => events.push('available')
+                },
+                {
+                    fileSystem: mockFileSystem,
+                    fileWatcher: mockFileSystem,
+                    socketFactory: mockSocketFactory
+                }
+            );
+            return { agentProxy, events };
+        };
+
+        it('should stay waiting while the socket file is missing or incomplete', () => {
+            const { agentProxy, events } = createWaitingProxy();
+
+            mockFileSystem.triggerWatch(socketPath);
+            mockFileSystem.setFile(socketPath, Buffer.from('31415\n'));
+            mockFileSystem.triggerWatch(socketPath);
+
+            expect(agentProxy.isWaitingForAgent()).to.be.true;
+            expect(agentProxy.isReconnecting()).to.be.false;
+            expect(events).to.deep.equal([]);
+        });
+
+        it('should report the agent available once the socket file appears', async () => {
+            const { agentProxy, events } = createWaitingProxy();
+
+            mockFileSystem.setFile(socketPath, Buffer.concat([Buffer.from('31415\n'), Buffer.alloc(16, 1)]));
+            mockFileSystem.triggerWatch(socketPath);
+
+            expect(agentProxy.isWaitingForAgent()).to.be.false;
+            expect(events).to.deep.equal(['status', 'available']);
+            expect(mockLogConfig.hasLog('gpg-agent socket file appeared')).to.be.true;
+
+            const connectPromise = agentProxy.connectAgent();
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            mockSocketFactory.getLastSocket()!.simulateGreeting();
+            expect((await connectPromise).greeting).to.include('OK');
+        });
+
+        it('should connect when the socket file appeared before the watcher noticed', async () => {
+            const { agentProxy, events } = createWaitingProxy();
+            mockFileSystem.setFile(socketPath, Buffer.concat([Buffer.from('31415\n'), Buffer.alloc(16, 1)]));
+
+            const connectPromise = agentProxy.connectAgent();
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            mockSocketFactory.getLastSocket()!.simulateGreeting();
+
+            expect((await connectPromise).greeting).to.include('OK');
+            expect(agentProxy.isWaitingForAgent()).to.be.false;
+            expect(events).to.deep.equal(['status', 'available', 'status']);
+        });
+    });
+
 });
@@ -0,0 +1,114 @@
+/**
+ * Unit Tests: Audit Log Service
+ *
+ * Tests record summarization and JSON Lines writing with size-based rotation
+ * against a mocked file system.
+ */
+
+import { expect } from 'chai';
+import { AuditLog, summarizeCommandBlock, summarizeResponse } from '../services/auditLog';
+import type { AuditLogConfig, AuditRecord } from '../services/auditLog';
+import { MockFileSystem, MockLogConfig } from '@gpg-bridge/shared/test';
+
+const KEYGRIP_A = 'D27BB288411333745EE1B194FBC6162A92775BA4';
+const KEYGRIP_B = '0123456789ABCDEF0123456789ABCDEF01234567';
+
+describe('AuditLog', () => {
+    describe('summarizeCommandBlock', () => {
+        it('extracts verbs and keygrips', () => {
+            const summary = summarizeCommandBlock(`SIGKEY ${KEYGRIP_A}\nSETHASH 8 ${'AB'.repeat(32)}\nPKSIGN\n`);
+            expect(summary.verbs).to.deep.equal(['SIGKEY', 'SETHASH', 'PKSIGN']);
+            expect(summary.keygrips).to.deep.equal([KEYGRIP_A]);
+        });
+
+        it('accepts keygrips prefixed with & and de-duplicates them', () => {
+            const summary = summarizeCommandBlock(`HAVEKEY ${KEYGRIP_A} ${KEYGRIP_B.toLowerCase()}\nSIGKEY &${KEYGRIP_A}\n`);
+            expect(summary.keygrips).to.deep.equal([KEYGRIP_A, KEYGRIP_B]);
+        });
+
+        it('never includes D-block payloads', () => {
+            const summary = summarizeCommandBlock(`D ${KEYGRIP_A} secret\nEND\n`);
+            expect(summary.verbs).to.deep.equal(['END']);
+            expect(summary.keygrips).to.deep.equal([]);
+        });
+    });
+
+    describe('summarizeResponse', () => {
+        it('reduces responses to their final status', () => {
+            expect(summarizeResponse('D sig\nOK\n')).to.equal('OK');
+            expect(summarizeResponse('OK Pleased to meet you\n')).to.equal('OK');
+            expect(summarizeResponse('ERR 67108963 Operation cancelled <GPG Agent>\n')).to.equal('ERR 67108963');
+            expect(summarizeResponse('S PROGRESS x\nINQUIRE PINENTRY_LAUNCHED 1234 curses\n')).to.equal('INQUIRE PINENTRY_LAUNCHED');
+        });
+    });
+
+    describe('write', () => {
+        const filePath = '/storage/audit.jsonl';
+        const record: AuditRecord = { event: 'session-start', time: '2026-01-01T00:00:00.000Z', sessionId: 'session-1' };
+        let mockFileSystem: MockFileSystem;
+        let mockLogConfig: MockLogConfig;
+
+        const createAuditLog = (config: Partial<AuditLogConfig> = {}) => new AuditLog(
+            {
+                filePath,
+                remoteName: 'wsl Ubuntu',
+                maxFileBytes: 1024,
+                maxFiles: 2,
+                logCallback: mockLogConfig.logCallback,
+                ...config
+            },
+            { fileSystem: mockFileSystem }
+        );
+
+        const readLines = (path: string) => mockFileSystem.getFile(path)?.toString('utf-8').split('\n').filter((line) => line) ?? [];
+
+        beforeEach(() => {
+            mockFileSystem = new MockFileSystem();
+            mockLogConfig = new MockLogConfig();
+        });
+
+        it('appends one JSON line per record with the remote name', () => {
+            const auditLog = createAuditLog();
+            auditLog.write(record);
+            auditLog.write({ ...record, sessionId: 'session-2' });
+
+            const lines = readLines(filePath).map((line) => JSON.parse(line));
+            expect(lines).to.deep.equal([
+                { ...record, remote: 'wsl Ubuntu' },
+                { ...record, sessionId: 'session-2', remote: 'wsl Ubuntu' }
+            ]);
+            expect(mockFileSystem.getCallCount('mkdirSync')).to.equal(2);
+        });
+
+        it('rotates when the next write would exceed the size limit', () => {
+            const auditLog = createAuditLog({ maxFileBytes: 200 });
+            for (let index = 0; index < 4; index++) {
+                auditLog.write({ ...record, sessionId: `session-${index}` });
+            }
+
+            expect(readLines(filePath)).to.have.length(1);
+            expect(readLines(`${filePath}.1`)).to.have.length(1);
+            expect(readLines(`${filePath}.2`)).to.have.length(1);
+            expect(JSON.parse(readLines(filePath)[0]).sessionId).to.equal('session-3');
+            expect(JSON.parse(readLines(`${filePath}.2`)[0]).sessionId).to.equal('session-1');
+            expect(mockLogConfig.hasLog('Audit log rotated')).to.be.true;
+        });
+
+        it('keeps no rotated files when maxFiles is 0', () => {
+            const auditLog = createAuditLog({ maxFileBytes: 100, maxFiles: 0 });
+            auditLog.write(record);
+            auditLog.write({ ...record, sessionId: 'session-2' });
+
+            expect(readLines(filePath)).to.have.length(1);
+            expect(mockFileSystem.getFile(`${filePath}.1`)).to.be.undefined;
+        });
+
+        it('logs and swallows write failures', () => {
+            mockFileSystem.appendFileSync = () => { throw new Error('disk full'); };
+            const auditLog = createAuditLog();
+
+            expect(() => auditLog.write(record)).to.not.throw();
+            expect(mockLogConfig.hasLog('disk full')).to.be.true;
+        });
+    });
+});
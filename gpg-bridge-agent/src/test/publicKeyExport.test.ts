@@ -0,0 +1,134 @@
+/**
+ * Unit Tests: Public Key Export Service
+ *
+ * Tests keygrip and fingerprint parsing and PublicKeyExporter with mocked gpg-agent and gpg.
+ */
+
+import { expect } from 'chai';
+import { PublicKeyExporter, parseKeyinfoKeygrips, findFingerprintsForKeygrips } from '../services/publicKeyExport';
+import type { IKeyinfoSource, GpgResult } from '../services/publicKeyExport';
+import { MockLogConfig } from '@gpg-bridge/shared/test';
+
+describe('PublicKeyExport', () => {
+    const signingGrip = 'D27BB288411333745EE1B194FBC6162A92775BA4';
+    const encryptionGrip = '0123456789ABCDEF0123456789ABCDEF01234567';
+    const keyFpr = 'AAAABBBBCCCCDDDDEEEEFFFF0000111122223333';
+    const otherFpr = '9999888877776666555544443333222211110000';
+    const colons = [
+        'tru::1:1700000000:0:3:1:5',
+        'pub:u:255:22:CCCCDDDDEEEEFFFF:1700000000:::u:::scESC:::::ed25519:::0:',
+        `fpr:::::::::${keyFpr}:`,
+        `grp:::::::::${signingGrip.toLowerCase()}:`,
+        'uid:u::::1700000000::HASH::Test User <test@example.com>::::::::::0:',
+        'sub:u:255:18:1111222233334444:1700000000::::::e:::::cv25519::',
+        'fpr:::::::::5555666677778888999900001111222233334444:',
+        `grp:::::::::${encryptionGrip}:`,
+        'pub:-:255:22:2222111100009999:1600000000:::-:::scESC:::::ed25519:::0:',
+        `fpr:::::::::${otherFpr}:`,
+        'grp:::::::::FEDCBA9876543210FEDCBA9876543210FEDCBA98:',
+        ''
+    ].join('\r\n');
+
+    describe('parseKeyinfoKeygrips', () => {
+        it('should return the keygrips of KEYINFO status lines', () => {
+            const response = `S KEYINFO ${signingGrip} D - - - P - - -\nS KEYINFO ${encryptionGrip.toLowerCase()} T D2760001 OPENPGP.2 - - - - -\nS PROGRESS x\nOK\n`;
+
+            expect(parseKeyinfoKeygrips(response)).to.deep.equal([signingGrip, encryptionGrip]);
+        });
+    });
+
+    describe('findFingerprintsForKeygrips', () => {
+        it('should map primary and subkey keygrips to the primary fingerprint once', () => {
+            expect(findFingerprintsForKeygrips(colons, new Set([signingGrip, encryptionGrip]))).to.deep.equal([keyFpr]);
+            expect(findFingerprintsForKeygrips(colons, new Set([encryptionGrip]))).to.deep.equal([keyFpr]);
+        });
+
+        it('should ignore keys without a matching keygrip', () => {
+            expect(findFingerprintsForKeygrips(colons, new Set(['0000000000000000000000000000000000000000']))).to.deep.equal([]);
+        });
+    });
+
+    describe('PublicKeyExporter', () => {
+        let mockLogConfig: MockLogConfig;
+        let agentCalls: string[];
+        let gpgCalls: string[][];
+        let keyinfoResponse: string;
+        let gpgResults: Record<string, GpgResult>;
+
+        const agent: IKeyinfoSource = {
+            connectAgent: async () => {
+                agentCalls.push('connect');
+                return { sessionId: 'keyinfo-session' };
+            },
+            sendCommands: async (_sessionId, commandBlock) => {
+                agentCalls.push(commandBlock);
+                return { response: keyinfoResponse };
+            },
+            disconnectAgent: async () => {
+                agentCalls.push('disconnect');
+            }
+        };
+
+        const createExporter = () => new PublicKeyExporter(agent, {
+            gpgPath: 'C:\\Program Files\\GnuPG\\bin\\gpg.exe',
+            logCallback: mockLogConfig.logCallback
+        }, {
+            runGpg: (_gpgPath, args) => {
+                gpgCalls.push(args);
+                return gpgResults[args[args.indexOf('--batch') + 1]];
+            }
+        });
+
+        beforeEach(() => {
+            mockLogConfig = new MockLogConfig();
+            agentCalls = [];
+            gpgCalls = [];
+            keyinfoResponse = `S KEYINFO ${signingGrip} D - - - P - - -\nOK\n`;
+            gpgResults = {
+                '--with-colons': { status: 0, stdout: colons, stderr: '' },
+                '--armor': { status: 0, stdout: '-----BEGIN PGP PUBLIC KEY BLOCK-----\n...\n', stderr: '' }
+            };
+        });
+
+        it('should export the public keys for the keys gpg-agent holds', async () => {
+            const result = await createExporter().export();
+
+            expect(result.fingerprints).to.deep.equal([keyFpr]);
+            expect(result.armored).to.include('BEGIN PGP PUBLIC KEY BLOCK');
+            expect(agentCalls).to.deep.equal(['connect', 'KEYINFO --list\n', 'disconnect']);
+            expect(gpgCalls[1]).to.deep.equal(['--batch', '--armor', '--export', keyFpr]);
+        });
+
+        it('should not run gpg when gpg-agent holds no keys', async () => {
+            keyinfoResponse = 'OK\n';
+
+            const result = await createExporter().export();
+
+            expect(result).to.deep.equal({ fingerprints: [], armored: '' });
+            expect(gpgCalls).to.have.length(0);
+        });
+
+        it('should report a KEYINFO error and still disconnect', async () => {
+            keyinfoResponse = 'ERR 67109115 Forbidden <GPG Agent>\n';
+
+            try {
+                await createExporter().export();
+                expect.fail('Should have thrown');
+            } catch (error) {
+                expect((error as Error).message).to.include('KEYINFO --list failed: Forbidden');
+            }
+            expect(agentCalls).to.include('disconnect');
+        });
+
+        it('should report gpg failures with stderr', async () => {
+            gpgResults['--with-colons'] = { status: 2, stdout: '', stderr: 'gpg: keydb_search failed\n' };
+
+            try {
+                await createExporter().export();
+                expect.fail('Should have thrown');
+            } catch (error) {
+                expect((error as Error).message).to.include('keydb_search failed');
+            }
+        });
+    });
+});
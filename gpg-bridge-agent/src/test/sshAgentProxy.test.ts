@@ -0,0 +1,300 @@
+/**
+ * Unit Tests: SSH Agent Proxy Service
+ *
+ * Tests SshAgentProxy with mocked dependencies.
+ * Validates nonce authentication, request/response framing, and session cleanup.
+ */
+
+import { expect } from 'chai';
+import { SshAgentProxy } from '../services/sshAgentProxy';
+import type { SshAgentProxyConfig } from '../services/sshAgentProxy';
+import type { ConsentRequest } from '../services/agentProxy';
+import type { AuditRecord } from '../services/auditLog';
+import { encodeSshMessage, getSshSignRequestFingerprint, SSH_AGENT_MESSAGE, SSH_AGENT_FAILURE_RESPONSE } from '@gpg-bridge/shared';
+import { MockSocketFactory, MockFileSystem, MockLogConfig } from '@gpg-bridge/shared/test';
+
+describe('SshAgentProxy', () => {
+    const socketPath = 'C:\\Users\\test\\AppData\\Local\\gnupg\\S.gpg-agent.ssh';
+    const nonce = Buffer.alloc(16, 9);
+    const requestIdentities = encodeSshMessage(SSH_AGENT_MESSAGE.REQUEST_IDENTITIES);
+    const tick = () => new Promise((resolve) => setTimeout(resolve, 10));
+    let mockLogConfig: MockLogConfig;
+    let mockSocketFactory: MockSocketFactory;
+    let mockFileSystem: MockFileSystem;
+
+    const createProxy = (config: Partial<SshAgentProxyConfig> = {}) => new SshAgentProxy(
+        {
+            sshAgentSocketPath: socketPath,
+            logCallback: mockLogConfig.logCallback,
+            ...config
+        },
+        {
+            fileSystem: mockFileSystem,
+            socketFactory: mockSocketFactory
+        }
+    );
+
+    beforeEach(() => {
+        mockLogConfig = new MockLogConfig();
+        mockSocketFactory = new MockSocketFactory();
+        mockFileSystem = new MockFileSystem();
+        mockFileSystem.setFile(socketPath, Buffer.concat([Buffer.from('22022\n'), nonce]));
+    });
+
+    afterEach(() => {
+        mockSocketFactory.getSockets().forEach((socket) => {
+            if (!socket.destroyed) {
+                socket.destroy();
+            }
+        });
+    });
+
+    describe('connect', () => {
+        it('should connect to the port from the socket file and send the nonce', async () => {
+            const proxy = createProxy();
+
+            const { sessionId } = await proxy.connect('ssh-session');
+
+            expect(sessionId).to.equal('ssh-session');
+            expect((mockSocketFactory.lastConnectionOptions as { port: number }).port).to.equal(22022);
+            expect(mockSocketFactory.getLastSocket()!.data[0]).to.deep.equal(nonce);
+            expect(proxy.getSessionCount()).to.equal(1);
+        });
+
+        it('should connect to a Unix socket without sending a nonce', async () => {
+            const unixSocketPath = '/run/user/1000/gnupg/S.gpg-agent.ssh';
+            mockFileSystem.setFile(unixSocketPath, Buffer.alloc(0));
+            const proxy = createProxy({ sshAgentSocketPath: unixSocketPath, transport: 'unix' });
+
+            await proxy.connect('ssh-session');
+
+            expect(mockSocketFactory.lastConnectionOptions).to.deep.equal({ path: unixSocketPath });
+            expect(mockSocketFactory.getLastSocket()!.data).to.have.length(0);
+            expect(proxy.getSessionCount()).to.equal(1);
+        });
+
+        it('should explain how to enable SSH support when the socket file is missing', async () => {
+            mockFileSystem.unlinkSync(socketPath);
+            const proxy = createProxy();
+
+            try {
+                await proxy.connect();
+                expect.fail('Should have thrown');
+            } catch (error) {
+                expect((error as Error).message).to.include('enable-ssh-support');
+            }
+            expect(proxy.getSessionCount()).to.equal(0);
+        });
+
+        it('should time out when the connection does not complete', async () => {
+            mockSocketFactory.setDelayConnect(1000);
+            const proxy = createProxy({ connectionTimeoutMs: 20 });
+
+            try {
+                await proxy.connect();
+                expect.fail('Should have thrown');
+            } catch (error) {
+                expect((error as Error).message).to.include('Connection timeout after 20ms');
+            }
+            expect(proxy.getSessionCount()).to.equal(0);
+        });
+    });
+
+    describe('sendRequest', () => {
+        it('should relay a request and return the response assembled from chunks', async () => {
+            const proxy = createProxy();
+            await proxy.connect('ssh-session');
+            const socket = mockSocketFactory.getLastSocket()!;
+            const answer = encodeSshMessage(SSH_AGENT_MESSAGE.IDENTITIES_ANSWER, '\x00\x00\x00\x00');
+
+            const requestPromise = proxy.sendRequest('ssh-session', requestIdentities);
+            await tick();
+            expect(socket.data[1].toString('latin1')).to.equal(requestIdentities);
+            socket.emit('data', Buffer.from(answer.substring(0, 3), 'latin1'));
+            socket.emit('data', Buffer.from(answer.substring(3), 'latin1'));
+
+            expect((await requestPromise).response).to.equal(answer);
+            expect(mockLogConfig.hasLog(/SSH response: IDENTITIES_ANSWER \(9 bytes\)/)).to.be.true;
+        });
+
+        it('should reject requests that are not exactly one message', async () => {
+            const proxy = createProxy();
+            await proxy.connect('ssh-session');
+
+            for (const message of [requestIdentities.substring(0, 4), requestIdentities + requestIdentities]) {
+                try {
+                    await proxy.sendRequest('ssh-session', message);
+                    expect.fail('Should have thrown');
+                } catch (error) {
+                    expect((error as Error).message).to.include('exactly one complete message');
+                }
+            }
+        });
+
+        it('should reject unknown sessions', async () => {
+            const proxy = createProxy();
+
+            try {
+                await proxy.sendRequest('unknown', requestIdentities);
+                expect.fail('Should have thrown');
+            } catch (error) {
+                expect((error as Error).message).to.include('Invalid session');
+            }
+        });
+
+        it('should fail the request and remove the session when gpg-agent closes the socket', async () => {
+            const proxy = createProxy();
+            await proxy.connect('ssh-session');
+
+            const requestPromise = proxy.sendRequest('ssh-session', requestIdentities);
+            await tick();
+            mockSocketFactory.getLastSocket()!.simulateClose(false);
+
+            try {
+                await requestPromise;
+                expect.fail('Should have thrown');
+            } catch (error) {
+                expect((error as Error).message).to.include('closed the SSH agent connection');
+            }
+            expect(proxy.getSessionCount()).to.equal(0);
+        });
+
+        it('should close the session when gpg-agent sends data without a request', async () => {
+            const proxy = createProxy();
+            await proxy.connect('ssh-session');
+
+            mockSocketFactory.getLastSocket()!.emit('data', Buffer.from(SSH_AGENT_FAILURE_RESPONSE, 'latin1'));
+
+            expect(proxy.getSessionCount()).to.equal(0);
+            expect(mockLogConfig.hasLog('Protocol violation: gpg-agent sent 5 bytes in state READY')).to.be.true;
+        });
+    });
+
+    describe('policy, consent, and audit', () => {
+        const keyBlob = '\x00\x00\x00\x0bssh-ed25519\x00\x00\x00\x20' + '\x07'.repeat(32);
+        const signRequest = encodeSshMessage(SSH_AGENT_MESSAGE.SIGN_REQUEST, '\x00\x00\x00\x33' + keyBlob + '\x00\x00\x00\x04data\x00\x00\x00\x00');
+        const signResponse = encodeSshMessage(SSH_AGENT_MESSAGE.SIGN_RESPONSE, '\x00\x00\x00\x03sig');
+        const fingerprint = getSshSignRequestFingerprint(signRequest);
+
+        const answerNext = async (response: string) => {
+            await tick();
+            mockSocketFactory.getLastSocket()!.emit('data', Buffer.from(response, 'latin1'));
+        };
+
+        it('should refuse key management requests by default without contacting gpg-agent', async () => {
+            const proxy = createProxy();
+            await proxy.connect('ssh-session');
+            const socket = mockSocketFactory.getLastSocket()!;
+
+            for (const type of [SSH_AGENT_MESSAGE.ADD_IDENTITY, SSH_AGENT_MESSAGE.ADD_ID_CONSTRAINED, SSH_AGENT_MESSAGE.REMOVE_IDENTITY, SSH_AGENT_MESSAGE.REMOVE_ALL_IDENTITIES, SSH_AGENT_MESSAGE.LOCK]) {
+                expect((await proxy.sendRequest('ssh-session', encodeSshMessage(type, 'key'))).response).to.equal(SSH_AGENT_FAILURE_RESPONSE);
+            }
+
+            expect(socket.data).to.have.length(1);     // Only the nonce
+            expect(mockLogConfig.hasLog('SSH request REMOVE_ALL_IDENTITIES rejected by policy')).to.be.true;
+            expect(proxy.getSessionCount()).to.equal(1);
+        });
+
+        it('should apply a configured policy by message type', async () => {
+            const proxy = createProxy({ commandPolicy: { defaultAction: 'allow', rules: [{ command: 'REQUEST_IDENTITIES', action: 'deny' }] } });
+            await proxy.connect('ssh-session');
+
+            expect((await proxy.sendRequest('ssh-session', requestIdentities)).response).to.equal(SSH_AGENT_FAILURE_RESPONSE);
+            const addPromise = proxy.sendRequest('ssh-session', encodeSshMessage(SSH_AGENT_MESSAGE.ADD_IDENTITY, 'key'));
+            await answerNext(encodeSshMessage(SSH_AGENT_MESSAGE.SUCCESS));
+            expect((await addPromise).response).to.equal(encodeSshMessage(SSH_AGENT_MESSAGE.SUCCESS));
+        });
+
+        it('should ask for consent with the key fingerprint before signing', async () => {
+            const requests: ConsentRequest[] = [];
+            const proxy = createProxy({ consentCallback: async (request) => { requests.push(request); return 'allow-once'; } });
+            await proxy.connect('ssh-session');
+
+            const signPromise = proxy.sendRequest('ssh-session', signRequest);
+            await answerNext(signResponse);
+
+            expect((await signPromise).response).to.equal(signResponse);
+            expect(fingerprint).to.match(/^SHA256:/);
+            expect(requests).to.deep.equal([{ sessionId: 'ssh-session', operation: 'SSH_SIGN', keygrip: fingerprint }]);
+        });
+
+        it('should answer a denied sign request with failure without contacting gpg-agent', async () => {
+            const proxy = createProxy({ consentCallback: async () => 'deny' });
+            await proxy.connect('ssh-session');
+
+            expect((await proxy.sendRequest('ssh-session', signRequest)).response).to.equal(SSH_AGENT_FAILURE_RESPONSE);
+            expect(mockSocketFactory.getLastSocket()!.data).to.have.length(1);
+            expect(mockLogConfig.hasLog('SSH sign request denied by user')).to.be.true;
+        });
+
+        it('should remember consent given for the session', async () => {
+            let prompts = 0;
+            const proxy = createProxy({ consentCallback: async () => { prompts++; return 'allow-session'; } });
+            await proxy.connect('ssh-session');
+
+            for (let i = 0; i < 2; i++) {
+                const signPromise = proxy.sendRequest('ssh-session', signRequest);
+                await answerNext(signResponse);
+                await signPromise;
+            }
+
+            expect(prompts).to.equal(1);
+        });
+
+        it('should not ask for consent to list keys', async () => {
+            let prompts = 0;
+            const proxy = createProxy({ consentCallback: async () => { prompts++; return 'deny'; } });
+            await proxy.connect('ssh-session');
+
+            const listPromise = proxy.sendRequest('ssh-session', requestIdentities);
+            await answerNext(encodeSshMessage(SSH_AGENT_MESSAGE.IDENTITIES_ANSWER, '\x00\x00\x00\x00'));
+            await listPromise;
+
+            expect(prompts).to.equal(0);
+        });
+
+        it('should write an audit record for every request', async () => {
+            const records: AuditRecord[] = [];
+            const proxy = createProxy({ auditCallback: (record) => records.push(record) });
+            await proxy.connect('ssh-session');
+
+            const signPromise = proxy.sendRequest('ssh-session', signRequest);
+            await answerNext(signResponse);
+            await signPromise;
+            await proxy.sendRequest('ssh-session', encodeSshMessage(SSH_AGENT_MESSAGE.REMOVE_ALL_IDENTITIES));
+            const failedPromise = proxy.sendRequest('ssh-session', requestIdentities);
+            await tick();
+            mockSocketFactory.getLastSocket()!.simulateClose(false);
+            await failedPromise.catch(() => undefined);
+
+            expect(records.map((record) => ({ ...record, time: undefined, durationMs: undefined }))).to.deep.equal([
+                { event: 'ssh-request', time: undefined, sessionId: 'ssh-session', message: 'SIGN_REQUEST', fingerprint, result: 'SIGN_RESPONSE', durationMs: undefined },
+                { event: 'ssh-request', time: undefined, sessionId: 'ssh-session', message: 'REMOVE_ALL_IDENTITIES', fingerprint: null, result: 'FAILURE', durationMs: undefined },
+                { event: 'ssh-request', time: undefined, sessionId: 'ssh-session', message: 'REQUEST_IDENTITIES', fingerprint: null, result: 'FAILED', durationMs: undefined }
+            ]);
+        });
+    });
+
+    describe('disconnect and stop', () => {
+        it('should destroy the socket on disconnect', async () => {
+            const proxy = createProxy();
+            await proxy.connect('ssh-session');
+
+            await proxy.disconnect('ssh-session');
+
+            expect(mockSocketFactory.getLastSocket()!.destroyed).to.be.true;
+            expect(proxy.getSessionCount()).to.equal(0);
+        });
+
+        it('should close all sessions on stop', async () => {
+            const proxy = createProxy();
+            await proxy.connect('ssh-1');
+            await proxy.connect('ssh-2');
+
+            await proxy.stop();
+
+            expect(proxy.getSessionCount()).to.equal(0);
+            expect(mockSocketFactory.getSockets().every((socket) => socket.destroyed)).to.be.true;
+        });
+    });
+});
@@ -6,22 +6,32 @@
  *
  * Creates a Unix socket server on the GPG agent socket path and implements
  * a state machine to forward protocol operations to the agent-proxy extension
- * via VS Code commands.
+ * via VS Code commands. Optionally serves SSH_AUTH_SOCK and the dirmngr and keyboxd
+ * sockets the same way.
  */
 
 import * as os from 'os';
 import * as path from 'path';
 import * as vscode from 'vscode';
 import { RequestProxy } from './services/requestProxy';
-import { extractErrorMessage } from '@gpg-bridge/shared';
+import type { PassphraseRequest } from './services/requestProxy';
+import { SshRequestProxy } from './services/sshRequestProxy';
+import { PublicKeySync } from './services/publicKeySync';
+import type { OwnertrustLevel } from './services/publicKeySync';
+import { extractErrorMessage, parseCommandPolicy } from '@gpg-bridge/shared';
+import type { CommandPolicyDecision } from '@gpg-bridge/shared';
 import { VSCodeCommandExecutor } from './services/commandExecutor';
 import { isTestEnvironment, isIntegrationTestEnvironment } from '@gpg-bridge/shared';
 
 let requestProxyService: RequestProxy | null = null;
+let sshRequestProxyService: SshRequestProxy | null = null;
+let componentRequestProxyServices: RequestProxy[] = [];
 let outputChannel: vscode.OutputChannel;
+let environmentVariables: vscode.GlobalEnvironmentVariableCollection;
 
 export async function activate(context: vscode.ExtensionContext): Promise<void> {
     outputChannel = vscode.window.createOutputChannel('GPG Bridge Request');
+    environmentVariables = context.environmentVariableCollection;
 
     try {
         outputChannel.appendLine(`Remote context (${vscode.env.remoteName}) activated`);
@@ -34,6 +44,10 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             vscode.commands.registerCommand('gpg-bridge-request.stop', async () => {
                 await stopRequestProxy();
             }),
+            vscode.commands.registerCommand('gpg-bridge-request.syncPublicKeys', async () => {
+                await syncPublicKeys(true);
+            }),
+            vscode.commands.registerCommand('_gpg-bridge-request.receiveResponseLines', receiveResponseLines),
             outputChannel
         );
 
@@ -92,8 +106,19 @@ async function startRequestProxy(): Promise<void> {
         const getSocketPath = (isIntegrationTestEnvironment() && !process.env.GNUPGHOME)
             ? async () => path.join(os.tmpdir(), `gpg-relay-test-${process.pid}.sock`)
             : undefined;
+
+        // Invalid policy settings abort start; the catch below reports the error to the user
+        const commandPolicy = parseCommandPolicy(config.get('commandPolicy') ?? {});
+
         requestProxyService = new RequestProxy({
-            logCallback: logCallback
+            logCallback: logCallback,
+            commandPolicy: commandPolicy,
+            confirmCommandCallback: confirmCommand,
+            passphraseCallback: config.get<boolean>('loopbackPinentry', false) ? promptForPassphrase : undefined,
+            maxLineLength: config.get<number>('maxLineLength'),
+            maxInquireBytes: config.get<number>('maxInquireBytes'),
+            streamResponses: config.get<boolean>('streamResponses', true),
+            sshSocketPathCallback: () => sshRequestProxyService?.getSocketPath() ?? null
         }, {
             commandExecutor: new VSCodeCommandExecutor(),
             ...(getSocketPath ? { getSocketPath } : {})
@@ -101,6 +126,19 @@ async function startRequestProxy(): Promise<void> {
         await requestProxyService.start();
 
         outputChannel.appendLine('Request proxy is READY');
+
+        if (config.get<boolean>('sshSupport', false)) {
+            await startSshRequestProxy(logCallback);
+        }
+        if (config.get<boolean>('dirmngrSupport', false)) {
+            await startComponentRequestProxy('dirmngr', logCallback);
+        }
+        if (config.get<boolean>('keyboxdSupport', false)) {
+            await startComponentRequestProxy('keyboxd', logCallback);
+        }
+        if (config.get<boolean>('syncPublicKeysOnStart', false)) {
+            await syncPublicKeys(false);
+        }
     } catch (error) {
         const message = extractErrorMessage(error);
         outputChannel.appendLine(`Failed to start request proxy: ${message}`);
@@ -110,6 +148,126 @@ async function startRequestProxy(): Promise<void> {
     }
 }
 
+/**
+ * Command: _gpg-bridge-request.receiveResponseLines
+ *
+ * Called by gpg-bridge-agent while a streamed sendCommands is in flight, with status and
+ * D lines gpg-agent (or dirmngr/keyboxd) has sent so far. Resolves once the lines are
+ * written to the client.
+ */
+async function receiveResponseLines(sessionId: string, lines: string): Promise<void> {
+    for (const proxy of [requestProxyService, ...componentRequestProxyServices]) {
+        if (await proxy?.receiveResponseLines(sessionId, lines)) {
+            return;
+        }
+    }
+    outputChannel.appendLine(`[receiveResponseLines] Session ${sessionId}: no such session, ${lines.length} bytes dropped`);
+}
+
+/**
+ * Serve SSH_AUTH_SOCK and point integrated terminals at it.
+ * Failures are reported but do not stop the Assuan relay.
+ */
+async function startSshRequestProxy(logCallback: ((message: string) => void) | undefined): Promise<void> {
+    try {
+        outputChannel.appendLine('Starting SSH request proxy...');
+        sshRequestProxyService = new SshRequestProxy({ logCallback: logCallback }, {
+            commandExecutor: new VSCodeCommandExecutor()
+        });
+        await sshRequestProxyService.start();
+
+        const socketPath = sshRequestProxyService.getSocketPath()!;
+        environmentVariables.replace('SSH_AUTH_SOCK', socketPath);
+        environmentVariables.description = 'SSH agent relayed to gpg-agent on the Windows host';
+        outputChannel.appendLine(`SSH request proxy is READY, SSH_AUTH_SOCK=${socketPath} for new terminals`);
+    } catch (error) {
+        const message = extractErrorMessage(error);
+        sshRequestProxyService = null;
+        outputChannel.appendLine(`Failed to start SSH request proxy: ${message}`);
+        vscode.window.showWarningMessage(`GPG Bridge: SSH agent relay not started: ${message}`);
+    }
+}
+
+/**
+ * Serve the dirmngr or keyboxd socket with another RequestProxy relaying to the Windows daemon.
+ * The command policy applies to gpg-agent commands only and is not used here.
+ * Failures are reported but do not stop the gpg-agent relay.
+ */
+async function startComponentRequestProxy(service: 'dirmngr' | 'keyboxd', logCallback: ((message: string) => void) | undefined): Promise<void> {
+    try {
+        outputChannel.appendLine(`Starting ${service} request proxy...`);
+        const config = vscode.workspace.getConfiguration('gpgBridgeRequest');
+        const proxy = new RequestProxy({
+            logCallback: logCallback,
+            service: service,
+            maxLineLength: config.get<number>('maxLineLength'),
+            maxInquireBytes: config.get<number>('maxInquireBytes'),
+            streamResponses: config.get<boolean>('streamResponses', true)
+        }, {
+            commandExecutor: new VSCodeCommandExecutor(service)
+        });
+        await proxy.start();
+        componentRequestProxyServices.push(proxy);
+        outputChannel.appendLine(`${service} request proxy is READY at ${proxy.getSocketPath()}`);
+    } catch (error) {
+        const message = extractErrorMessage(error);
+        outputChannel.appendLine(`Failed to start ${service} request proxy: ${message}`);
+        vscode.window.showWarningMessage(`GPG Bridge: ${service} relay not started: ${message}`);
+    }
+}
+
+/**
+ * Import the public keys for the Windows gpg-agent's secret keys into the local keyring.
+ * Failures are reported but do not stop the relay.
+ *
+ * @param interactive Run from the command palette: report the result, not only failures
+ */
+async function syncPublicKeys(interactive: boolean): Promise<void> {
+    const config = vscode.workspace.getConfiguration('gpgBridgeRequest');
+    try {
+        outputChannel.appendLine('Syncing public keys from the Windows host...');
+        const publicKeySync = new PublicKeySync({
+            logCallback: (message: string) => outputChannel.appendLine(message),
+            ownertrust: config.get<OwnertrustLevel>('syncPublicKeysOwnertrust', 'none')
+        });
+        const fingerprints = await publicKeySync.sync();
+        outputChannel.appendLine(`Public key sync complete: ${fingerprints.length} key(s)`);
+        if (interactive) {
+            vscode.window.showInformationMessage(`GPG Bridge: Imported ${fingerprints.length} public key(s) from the Windows host`);
+        }
+    } catch (error) {
+        const message = extractErrorMessage(error);
+        outputChannel.appendLine(`Failed to sync public keys: ${message}`);
+        vscode.window.showWarningMessage(`GPG Bridge: Public key sync failed: ${message}`);
+    }
+}
+
+/**
+ * Ask the user to approve a command whose policy action is 'confirm'
+ */
+async function confirmCommand(sessionId: string, decision: CommandPolicyDecision): Promise<boolean> {
+    const choice = await vscode.window.showWarningMessage(
+        `GPG Bridge: allow a process in this remote to run ${decision.verb} on the Windows gpg-agent?`,
+        { modal: true, detail: `Session ${sessionId}` },
+        'Allow'
+    );
+    return choice === 'Allow';
+}
+
+/**
+ * Answer a loopback pinentry inquiry with a password input box.
+ * Dismissing the input box cancels the operation in gpg-agent.
+ */
+async function promptForPassphrase(request: PassphraseRequest): Promise<string | undefined> {
+    const isNew = request.keyword === 'NEW_PASSPHRASE';
+    return vscode.window.showInputBox({
+        title: isNew ? 'GPG Bridge: New passphrase' : 'GPG Bridge: Passphrase',
+        prompt: request.description ?? (isNew ? 'Enter the new passphrase' : 'Enter the passphrase to unlock the secret key'),
+        password: true,
+        ignoreFocusOut: true
+    });
+}
+
 async function stopRequestProxy(): Promise<void> {
     if (!requestProxyService) {
         outputChannel.appendLine('Request proxy is not running');
@@ -118,6 +276,12 @@ async function stopRequestProxy(): Promise<void> {
 
     try {
         outputChannel.appendLine('Stopping request proxy...');
+        if (sshRequestProxyService) {
+            await sshRequestProxyService.stop();
+            sshRequestProxyService = null;
+            environmentVariables.delete('SSH_AUTH_SOCK');
+        }
+        await stopComponentRequestProxies();
         await requestProxyService.stop();
         requestProxyService = null;
         outputChannel.appendLine('Request proxy stopped');
@@ -128,8 +292,21 @@ async function stopRequestProxy(): Promise<void> {
     }
 }
 
-export function deactivate(): Promise<void> | undefined {
-    return requestProxyService?.stop();
+/**
+ * Stop the dirmngr and keyboxd request proxies
+ */
+async function stopComponentRequestProxies(): Promise<void> {
+    const proxies = componentRequestProxyServices;
+    componentRequestProxyServices = [];
+    for (const proxy of proxies) {
+        await proxy.stop();
+    }
+}
+
+export async function deactivate(): Promise<void> {
+    await sshRequestProxyService?.stop();
+    await stopComponentRequestProxies();
+    await requestProxyService?.stop();
 }
 
 
@@ -4,16 +4,45 @@
  */
 
 import * as vscode from 'vscode';
-import type { ICommandExecutor } from '@gpg-bridge/shared';
+import type { AssuanService, ICommandExecutor, ISshCommandExecutor, IPublicKeyExporter, SendCommandsOptions, SendCommandsResult } from '@gpg-bridge/shared';
+
+/**
+ * agent-proxy commands for each relayed Assuan service
+ */
+const ASSUAN_COMMANDS: Record<AssuanService, { connect: string; send: string; disconnect: string }> = {
+    'gpg-agent': {
+        connect: '_gpg-bridge-agent.connectAgent',
+        send: '_gpg-bridge-agent.sendCommands',
+        disconnect: '_gpg-bridge-agent.disconnectAgent'
+    },
+    'dirmngr': {
+        connect: '_gpg-bridge-agent.connectDirmngr',
+        send: '_gpg-bridge-agent.sendDirmngrCommands',
+        disconnect: '_gpg-bridge-agent.disconnectDirmngr'
+    },
+    'keyboxd': {
+        connect: '_gpg-bridge-agent.connectKeyboxd',
+        send: '_gpg-bridge-agent.sendKeyboxdCommands',
+        disconnect: '_gpg-bridge-agent.disconnectKeyboxd'
+    }
+};
 
 /**
  * Production implementation that executes VS Code commands to communicate with gpg-bridge-agent.
  * These commands are registered in gpg-bridge-agent/src/extension.ts.
+ *
+ * The Assuan methods talk to gpg-agent by default; pass 'dirmngr' or 'keyboxd' to relay to those instead.
  */
-export class VSCodeCommandExecutor implements ICommandExecutor {
+export class VSCodeCommandExecutor implements ICommandExecutor, ISshCommandExecutor, IPublicKeyExporter {
+    private readonly commands: { connect: string; send: string; disconnect: string };
+
+    constructor(service: AssuanService = 'gpg-agent') {
+        this.commands = ASSUAN_COMMANDS[service];
+    }
+
     /**
-     * Connect to the GPG agent through agent-proxy extension.
-     * Calls `_gpg-bridge-agent.connectAgent` command.
+     * Connect to the GPG agent (or dirmngr/keyboxd) through agent-proxy extension.
+     * Calls `_gpg-bridge-agent.connectAgent` (or `connectDirmngr`/`connectKeyboxd`) command.
      *
      * @returns Session ID and agent greeting message
      * @throws Error if command fails or extension not available
@@ -23,39 +52,104 @@ export class VSCodeCommandExecutor implements ICommandExecutor {
         // extension IPC boundary, which bypasses the default-parameter in connectAgent()
         // and causes all sessions to share a null key in the sessions Map.
         return vscode.commands.executeCommand(
-            '_gpg-bridge-agent.connectAgent',
+            this.commands.connect,
             ...(sessionId !== undefined ? [sessionId] : [])
         ) as Promise<{ sessionId: string; greeting: string }>;
     }
 
     /**
-     * Send Assuan protocol commands to GPG agent through agent-proxy.
-     * Calls `_gpg-bridge-agent.sendCommands` command.
+     * Send Assuan protocol commands to GPG agent (or dirmngr/keyboxd) through agent-proxy.
+     * Calls `_gpg-bridge-agent.sendCommands` (or `sendDirmngrCommands`/`sendKeyboxdCommands`) command.
      *
      * @param sessionId Session ID from connectAgent
      * @param commandBlock Raw Assuan protocol command(s)
-     * @returns Agent response
+     * @param options stream: have agent-proxy push lines to `_gpg-bridge-request.receiveResponseLines`
+     * @returns Agent response, without lines already streamed
+     * @throws Error if command fails or session invalid
+     */
+    async sendCommands(sessionId: string, commandBlock: string, options?: SendCommandsOptions): Promise<SendCommandsResult> {
+        // Same undefined handling as connectAgent()
+        return vscode.commands.executeCommand(
+            this.commands.send,
+            sessionId,
+            commandBlock,
+            ...(options !== undefined ? [options] : [])
+        ) as Promise<SendCommandsResult>;
+    }
+
+    /**
+     * Disconnect from GPG agent (or dirmngr/keyboxd) and clean up session in agent-proxy.
+     * Calls `_gpg-bridge-agent.disconnectAgent` (or `disconnectDirmngr`/`disconnectKeyboxd`) command.
+     *
+     * @param sessionId Session ID to disconnect
+     * @param reason Why the client went away, so agent-proxy can cancel a running operation
+     * @throws Error if command fails
+     */
+    async disconnectAgent(sessionId: string, reason?: string): Promise<void> {
+        // Same undefined handling as connectAgent()
+        await vscode.commands.executeCommand(
+            this.commands.disconnect,
+            sessionId,
+            ...(reason !== undefined ? [reason] : [])
+        );
+    }
+
+    /**
+     * Connect to gpg-agent's SSH agent socket through agent-proxy.
+     * Calls `_gpg-bridge-agent.connectSshAgent` command.
+     *
+     * @returns Session ID
+     * @throws Error if command fails, extension not available, or SSH support disabled in gpg-agent
+     */
+    async connectSshAgent(sessionId?: string): Promise<{ sessionId: string }> {
+        // Same undefined handling as connectAgent()
+        return vscode.commands.executeCommand(
+            '_gpg-bridge-agent.connectSshAgent',
+            ...(sessionId !== undefined ? [sessionId] : [])
+        ) as Promise<{ sessionId: string }>;
+    }
+
+    /**
+     * Send one SSH agent request message through agent-proxy.
+     * Calls `_gpg-bridge-agent.sendSshRequest` command.
+     *
+     * @param sessionId Session ID from connectSshAgent
+     * @param message Framed SSH agent message as a latin1 string
+     * @returns gpg-agent's framed response message
      * @throws Error if command fails or session invalid
      */
-    async sendCommands(sessionId: string, commandBlock: string): Promise<{ response: string }> {
+    async sendSshRequest(sessionId: string, message: string): Promise<{ response: string }> {
         return vscode.commands.executeCommand(
-            '_gpg-bridge-agent.sendCommands',
+            '_gpg-bridge-agent.sendSshRequest',
             sessionId,
-            commandBlock
+            message
         ) as Promise<{ response: string }>;
     }
 
     /**
-     * Disconnect from GPG agent and clean up session in agent-proxy.
-     * Calls `_gpg-bridge-agent.disconnectAgent` command.
+     * Disconnect an SSH agent session in agent-proxy.
+     * Calls `_gpg-bridge-agent.disconnectSshAgent` command.
      *
      * @param sessionId Session ID to disconnect
      * @throws Error if command fails
      */
-    async disconnectAgent(sessionId: string): Promise<void> {
+    async disconnectSshAgent(sessionId: string): Promise<void> {
         await vscode.commands.executeCommand(
-            '_gpg-bridge-agent.disconnectAgent',
+            '_gpg-bridge-agent.disconnectSshAgent',
             sessionId
         );
     }
+
+    /**
+     * Export the public keys for the secret keys gpg-agent holds.
+     * Calls `_gpg-bridge-agent.exportPublicKeys` command.
+     *
+     * @returns Primary key fingerprints and ASCII-armored public keys
+     * @throws Error if command fails, extension not available, or gpg fails on Windows
+     */
+    async exportPublicKeys(): Promise<{ fingerprints: string[]; armored: string }> {
+        return vscode.commands.executeCommand(
+            '_gpg-bridge-agent.exportPublicKeys'
+        ) as Promise<{ fingerprints: string[]; armored: string }>;
+    }
 }
@@ -0,0 +1,81 @@
+/**
+ * Public Key Sync Service
+ *
+ * Imports the public keys for the secret keys the Windows gpg-agent holds into the local
+ * (remote-side) keyring, so gpg can sign and decrypt here without a manual key import.
+ *
+ * 1. Fetch the ASCII-armored keys from agent-proxy (gpg --export on Windows)
+ * 2. Import them with gpg --import
+ * 3. Optionally set their owner trust with gpg --import-ownertrust
+ */
+
+import { spawnSync } from 'child_process';
+import { log } from '@gpg-bridge/shared';
+import type { LogConfig, IPublicKeyExporter } from '@gpg-bridge/shared';
+import { VSCodeCommandExecutor } from './commandExecutor';
+
+export type OwnertrustLevel = 'none' | 'marginal' | 'full' | 'ultimate';
+
+/**
+ * gpg --export-ownertrust trust values
+ */
+const OWNERTRUST_VALUES: Record<Exclude<OwnertrustLevel, 'none'>, number> = {
+    marginal: 4,
+    full: 5,
+    ultimate: 6
+};
+
+export interface PublicKeySyncConfig extends LogConfig {
+    ownertrust?: OwnertrustLevel;   // Default 'none': leave owner trust unchanged
+}
+
+export interface PublicKeySyncDeps {
+    exporter?: IPublicKeyExporter;  // Optional for testing/injection; defaults to VSCodeCommandExecutor
+    runGpg?: (args: string[], input: string) => { status: number | null; stderr: string };
+}
+
+export class PublicKeySync {
+    private readonly exporter: IPublicKeyExporter;
+    private readonly runGpg: (args: string[], input: string) => { status: number | null; stderr: string };
+
+    constructor(private config: PublicKeySyncConfig, deps?: PublicKeySyncDeps) {
+        this.exporter = deps?.exporter ?? new VSCodeCommandExecutor();
+        this.runGpg = deps?.runGpg ?? ((args, input) => {
+            const result = spawnSync('gpg', args, { input, encoding: 'utf8', timeout: 30000 });
+            return { status: result.status, stderr: result.error?.message || result.stderr || '' };
+        });
+    }
+
+    /**
+     * Import the agent's public keys into the local keyring.
+     *
+     * @returns Fingerprints of the imported primary keys; empty if gpg-agent holds no keys
+     * @throws Error if agent-proxy cannot export the keys or the local gpg fails
+     */
+    public async sync(): Promise<string[]> {
+        const { fingerprints, armored } = await this.exporter.exportPublicKeys();
+        if (fingerprints.length === 0) {
+            log(this.config, '[PublicKeySync] gpg-agent holds no keys with a public key on Windows; nothing to import');
+            return [];
+        }
+
+        this.gpg(['--batch', '--import'], armored);
+        log(this.config, `[PublicKeySync] Imported ${fingerprints.length} public key(s): ${fingerprints.join(', ')}`);
+
+        const ownertrust = this.config.ownertrust ?? 'none';
+        if (ownertrust !== 'none') {
+            const trustValue = OWNERTRUST_VALUES[ownertrust];
+            this.gpg(['--batch', '--import-ownertrust'], fingerprints.map((fpr) => `${fpr}:${trustValue}:\n`).join(''));
+            log(this.config, `[PublicKeySync] Set owner trust to ${ownertrust}`);
+        }
+
+        return fingerprints;
+    }
+
+    private gpg(args: string[], input: string): void {
+        const result = this.runGpg(args, input);
+        if (result.status !== 0) {
+            throw new Error(`gpg ${args.slice(1).join(' ')} failed: ${result.stderr.trim() || `exit code ${result.status}`}`);
+        }
+    }
+}
@@ -17,8 +17,8 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { EventEmitter } from 'events';
 import { spawnSync } from 'child_process';
-import { log, encodeProtocolData, decodeProtocolData, sanitizeForLog, extractErrorMessage, cleanupSocket, extractCommand, extractInquireBlock, detectResponseCompletion } from '@gpg-bridge/shared';
-import type { LogConfig, ICommandExecutor, IFileSystem, IServerFactory, ISessionManager } from '@gpg-bridge/shared';
+import { log, encodeProtocolData, decodeProtocolData, sanitizeForLog, extractErrorMessage, cleanupSocket, writeWithBackpressure, extractCommand, extractInquireBlock, isInquireCancelled, encodeInquireData, percentDecode, percentEncode, parseAssuanResponse, parseCommandLine, decodeGpgError, formatGpgError, enforceCommandPolicy, POLICY_DENIED_RESPONSE, DIRMNGR_INQUIRE_KEYWORDS, DEFAULT_ASSUAN_LIMITS, AssuanProtocolError, formatProtocolErrorResponse, makeGpgErrorValue, GPG_ERR, GPG_ERR_SOURCE, InquireScanPosition } from '@gpg-bridge/shared';
+import type { AssuanService, LogConfig, CommandPolicyConfig, ICommandExecutor, IFileSystem, IServerFactory, ISessionManager } from '@gpg-bridge/shared';
 import { v4 as uuidv4 } from 'uuid';
 import { VSCodeCommandExecutor } from './commandExecutor';
 
@@ -147,8 +147,34 @@ const STATE_TRANSITIONS: StateTransitionTable = {
   },
 };
 
-export interface RequestProxyConfig extends LogConfig {
+/**
+ * Passphrase inquiries gpg-agent sends to the client with --pinentry-mode loopback
+ */
+export type PassphraseInquiry = 'PASSPHRASE' | 'NEW_PASSPHRASE';
+const PASSPHRASE_INQUIRIES: ReadonlySet<string> = new Set<PassphraseInquiry>(['PASSPHRASE', 'NEW_PASSPHRASE']);
+
+/**
+ * Answer to GETINFO pid. The agent's PID belongs to a process on the gpg-agent host, so
+ * it cannot be signalled or inspected from this remote; Not supported is returned instead.
+ * Any PID of this host would be wrong to signal: scripts restart the agent with
+ * `kill $(gpg-connect-agent 'getinfo pid' /bye)`.
+ */
+export const GETINFO_PID_RESPONSE = `ERR ${makeGpgErrorValue(GPG_ERR_SOURCE.GPGAGENT, GPG_ERR.NOT_SUPPORTED)} Not supported <GPG Agent>\n`;
+
+export interface PassphraseRequest {
+    sessionId: string;
+    keyword: PassphraseInquiry;
+    description: string | null;     // From the client's most recent SETKEYDESC, decoded
+}
+
+export interface RequestProxyConfig extends LogConfig, CommandPolicyConfig {
     // commandExecutor is injected via deps, not provided here
+    service?: AssuanService;    // Default: 'gpg-agent' - selects the socket path and agent-proxy commands
+    passphraseCallback?: (request: PassphraseRequest) => Promise<string | undefined>;  // Answers loopback passphrase inquiries instead of the client; undefined cancels
+    maxLineLength?: number;     // Default: 1000 (Assuan limit) - longest command line accepted from the client
+    maxInquireBytes?: number;   // Default: 16 MiB - largest INQUIRE answer accepted from the client
+    streamResponses?: boolean;  // Default: true - forward status and D lines before the agent's response is complete
+    sshSocketPathCallback?: () => string | null;  // Socket the SSH relay listens on, or null while it is not running
 }
 
 export interface RequestProxyDeps {
@@ -161,6 +187,7 @@ export interface RequestProxyDeps {
 // Internal config type used by handlers - always has commandExecutor after DI
 interface RequestProxyConfigWithExecutor extends RequestProxyConfig {
     commandExecutor: ICommandExecutor;
+    socketPath: string | null;      // Socket the server listens on; set once resolved in start()
 }
 
 
@@ -178,6 +205,12 @@ class RequestSessionManager extends EventEmitter implements ISessionManager {
     private state: SessionState = 'DISCONNECTED';
     private buffer: string = '';
     private lastCommand: string = '';  // First token (verb) of the most recent command sent to agent (e.g. 'BYE')
+    private pendingCommand: string | null = null;  // Verb of the command gpg-agent has not finished with OK/ERR
+    private agentSessionClosed: boolean = false;  // agent-proxy closed its session (response over a limit)
+    private pendingInquiry: string | null = null;  // Keyword of the INQUIRE the client is answering
+    private inquireScan: InquireScanPosition = { offset: 0, lineNumber: 1 };  // Validated part of the buffered INQUIRE answer
+    private keyDescription: string | null = null;  // From the most recent SETKEYDESC, shown in the passphrase prompt
+    private getInfoWhat: string | null = null;  // Lower-cased argument of the most recent GETINFO command, for response rewriting
 
     constructor(config: RequestProxyConfigWithExecutor, socket: net.Socket, sessionId: string) {
         super();
@@ -189,14 +222,15 @@ class RequestSessionManager extends EventEmitter implements ISessionManager {
         // Use .once() for single-fire events, .on() for events that can fire multiple times
 
         // Single-fire initialization events
-        this.once('CLIENT_SOCKET_CONNECTED', this.handleClientSocketConnected.bind(this));
+        // Async handlers go through settle() so a failure becomes ERROR_OCCURRED, not a floating rejection
+        this.once('CLIENT_SOCKET_CONNECTED', () => this.settle(this.handleClientSocketConnected(), 'Agent connect handling failed'));
 
         // Multi-fire data/command events (multiple writes and data chunks per session)
         this.on('CLIENT_DATA_START', this.handleClientDataStart.bind(this));
         this.on('CLIENT_DATA_PARTIAL', this.handleClientDataPartial.bind(this));
         this.on('CLIENT_DATA_COMPLETE', this.handleClientDataComplete.bind(this));
         this.on('AGENT_WRITE_COMPLETE', this.handleAgentWriteComplete.bind(this));
-        this.on('AGENT_RESPONSE_COMPLETE', this.handleAgentResponseComplete.bind(this));
+        this.on('AGENT_RESPONSE_COMPLETE', (response: string) => this.settle(this.handleAgentResponseComplete(response), 'Agent response handling failed'));
         this.on('RESPONSE_OK_OR_ERR', this.handleResponseOkOrErr.bind(this));
         this.on('RESPONSE_INQUIRE', this.handleResponseInquire.bind(this));
 
@@ -219,6 +253,23 @@ class RequestSessionManager extends EventEmitter implements ISessionManager {
         // Whitelist of states that can accept client data
         const validStates: SessionState[] = ['READY', 'BUFFERING_COMMAND', 'BUFFERING_INQUIRE'];
 
+        // A client that saw the response can send its next command before the last bytes flush;
+        // hold that data until the response is written and the session knows what it answers
+        if (this.state === 'SENDING_TO_CLIENT') {
+            this.buffer += decodeProtocolData(chunk);
+            log(this.config, `[${this.sessionId}] Holding ${chunk.length} bytes until the response is flushed`);
+            try {
+                this.checkHeldData();
+            } catch (err) {
+                if (err instanceof AssuanProtocolError) {
+                    this.rejectProtocolViolation(err);
+                    return;
+                }
+                throw err;
+            }
+            return;
+        }
+
         // Check for protocol violation - client sending data in invalid state
         if (!validStates.includes(this.state)) {
             this.emit('ERROR_OCCURRED', `Protocol violation: client sent ${chunk.length} bytes in state ${this.state}`);
@@ -235,6 +286,19 @@ class RequestSessionManager extends EventEmitter implements ISessionManager {
         }
     }
 
+    /**
+     * Write lines agent-proxy streamed before the response to the command in flight completed.
+     * Resolves once they are flushed, which holds back agent-proxy's next push. The session
+     * stays in its state; the rest of the response still arrives as AGENT_RESPONSE_COMPLETE.
+     */
+    public async handleStreamedLines(lines: string): Promise<void> {
+        if (this.state !== 'SENDING_TO_AGENT' && this.state !== 'WAITING_FOR_AGENT') {
+            log(this.config, `[${this.sessionId}] Ignoring ${lines.length} streamed bytes in state ${this.state}`);
+            return;
+        }
+        await this.writeToClient(lines, `Proxying streamed agent lines: ${sanitizeForLog(lines)}`);
+    }
+
     // ========================================================================
     // Event Handlers - Change state, process data, emit events
     // ========================================================================
@@ -270,6 +334,10 @@ class RequestSessionManager extends EventEmitter implements ISessionManager {
             log(this.config, `[${this.sessionId}] Buffering command, received ${data.length} bytes`);
             this.checkCommandComplete();
         } catch (err) {
+            if (err instanceof AssuanProtocolError) {
+                this.rejectProtocolViolation(err);
+                return;
+            }
             const msg = extractErrorMessage(err);
             this.emit('ERROR_OCCURRED', `Buffer error during CLIENT_DATA_START: ${msg}`);
         }
@@ -288,20 +356,42 @@ class RequestSessionManager extends EventEmitter implements ISessionManager {
                 this.checkInquireComplete();
             }
         } catch (err) {
+            if (err instanceof AssuanProtocolError) {
+                this.rejectProtocolViolation(err);
+                return;
+            }
             const msg = extractErrorMessage(err);
             this.emit('ERROR_OCCURRED', `Buffer error during CLIENT_DATA_PARTIAL: ${msg}`);
         }
     }
 
     private handleClientDataComplete(data: string): void {
+        // Only commands are subject to policy; INQUIRE D-blocks answer an already-approved command
+        const isCommand = this.state === 'BUFFERING_COMMAND';
         this.transition('CLIENT_DATA_COMPLETE');
         log(this.config, `[${this.sessionId}] Data complete: ${sanitizeForLog(data)}`);
 
         // Track first token of last command so BYE can trigger graceful close after OK/ERR response.
-        this.lastCommand = data.split(/\s/, 1)[0].toUpperCase();
+        const { verb, args } = parseCommandLine(data);
+        this.lastCommand = verb;
+        if (isCommand) {
+            this.pendingCommand = verb;
+            this.getInfoWhat = verb === 'GETINFO' ? args.trim().split(/\s+/)[0].toLowerCase() : null;
+        }
+        if (isCommand && verb === 'SETKEYDESC') {
+            // gpg-agent decodes '+' to space, then percent-escapes, in UTF-8
+            this.keyDescription = Buffer.from(percentDecode(args.replace(/\+/g, ' ')), 'latin1').toString('utf-8');
+        }
+        if (!isCommand) {
+            this.logInquiryAnswer(data);
+        }
 
         // Send to agent
-        this.sendToAgent(data);
+        if (isCommand && this.config.commandPolicy) {
+            this.settle(this.sendToAgentWithPolicy(data), 'Send to agent failed');
+        } else {
+            this.settle(this.sendToAgent(data), 'Send to agent failed');
+        }
     }
 
     private handleAgentWriteComplete(): void {
@@ -310,18 +400,35 @@ class RequestSessionManager extends EventEmitter implements ISessionManager {
         log(this.config, `[${this.sessionId}] Write to agent complete, waiting for response`);
     }
 
-    private handleAgentResponseComplete(response: string): void {
+    private async handleAgentResponseComplete(response: string): Promise<void> {
         this.transition('AGENT_RESPONSE_COMPLETE');
         log(this.config, `[${this.sessionId}] Agent response: ${sanitizeForLog(response)}`);
 
-        // Write response to client and emit appropriate event
-        this.writeToClient(response, `Proxying agent response: ${sanitizeForLog(response)}`);
-
         // Determine next event based on response type using shared protocol parser
-        const completion = detectResponseCompletion(response);
-        if (completion.type === 'INQUIRE') {
+        response = this.rewriteGetInfoResponse(response);
+        const { terminal } = parseAssuanResponse(response);
+
+        // Write response to client, then emit the appropriate event once it is flushed so the
+        // session stays in SENDING_TO_CLIENT meanwhile. A passphrase inquiry answered here is
+        // not relayed; status lines before it still are.
+        let written = true;
+        if (terminal?.type === 'INQUIRE' && this.answersPassphraseInquiry(terminal.keyword)) {
+            const statusLines = response.substring(0, response.lastIndexOf('INQUIRE '));
+            if (statusLines) {
+                written = await this.writeToClient(statusLines, `Proxying agent status: ${sanitizeForLog(statusLines)}`);
+            }
+        } else {
+            written = await this.writeToClient(response, `Proxying agent response: ${sanitizeForLog(response)}`);
+        }
+        if (!written) {
+            return;
+        }
+        if (terminal?.type === 'ERR') {
+            log(this.config, `[${this.sessionId}] gpg-agent error ${terminal.value}: ${formatGpgError(terminal.value)} [${decodeGpgError(terminal.value).name}]`);
+        }
+        if (terminal?.type === 'INQUIRE') {
             this.emit('RESPONSE_INQUIRE', response);
-        } else if (completion.type === 'OK' || completion.type === 'ERR') {
+        } else if (terminal?.type === 'OK' || terminal?.type === 'ERR') {
             this.emit('RESPONSE_OK_OR_ERR', response);
         } else {
             // Incomplete or invalid response - should not happen if agent behaves correctly
@@ -332,6 +439,7 @@ class RequestSessionManager extends EventEmitter implements ISessionManager {
 
     private handleResponseOkOrErr(response: string): void {
         this.transition('RESPONSE_OK_OR_ERR');
+        this.pendingCommand = null;
 
         // BYE: gpg-agent closes its TCP socket after sending 'OK closing connection'.
         // Some clients like gpg itself wait for the socket to close before exiting.
@@ -345,6 +453,12 @@ class RequestSessionManager extends EventEmitter implements ISessionManager {
             return;
         }
 
+        // The ERR has been relayed; commands sent on would only fail with Invalid session
+        if (this.agentSessionClosed) {
+            this.emit('ERROR_OCCURRED', 'agent-proxy closed the session after its response');
+            return;
+        }
+
         log(this.config, `[${this.sessionId}] Response OK/ERR processed, returning to READY`);
 
         // Check for pipelined data
@@ -353,7 +467,33 @@ class RequestSessionManager extends EventEmitter implements ISessionManager {
 
     private handleResponseInquire(response: string): void {
         this.transition('RESPONSE_INQUIRE');
-        log(this.config, `[${this.sessionId}] Response contains INQUIRE, waiting for client data`);
+        this.inquireScan = { offset: 0, lineNumber: 1 };
+        const { terminal } = parseAssuanResponse(response);
+        this.pendingInquiry = terminal?.type === 'INQUIRE' ? terminal.keyword : null;
+        if (this.pendingInquiry && this.answersPassphraseInquiry(this.pendingInquiry)) {
+            this.settle(this.answerPassphraseInquiry(this.pendingInquiry as PassphraseInquiry), 'Passphrase inquiry failed');
+            return;
+        }
+        log(this.config, `[${this.sessionId}] Response contains INQUIRE ${this.pendingInquiry ?? ''}, waiting for client data`);
+
+        // dirmngr inquiries come from its own work (key uploads, certificate checks) rather than
+        // from data the client sent, so an unknown keyword usually means a client/server mismatch
+        if (this.config.service === 'dirmngr' && !DIRMNGR_INQUIRE_KEYWORDS.has(this.pendingInquiry ?? '')) {
+            log(this.config, `[${this.sessionId}] Warning: unexpected dirmngr inquiry ${this.pendingInquiry ?? '(none)'}, relaying client answer unchanged`);
+        }
+
+        // The client may have started answering while the INQUIRE was flushing
+        if (this.buffer.length > 0) {
+            try {
+                this.checkInquireComplete();
+            } catch (err) {
+                if (err instanceof AssuanProtocolError) {
+                    this.rejectProtocolViolation(err);
+                    return;
+                }
+                this.emit('ERROR_OCCURRED', `Buffer error during RESPONSE_INQUIRE: ${extractErrorMessage(err)}`);
+            }
+        }
     }
 
     private handleErrorOccurred(error: string): void {
@@ -378,14 +518,26 @@ class RequestSessionManager extends EventEmitter implements ISessionManager {
             .filter(name => !retain.has(name as string))
             .forEach(name => this.removeAllListeners(name));
 
+        // A command still running in gpg-agent (e.g. PKSIGN waiting on pinentry) is cancelled
+        // by agent-proxy; the reason ends up in its log
+        let reason: string | undefined;
+        if (this.pendingCommand) {
+            reason = `${hadError ? 'session error' : 'client disconnected'} during ${this.pendingCommand}`;
+            log(this.config, `[${this.sessionId}] Client went away during ${this.pendingCommand}, asking agent-proxy to cancel it`);
+        }
+
         // Disconnect from agent (sessionId is always set at construction)
         let cleanupError: unknown = null;
-        try {
-            await this.config.commandExecutor.disconnectAgent(this.sessionId);
-            log(this.config, `[${this.sessionId}] Disconnected from agent`);
-        } catch (err) {
-            // socket or session manager may be in unexpected state during cleanup failure
-            cleanupError = err;
+        if (this.agentSessionClosed) {
+            log(this.config, `[${this.sessionId}] Agent session already closed by agent-proxy`);
+        } else {
+            try {
+                await this.config.commandExecutor.disconnectAgent(this.sessionId, reason);
+                log(this.config, `[${this.sessionId}] Disconnected from agent`);
+            } catch (err) {
+                // socket or session manager may be in unexpected state during cleanup failure
+                cleanupError = err;
+            }
         }
         this.buffer = '';
 
@@ -452,7 +604,7 @@ class RequestSessionManager extends EventEmitter implements ISessionManager {
      * If complete, emit CLIENT_DATA_COMPLETE event
      */
     private checkCommandComplete(): void {
-        const result = extractCommand(this.buffer);
+        const result = extractCommand(this.buffer, this.config.maxLineLength ?? DEFAULT_ASSUAN_LIMITS.maxLineLength);
         if (result.extracted) {
             this.buffer = result.remaining;
             this.emit('CLIENT_DATA_COMPLETE', result.extracted);
@@ -460,11 +612,13 @@ class RequestSessionManager extends EventEmitter implements ISessionManager {
     }
 
     /**
-     * Check if buffered inquire data is complete (ends with END\n)
+     * Check if buffered inquire data is complete (ends with an END or CAN line)
      * If complete, emit CLIENT_DATA_COMPLETE event
      */
     private checkInquireComplete(): void {
-        const result = extractInquireBlock(this.buffer);
+        // Resume where the previous chunk left off so large answers are validated once
+        const result = extractInquireBlock(this.buffer, this.config.maxInquireBytes ?? DEFAULT_ASSUAN_LIMITS.maxInquireBytes, this.inquireScan);
+        this.inquireScan = result.position;
         if (result.extracted) {
             this.buffer = result.remaining;
             this.emit('CLIENT_DATA_COMPLETE', result.extracted);
@@ -472,35 +626,228 @@ class RequestSessionManager extends EventEmitter implements ISessionManager {
     }
 
     /**
-     * Send data to agent via command executor
+     * Apply the size limits to data held while a response is flushing. The held data is either
+     * the next command or an INQUIRE answer, so a line without newline may not exceed the line
+     * limit and all of it may not exceed the inquire limit. A client that stops reading its
+     * socket while it keeps writing would otherwise grow the buffer without bound.
      */
-    private async sendToAgent(data: string): Promise<void> {
+    private checkHeldData(): void {
+        const maxLineLength = this.config.maxLineLength ?? DEFAULT_ASSUAN_LIMITS.maxLineLength;
+        const maxInquireBytes = this.config.maxInquireBytes ?? DEFAULT_ASSUAN_LIMITS.maxInquireBytes;
+        if (this.buffer.length - (this.buffer.lastIndexOf('\n') + 1) > maxLineLength) {
+            throw new AssuanProtocolError(`Line exceeds ${maxLineLength} bytes`, GPG_ERR.ASS_LINE_TOO_LONG);
+        }
+        if (this.buffer.length > maxInquireBytes) {
+            throw new AssuanProtocolError(`Held data exceeds ${maxInquireBytes} bytes`, GPG_ERR.ASS_TOO_MUCH_DATA);
+        }
+    }
+
+    /**
+     * Answer client data that breaks Assuan framing or a size limit with ERR, then close the
+     * session. The rest of the data cannot be framed, so the session cannot resynchronize.
+     */
+    private rejectProtocolViolation(err: AssuanProtocolError): void {
+        this.buffer = '';
+        void this.writeToClient(formatProtocolErrorResponse(err), `Rejected client data: ${err.message}`);
+        this.emit('ERROR_OCCURRED', `Protocol violation: ${err.message}`);
+    }
+
+    /**
+     * Log how the client answered the pending INQUIRE. dirmngr clients answer inquiries for
+     * data they do not have (e.g. a missing issuer certificate) with an empty block.
+     * A cancelled block is still relayed so the agent ends the command with ERR.
+     */
+    private logInquiryAnswer(block: string): void {
+        const keyword = this.pendingInquiry ?? 'INQUIRE';
+        this.pendingInquiry = null;
+        if (isInquireCancelled(block)) {
+            log(this.config, `[${this.sessionId}] Client cancelled ${keyword} with CAN`);
+            return;
+        }
+        const dataBytes = block.split('\n')
+            .filter((line) => line.startsWith('D '))
+            .reduce((total, line) => total + line.length - 2, 0);
+        if (dataBytes === 0) {
+            log(this.config, `[${this.sessionId}] Client answered ${keyword} with an empty block`);
+        } else {
+            log(this.config, `[${this.sessionId}] Client answered ${keyword} with ${dataBytes} bytes of escaped data`);
+        }
+    }
+
+    /**
+     * Rewrite GETINFO answers that describe the gpg-agent host instead of this remote:
+     * socket_name and ssh_socket_name return the remote socket paths, pid returns
+     * GETINFO_PID_RESPONSE. Without a running SSH relay there is no remote ssh socket, so
+     * ssh_socket_name returns no value. Error responses and other GETINFO answers pass through unchanged.
+     */
+    private rewriteGetInfoResponse(response: string): string {
+        const what = this.getInfoWhat;
+        if (!what || parseAssuanResponse(response).terminal?.type !== 'OK') {
+            return response;
+        }
+
+        let rewritten: string | null = null;
+        const socketPath = this.config.socketPath;
+        if (what === 'socket_name' && socketPath) {
+            rewritten = socketPath;
+        } else if (what === 'ssh_socket_name' && (this.config.service ?? 'gpg-agent') === 'gpg-agent') {
+            rewritten = this.config.sshSocketPathCallback?.() ?? null;
+            if (rewritten === null) {
+                log(this.config, `[${this.sessionId}] Rewriting GETINFO ssh_socket_name response to no value: the SSH relay is not running`);
+                return 'OK\n';
+            }
+        } else if (what === 'pid') {
+            log(this.config, `[${this.sessionId}] Rewriting GETINFO pid response: agent PID is not on this host`);
+            return GETINFO_PID_RESPONSE;
+        }
+        if (rewritten === null) {
+            return response;
+        }
+        log(this.config, `[${this.sessionId}] Rewriting GETINFO ${what} response to ${rewritten}`);
+        return `D ${percentEncode(Buffer.from(rewritten, 'utf-8').toString('latin1'))}\nOK\n`;
+    }
+
+    /**
+     * Whether a gpg-agent INQUIRE is a loopback passphrase request answered with passphraseCallback
+     */
+    private answersPassphraseInquiry(keyword: string): boolean {
+        return !!this.config.passphraseCallback
+            && (this.config.service ?? 'gpg-agent') === 'gpg-agent'
+            && PASSPHRASE_INQUIRIES.has(keyword);
+    }
+
+    /**
+     * Ask for the passphrase with passphraseCallback and send it to the agent as the INQUIRE answer.
+     * A dismissed prompt cancels the inquiry with CAN, as does a failed send of the answer, which
+     * then ends the session. The passphrase is never logged.
+     */
+    private async answerPassphraseInquiry(keyword: PassphraseInquiry): Promise<void> {
+        log(this.config, `[${this.sessionId}] Response contains INQUIRE ${keyword}, asking for the passphrase`);
+        const description = this.keyDescription;
+        this.keyDescription = null;     // gpg sends SETKEYDESC again before each operation
+
+        let passphrase: string | undefined;
         try {
-            const result = await this.config.commandExecutor.sendCommands(this.sessionId!, data);
+            passphrase = await this.config.passphraseCallback!({ sessionId: this.sessionId, keyword, description });
+        } catch (err) {
+            this.emit('ERROR_OCCURRED', `Passphrase prompt failed: ${extractErrorMessage(err)}`);
+            return;
+        }
 
-            // Emit AGENT_WRITE_COMPLETE event (write successful)
-            this.emit('AGENT_WRITE_COMPLETE');
+        // The client may have disconnected while the prompt was open
+        if (this.state !== 'BUFFERING_INQUIRE') {
+            return;
+        }
+        this.pendingInquiry = null;
+        this.transition('CLIENT_DATA_COMPLETE');
+        if (passphrase === undefined) {
+            log(this.config, `[${this.sessionId}] Passphrase prompt dismissed, cancelling ${keyword}`);
+            await this.sendToAgent('CAN\n');
+            return;
+        }
 
-            // Emit AGENT_RESPONSE_COMPLETE event with response
-            this.emit('AGENT_RESPONSE_COMPLETE', result.response);
+        log(this.config, `[${this.sessionId}] Answering ${keyword} from the passphrase prompt`);
+        let response: string;
+        try {
+            response = await this.requestAgent(encodeInquireData(Buffer.from(passphrase, 'utf-8').toString('latin1')));
         } catch (err) {
             const msg = extractErrorMessage(err);
+            log(this.config, `[${this.sessionId}] Passphrase answer to agent failed, cancelling ${keyword}: ${msg}`);
+            // Best effort: the agent may still be waiting on the inquiry with a partial answer
+            try {
+                await this.config.commandExecutor.sendCommands(this.sessionId!, 'CAN\n');
+            } catch (canErr) {
+                log(this.config, `[${this.sessionId}] CAN after failed passphrase answer failed: ${extractErrorMessage(canErr)}`);
+            }
             this.emit('ERROR_OCCURRED', `Write to agent failed: ${msg}`);
+            return;
         }
+        this.emit('AGENT_WRITE_COMPLETE');
+        this.emit('AGENT_RESPONSE_COMPLETE', response);
     }
 
     /**
-     * Write data to client socket
+     * Send data to agent via command executor. Responses are streamed unless disabled or a
+     * GETINFO answer may need rewriting, which needs the whole response.
      */
-    private writeToClient(data: string, logMessage: string): void {
-        const buffer = encodeProtocolData(data);
-        this.socket.write(buffer, (err) => {
-            if (err) {
-                this.emit('ERROR_OCCURRED', `Write to client failed: ${err.message}`);
-            } else {
-                log(this.config, `[${this.sessionId}] ${logMessage}`);
-                // No AGENT_WRITE_COMPLETE emission - response type events drive state transitions
-            }
+    private async sendToAgent(data: string): Promise<void> {
+        let response: string;
+        try {
+            response = await this.requestAgent(data);
+        } catch (err) {
+            const msg = extractErrorMessage(err);
+            this.emit('ERROR_OCCURRED', `Write to agent failed: ${msg}`);
+            return;
+        }
+
+        // Emit AGENT_WRITE_COMPLETE event (write successful)
+        this.emit('AGENT_WRITE_COMPLETE');
+
+        // Emit AGENT_RESPONSE_COMPLETE event with response
+        this.emit('AGENT_RESPONSE_COMPLETE', response);
+    }
+
+    /**
+     * Send data to the agent and return its response; rejects if the send fails. Notes when
+     * agent-proxy closed the session with the response so the session ends once it is relayed.
+     */
+    private async requestAgent(data: string): Promise<string> {
+        const stream = (this.config.streamResponses ?? true) && !this.getInfoWhat;
+        const result = stream
+            ? await this.config.commandExecutor.sendCommands(this.sessionId!, data, { stream: true })
+            : await this.config.commandExecutor.sendCommands(this.sessionId!, data);
+        if (result.sessionClosed) {
+            log(this.config, `[${this.sessionId}] agent-proxy closed the session after this response`);
+            this.agentSessionClosed = true;
+        }
+        return result.response;
+    }
+
+    /**
+     * Apply command policy, then send allowed commands to agent.
+     * Denied commands are answered locally with a synthesized ERR; the agent never sees them.
+     */
+    private async sendToAgentWithPolicy(data: string): Promise<void> {
+        const allowed = await enforceCommandPolicy(this.config, this.sessionId, data);
+        if (allowed) {
+            await this.sendToAgent(data);
+            return;
+        }
+
+        // Drive the same SENDING_TO_AGENT → WAITING_FOR_AGENT → SENDING_TO_CLIENT flow
+        // as a real agent round-trip so state handling stays identical
+        log(this.config, `[${this.sessionId}] Command rejected by policy, responding to client without agent`);
+        this.emit('AGENT_WRITE_COMPLETE');
+        this.emit('AGENT_RESPONSE_COMPLETE', POLICY_DENIED_RESPONSE);
+    }
+
+    /**
+     * Run an async step started from an event handler. A rejection ends the session through
+     * ERROR_OCCURRED; once the session is closing, its listeners are gone and nothing happens.
+     */
+    private settle(operation: Promise<void>, context: string): void {
+        operation.catch((err: unknown) => {
+            this.emit('ERROR_OCCURRED', `${context}: ${extractErrorMessage(err)}`);
+        });
+    }
+
+    /**
+     * Write data to client socket, respecting backpressure
+     *
+     * @returns true once the data is flushed; false if the write failed (ERROR_OCCURRED emitted)
+     */
+    private writeToClient(data: string, logMessage: string): Promise<boolean> {
+        return new Promise((resolve) => {
+            writeWithBackpressure(this.socket, encodeProtocolData(data), (err) => {
+                if (err) {
+                    this.emit('ERROR_OCCURRED', `Write to client failed: ${err.message}`);
+                    resolve(false);
+                } else {
+                    log(this.config, `[${this.sessionId}] ${logMessage}`);
+                    // No AGENT_WRITE_COMPLETE emission - response type events drive state transitions
+                    resolve(true);
+                }
+            });
         });
     }
 
@@ -509,11 +856,20 @@ class RequestSessionManager extends EventEmitter implements ISessionManager {
      */
     private checkPipelinedData(): void {
         if (this.buffer.length > 0) {
-            // Use shared command extraction to check for complete command
-            const result = extractCommand(this.buffer);
-            if (result.extracted) {
-                // Have complete command, emit CLIENT_DATA_START to process it
-                this.emit('CLIENT_DATA_START', Buffer.from([])); // Empty buffer since data already in this.buffer
+            // Use shared command extraction to check for complete command, with the same line
+            // limit as data received in READY
+            try {
+                const result = extractCommand(this.buffer, this.config.maxLineLength ?? DEFAULT_ASSUAN_LIMITS.maxLineLength);
+                if (result.extracted) {
+                    // Have complete command, emit CLIENT_DATA_START to process it
+                    this.emit('CLIENT_DATA_START', Buffer.from([])); // Empty buffer since data already in this.buffer
+                }
+            } catch (err) {
+                if (err instanceof AssuanProtocolError) {
+                    this.rejectProtocolViolation(err);
+                    return;
+                }
+                throw err;
             }
         }
     }
@@ -548,6 +904,7 @@ class RequestSessionManager extends EventEmitter implements ISessionManager {
  *
  * **Flow (start):**
  * 1. Detects GPG socket path via `gpgconf --list-dirs agent-socket`
+ *    (`dirmngr-socket` or `keyboxd-socket` when config.service selects those)
  * 2. Creates Unix socket server at detected path
  * 3. Sets socket permissions to 0o666 (world-writable for GPG access)
  * 4. Starts listening; each connection mints a UUID and creates a
@@ -583,10 +940,12 @@ export class RequestProxy {
 
     constructor(config: RequestProxyConfig, deps?: RequestProxyDeps) {
         this.config = config;
-        this.commandExecutor = deps?.commandExecutor ?? new VSCodeCommandExecutor();
+        this.commandExecutor = deps?.commandExecutor ?? new VSCodeCommandExecutor(config.service);
         this.serverFactory = deps?.serverFactory ?? { createServer: net.createServer };
         this.fileSystem = deps?.fileSystem ?? { existsSync: fs.existsSync, readFileSync: fs.readFileSync, mkdirSync: fs.mkdirSync, chmodSync: fs.chmodSync, unlinkSync: fs.unlinkSync };
-        this.getSocketPathFn = deps?.getSocketPath ?? getLocalGpgSocketPath;
+        this.getSocketPathFn = deps?.getSocketPath ?? (config.service && config.service !== 'gpg-agent'
+            ? () => getLocalComponentSocketPath(`${config.service}-socket`)
+            : getLocalGpgSocketPath);
         this.usingMocks = !!(deps?.serverFactory || deps?.fileSystem);
     }
 
@@ -599,6 +958,21 @@ export class RequestProxy {
     /** Number of active client sessions */
     getSessionCount(): number { return this.sessions.size; }
 
+    /**
+     * Forward lines agent-proxy streamed for a session to its client.
+     * Called by `_gpg-bridge-request.receiveResponseLines`.
+     *
+     * @returns false if the session does not belong to this proxy
+     */
+    async receiveResponseLines(sessionId: string, lines: string): Promise<boolean> {
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            return false;
+        }
+        await session.handleStreamedLines(lines);
+        return true;
+    }
+
     /**
      * Start the request proxy server.
      *
@@ -609,13 +983,15 @@ export class RequestProxy {
         const fullConfig: RequestProxyConfigWithExecutor = {
             ...this.config,
             commandExecutor: this.commandExecutor,
+            socketPath: null,
         };
 
         log(fullConfig, `[RequestProxy.start] using mocked deps: ${this.usingMocks}`);
 
         const socketPath = await this.getSocketPathFn();
         if (!socketPath) {
-            throw new Error('Could not determine local GPG socket path. Is gpg installed? Try: gpgconf --list-dirs');
+            const dir = this.config.service && this.config.service !== 'gpg-agent' ? ` ${this.config.service}-socket` : '';
+            throw new Error(`Could not determine local GPG socket path. Is gpg installed? Try: gpgconf --list-dirs${dir}`);
         }
 
         // Ensure parent directory exists
@@ -626,6 +1002,7 @@ export class RequestProxy {
         }
 
         this._socketPath = socketPath;
+        fullConfig.socketPath = socketPath;
 
         // Create the Unix socket server
         const server = this.serverFactory.createServer({ pauseOnConnect: true }, (clientSocket) => {
@@ -804,3 +1181,28 @@ async function getLocalGpgSocketPath(): Promise<string | null> {
         }
     });
 }
+
+/**
+ * Get the local dirmngr or keyboxd socket path by querying gpgconf and remove a stale socket there.
+ * A daemon running in the remote would own the socket; stop it first with
+ * `gpgconf --kill dirmngr` (or keyboxd) to use the Windows daemon instead.
+ */
+async function getLocalComponentSocketPath(dir: string): Promise<string | null> {
+    try {
+        const result = spawnSync('gpgconf', ['--list-dirs', dir], {
+            encoding: 'utf-8',
+            timeout: 5000
+        });
+        const socketPath = result.status === 0 ? (result.stdout.trim() || null) : null;
+        if (socketPath && fs.existsSync(socketPath)) {
+            try {
+                fs.unlinkSync(socketPath);
+            } catch {
+                // Ignore - socket may be in use
+            }
+        }
+        return socketPath;
+    } catch {
+        return null;
+    }
+}
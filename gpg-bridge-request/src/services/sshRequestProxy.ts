@@ -0,0 +1,281 @@
+/**
+ * SSH Request Proxy Service
+ *
+ * Creates a Unix socket server for SSH_AUTH_SOCK and relays the OpenSSH agent protocol
+ * to gpg-agent's SSH support on the Windows host via the agent-proxy extension.
+ *
+ * The SSH agent protocol is binary and strictly request/response: the client sends one
+ * length-prefixed message and waits for one length-prefixed answer. Each client connection
+ * gets its own agent-proxy session and relays its requests one at a time.
+ */
+
+import * as net from 'net';
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { v4 as uuidv4 } from 'uuid';
+import { log, encodeProtocolData, decodeProtocolData, extractErrorMessage, cleanupSocket, extractSshMessage, describeSshMessage, writeWithBackpressure } from '@gpg-bridge/shared';
+import type { LogConfig, ISshCommandExecutor, IFileSystem, IServerFactory } from '@gpg-bridge/shared';
+import { VSCodeCommandExecutor } from './commandExecutor';
+
+export interface SshRequestProxyConfig extends LogConfig {
+    // commandExecutor is injected via deps, not provided here
+}
+
+export interface SshRequestProxyDeps {
+    commandExecutor?: ISshCommandExecutor;  // Optional for testing/injection; defaults to VSCodeCommandExecutor
+    serverFactory?: IServerFactory;
+    fileSystem?: IFileSystem;
+    getSocketPath?: () => Promise<string | null>;
+}
+
+/**
+ * Relay for a single SSH client connection
+ */
+class SshRequestSession {
+    private buffer = '';
+    private connected = false;      // agent-proxy session exists and must be disconnected
+    private busy = false;           // A request is being relayed; later requests wait in the buffer
+    private closed = false;
+
+    constructor(
+        public readonly sessionId: string,
+        private readonly socket: net.Socket,
+        private readonly config: LogConfig,
+        private readonly commandExecutor: ISshCommandExecutor,
+        private readonly onClosed: () => void
+    ) {
+        socket.once('close', () => {
+            log(this.config, `[${this.sessionId}] SSH client socket closed`);
+            void this.close();
+        });
+        socket.once('error', (err: Error) => {
+            // 'close' follows and triggers cleanup
+            log(this.config, `[${this.sessionId}] SSH client socket error: ${err.message}`);
+        });
+        socket.on('readable', () => {
+            let chunk: Buffer | null;
+            while ((chunk = socket.read()) !== null) {
+                this.buffer += decodeProtocolData(chunk);
+            }
+            void this.relayPending();
+        });
+    }
+
+    /**
+     * Open the agent-proxy session, then resume the paused client socket
+     */
+    public async start(): Promise<void> {
+        try {
+            await this.commandExecutor.connectSshAgent(this.sessionId);
+            this.connected = true;
+            log(this.config, `[${this.sessionId}] Connected to gpg-agent SSH socket`);
+        } catch (err) {
+            log(this.config, `[${this.sessionId}] SSH agent connect failed: ${extractErrorMessage(err)}`);
+            await this.close();
+            return;
+        }
+        if (!this.closed) {
+            this.socket.resume();
+            void this.relayPending();
+        }
+    }
+
+    /**
+     * Relay complete buffered requests in order, one at a time. The next request is only
+     * relayed once the previous response is flushed to a client that may be reading slowly.
+     */
+    private async relayPending(): Promise<void> {
+        while (!this.busy && !this.closed && this.connected) {
+            let message: string | null;
+            try {
+                const extraction = extractSshMessage(this.buffer);
+                message = extraction.extracted;
+                this.buffer = extraction.remaining;
+            } catch (err) {
+                log(this.config, `[${this.sessionId}] ${extractErrorMessage(err)}`);
+                await this.close();
+                return;
+            }
+            if (!message) {
+                return;
+            }
+
+            this.busy = true;
+            try {
+                log(this.config, `[${this.sessionId}] SSH request: ${describeSshMessage(message)}`);
+                const { response } = await this.commandExecutor.sendSshRequest(this.sessionId, message);
+                if (!this.closed) {
+                    await this.writeToClient(response);
+                }
+            } catch (err) {
+                log(this.config, `[${this.sessionId}] SSH request failed: ${extractErrorMessage(err)}`);
+                await this.close();
+                return;
+            } finally {
+                this.busy = false;
+            }
+        }
+    }
+
+    /**
+     * Write a response to the client and resolve once it is flushed
+     */
+    private writeToClient(response: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            writeWithBackpressure(this.socket, encodeProtocolData(response), (err) => {
+                if (err) {
+                    reject(new Error(`Write to client failed: ${err.message}`));
+                    return;
+                }
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Disconnect from agent-proxy and destroy the client socket. Safe to call more than once.
+     */
+    public async close(): Promise<void> {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        if (this.connected) {
+            this.connected = false;
+            try {
+                await this.commandExecutor.disconnectSshAgent(this.sessionId);
+            } catch (err) {
+                log(this.config, `[${this.sessionId}] SSH agent disconnect failed: ${extractErrorMessage(err)}`);
+            }
+        }
+        cleanupSocket(this.socket, this.config, this.sessionId);
+        this.onClosed();
+    }
+}
+
+/**
+ * SshRequestProxy - serves SSH_AUTH_SOCK in the remote
+ *
+ * Mirrors RequestProxy: start() binds a Unix socket server, each connection mints a UUID
+ * shared with agent-proxy for logging, and stop() closes every session and removes the
+ * socket file. The socket is only accessible by the current user, like ssh-agent's.
+ */
+export class SshRequestProxy {
+    private readonly config: SshRequestProxyConfig;
+    private readonly commandExecutor: ISshCommandExecutor;
+    private readonly serverFactory: IServerFactory;
+    private readonly fileSystem: IFileSystem;
+    private readonly getSocketPathFn: () => Promise<string | null>;
+    private sessions: Map<string, SshRequestSession> = new Map();
+    private server: net.Server | null = null;
+    private _socketPath: string | null = null;
+
+    constructor(config: SshRequestProxyConfig, deps?: SshRequestProxyDeps) {
+        this.config = config;
+        this.commandExecutor = deps?.commandExecutor ?? new VSCodeCommandExecutor();
+        this.serverFactory = deps?.serverFactory ?? { createServer: net.createServer };
+        this.fileSystem = deps?.fileSystem ?? { existsSync: fs.existsSync, readFileSync: fs.readFileSync, mkdirSync: fs.mkdirSync, chmodSync: fs.chmodSync, unlinkSync: fs.unlinkSync };
+        this.getSocketPathFn = deps?.getSocketPath ?? getLocalSshSocketPath;
+    }
+
+    /** Socket path this proxy is listening on, or null if not started */
+    getSocketPath(): string | null { return this._socketPath; }
+
+    /** Number of active client sessions */
+    getSessionCount(): number { return this.sessions.size; }
+
+    /**
+     * Start the SSH request proxy server.
+     *
+     * Resolves when the server is bound and listening. Rejects if the socket path
+     * cannot be determined, the socket is already in use, or permissions fail.
+     */
+    async start(): Promise<void> {
+        const socketPath = await this.getSocketPathFn();
+        if (!socketPath) {
+            throw new Error('Could not determine local SSH agent socket path. Is gpg installed? Try: gpgconf --list-dirs agent-ssh-socket');
+        }
+
+        log(this.config, `Creating SSH agent socket server at ${socketPath}`);
+        const socketDir = path.dirname(socketPath);
+        if (!this.fileSystem.existsSync(socketDir)) {
+            this.fileSystem.mkdirSync(socketDir, { recursive: true, mode: 0o700 });
+        }
+        this._socketPath = socketPath;
+
+        const server = this.serverFactory.createServer({ pauseOnConnect: true }, (clientSocket) => {
+            const sessionId = uuidv4();
+            const session = new SshRequestSession(sessionId, clientSocket, this.config, this.commandExecutor, () => {
+                this.sessions.delete(sessionId);
+            });
+            this.sessions.set(sessionId, session);
+            log(this.config, `[${sessionId}] SSH client connected. Socket is paused while connecting to GPG Bridge Agent`);
+            void session.start();
+        });
+        this.server = server;
+
+        server.on('error', (err: Error) => {
+            log(this.config, `SSH socket server error: ${err.message}`);
+        });
+
+        return new Promise((resolve, reject) => {
+            server.listen(socketPath, () => {
+                try {
+                    this.fileSystem.chmodSync(socketPath, 0o600);
+                } catch (err) {
+                    log(this.config, `Warning: could not chmod SSH socket: ${err}`);
+                }
+                log(this.config, 'SSH request proxy listening');
+                resolve();
+            });
+            server.once('error', reject);
+        });
+    }
+
+    /**
+     * Stop the server, close all sessions, and remove the socket file
+     */
+    async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) {
+            return;
+        }
+        this.server = null;
+
+        const closing = Promise.all([...this.sessions.values()].map((session) => session.close()));
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+        await closing;
+        if (this._socketPath) {
+            try {
+                this.fileSystem.unlinkSync(this._socketPath);
+            } catch {
+                // Ignore
+            }
+        }
+        log(this.config, 'SSH request proxy stopped');
+    }
+}
+
+/**
+ * Get the local SSH agent socket path by querying gpgconf and remove a stale socket there
+ */
+async function getLocalSshSocketPath(): Promise<string | null> {
+    try {
+        const result = spawnSync('gpgconf', ['--list-dirs', 'agent-ssh-socket'], {
+            encoding: 'utf-8',
+            timeout: 5000
+        });
+        const socketPath = result.status === 0 ? (result.stdout.trim() || null) : null;
+        if (socketPath && fs.existsSync(socketPath)) {
+            try {
+                fs.unlinkSync(socketPath);
+            } catch {
+                // Ignore - socket may be in use
+            }
+        }
+        return socketPath;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,73 @@
+/**
+ * Unit Tests: Public Key Sync Service
+ *
+ * Tests PublicKeySync with a mocked agent-proxy export and mocked gpg.
+ */
+
+import { expect } from 'chai';
+import { PublicKeySync } from '../services/publicKeySync';
+import type { PublicKeySyncConfig } from '../services/publicKeySync';
+import type { IPublicKeyExporter } from '@gpg-bridge/shared';
+import { MockLogConfig } from '@gpg-bridge/shared/test';
+
+describe('PublicKeySync', () => {
+    const fpr = 'AAAABBBBCCCCDDDDEEEEFFFF0000111122223333';
+    const armored = '-----BEGIN PGP PUBLIC KEY BLOCK-----\n...\n-----END PGP PUBLIC KEY BLOCK-----\n';
+    let mockLogConfig: MockLogConfig;
+    let exported: { fingerprints: string[]; armored: string };
+    let gpgCalls: { args: string[]; input: string }[];
+    let gpgStatus: number;
+
+    const exporter: IPublicKeyExporter = {
+        exportPublicKeys: async () => exported
+    };
+
+    const createSync = (config: Partial<PublicKeySyncConfig> = {}) => new PublicKeySync({ logCallback: mockLogConfig.logCallback, ...config }, {
+        exporter,
+        runGpg: (args, input) => {
+            gpgCalls.push({ args, input });
+            return { status: gpgStatus, stderr: gpgStatus === 0 ? '' : 'gpg: no valid OpenPGP data found.\n' };
+        }
+    });
+
+    beforeEach(() => {
+        mockLogConfig = new MockLogConfig();
+        exported = { fingerprints: [fpr], armored };
+        gpgCalls = [];
+        gpgStatus = 0;
+    });
+
+    it('should import the exported keys without changing owner trust by default', async () => {
+        const fingerprints = await createSync().sync();
+
+        expect(fingerprints).to.deep.equal([fpr]);
+        expect(gpgCalls).to.deep.equal([{ args: ['--batch', '--import'], input: armored }]);
+        expect(mockLogConfig.hasLog('Imported 1 public key')).to.be.true;
+    });
+
+    it('should set owner trust when configured', async () => {
+        await createSync({ ownertrust: 'ultimate' }).sync();
+
+        expect(gpgCalls[1]).to.deep.equal({ args: ['--batch', '--import-ownertrust'], input: `${fpr}:6:\n` });
+    });
+
+    it('should not run gpg when there are no keys to import', async () => {
+        exported = { fingerprints: [], armored: '' };
+
+        const fingerprints = await createSync({ ownertrust: 'full' }).sync();
+
+        expect(fingerprints).to.deep.equal([]);
+        expect(gpgCalls).to.have.length(0);
+    });
+
+    it('should report gpg import failures with stderr', async () => {
+        gpgStatus = 2;
+
+        try {
+            await createSync().sync();
+            expect.fail('Should have thrown');
+        } catch (error) {
+            expect((error as Error).message).to.equal('gpg --import failed: gpg: no valid OpenPGP data found.');
+        }
+    });
+});
@@ -6,7 +6,9 @@
  */
 
 import { expect } from 'chai';
-import { RequestProxy } from '../services/requestProxy';
+import { RequestProxy, GETINFO_PID_RESPONSE } from '../services/requestProxy';
+import type { PassphraseRequest, RequestProxyConfig } from '../services/requestProxy';
+import { DEFAULT_COMMAND_POLICY, POLICY_DENIED_RESPONSE, encodeInquireData, percentEncode } from '@gpg-bridge/shared';
 import { MockCommandExecutor, MockServerFactory, MockFileSystem, MockSocket, MockLogConfig } from '@gpg-bridge/shared/test';
 
 describe('RequestProxy', () => {
@@ -1243,7 +1245,8 @@ describe('RequestProxy', () => {
             };
             mockCommandExecutor.setSendCommandsResponse('OK\n');
 
-            const instance = new RequestProxy({ logCallback: mockLogConfig.logCallback }, createMockDeps());
+            // Longer than Assuan's 1000-byte line limit, so raise maxLineLength
+            const instance = new RequestProxy({ logCallback: mockLogConfig.logCallback, maxLineLength: 8192 }, createMockDeps());
             await instance.start();
 
             const server = mockServerFactory.getServers()[0];
@@ -1476,14 +1479,14 @@ describe('RequestProxy', () => {
             clientSocket.simulateDataReceived(Buffer.from('CMD\n', 'latin1'));
             await new Promise((resolve) => setTimeout(resolve, 10));
 
-            // Send D-block with all byte values
+            // Send D-block with all byte values (%, CR, and LF percent-escaped as Assuan requires)
             const binaryData = Buffer.alloc(256);
             for (let i = 0; i < 256; i++) {
                 binaryData[i] = i;
             }
             const dBlock = Buffer.concat([
                 Buffer.from('D ', 'latin1'),
-                binaryData,
+                Buffer.from(percentEncode(binaryData.toString('latin1')), 'latin1'),
                 Buffer.from('\nEND\n', 'latin1')
             ]);
 
@@ -1613,9 +1616,8 @@ describe('RequestProxy', () => {
             clientSocket.simulateDataReceived(Buffer.from('CMD\n', 'latin1'));
             await new Promise((resolve) => setTimeout(resolve, 10));
 
-            // Send 2MB D-block
-            const largeData = 'A'.repeat(2 * 1024 * 1024);
-            const largeDBlock = `D ${largeData}\nEND\n`;
+            // Send 2MB D-block in maximum-length D lines
+            const largeDBlock = encodeInquireData('A'.repeat(2 * 1024 * 1024));
 
             mockCommandExecutor.setSendCommandsResponse('OK\n');
             clientSocket.simulateDataReceived(Buffer.from(largeDBlock, 'latin1'));
@@ -2155,6 +2157,30 @@ describe('RequestProxy', () => {
             await instance.stop();
         });
 
+        it('should log decoded gpg-error for ERR response', async () => {
+            mockCommandExecutor.connectAgentResponse = {
+                sessionId: 'test-session',
+                greeting: 'OK\n'
+            };
+
+            const instance = new RequestProxy({ logCallback: mockLogConfig.logCallback }, createMockDeps());
+            await instance.start();
+
+            const server = mockServerFactory.getServers()[0];
+            const clientSocket = server.simulateClientConnection();
+
+            await new Promise((resolve) => setTimeout(resolve, 20));
+
+            mockCommandExecutor.setSendCommandsResponse('ERR 67108963 Operation cancelled <GPG Agent>\n');
+            clientSocket.simulateDataReceived(Buffer.from('PKSIGN\n', 'latin1'));
+
+            await new Promise((resolve) => setTimeout(resolve, 20));
+
+            expect(mockLogConfig.hasLog(/Operation cancelled \(gpg-agent\) \[GPG_ERR_CANCELED\]/)).to.be.true;
+
+            await instance.stop();
+        });
+
         it('should not trigger INQUIRE detection for ERR response', async () => {
             mockCommandExecutor.connectAgentResponse = {
                 sessionId: 'test-session',
@@ -2296,14 +2322,14 @@ describe('RequestProxy', () => {
 
             await new Promise((resolve) => setTimeout(resolve, 20));
 
-            // Send D-block with all byte values 0-255
+            // Send D-block with all byte values 0-255 (%, CR, and LF percent-escaped)
             const binaryData = Buffer.alloc(256);
             for (let i = 0; i < 256; i++) {
                 binaryData[i] = i;
             }
             const dblock = Buffer.concat([
                 Buffer.from('D ', 'latin1'),
-                binaryData,
+                Buffer.from(percentEncode(binaryData.toString('latin1')), 'latin1'),
                 Buffer.from('\nEND\n', 'latin1')
             ]);
 
@@ -2453,6 +2479,142 @@ describe('RequestProxy', () => {
 
             await instance.stop();
         });
+
+        it('should relay a CAN split across chunks and return to READY', async () => {
+            mockCommandExecutor.connectAgentResponse = {
+                sessionId: 'test-session',
+                greeting: 'OK\n'
+            };
+
+            const instance = new RequestProxy({ logCallback: mockLogConfig.logCallback }, createMockDeps());
+            await instance.start();
+
+            const clientSocket = mockServerFactory.getServers()[0].simulateClientConnection();
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            clientSocket.clearData();
+
+            mockCommandExecutor.setSendCommandsResponse('INQUIRE CIPHERTEXT\n');
+            clientSocket.simulateDataReceived(Buffer.from('PKDECRYPT\n', 'latin1'));
+            await new Promise((resolve) => setTimeout(resolve, 20));
+
+            // Client gives up partway through its answer; SCAN in data is not a terminator
+            mockCommandExecutor.setSendCommandsResponse('ERR 67108963 Operation cancelled <GPG Agent>\n');
+            clientSocket.simulateDataReceived(Buffer.from('D (7:enc-val SCAN\nCA', 'latin1'));
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            expect(mockCommandExecutor.getCallCount('sendCommands')).to.equal(1);
+
+            clientSocket.simulateDataReceived(Buffer.from('N\n', 'latin1'));
+            await new Promise((resolve) => setTimeout(resolve, 20));
+
+            expect(mockCommandExecutor.getCallArgs('sendCommands', 1)[1]).to.equal('D (7:enc-val SCAN\nCAN\n');
+            expect(mockLogConfig.hasLog('Client cancelled CIPHERTEXT with CAN')).to.be.true;
+
+            // Session accepts the next command
+            mockCommandExecutor.setSendCommandsResponse('OK\n');
+            clientSocket.simulateDataReceived(Buffer.from('NOP\n', 'latin1'));
+            await new Promise((resolve) => setTimeout(resolve, 20));
+
+            expect(mockCommandExecutor.getCallArgs('sendCommands', 2)[1]).to.equal('NOP\n');
+            expect(clientSocket.getWrittenData().toString('latin1')).to.equal(
+                'INQUIRE CIPHERTEXT\nERR 67108963 Operation cancelled <GPG Agent>\nOK\n'
+            );
+
+            await instance.stop();
+        });
+
+        it('should relay a CAN answering a nested INQUIRE', async () => {
+            mockCommandExecutor.connectAgentResponse = {
+                sessionId: 'test-session',
+                greeting: 'OK\n'
+            };
+
+            const instance = new RequestProxy({ logCallback: mockLogConfig.logCallback }, createMockDeps());
+            await instance.start();
+
+            const clientSocket = mockServerFactory.getServers()[0].simulateClientConnection();
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            clientSocket.clearData();
+
+            mockCommandExecutor.setSendCommandsResponse('INQUIRE KEYPWD prompt1\n');
+            clientSocket.simulateDataReceived(Buffer.from('PASSWD\n', 'latin1'));
+            await new Promise((resolve) => setTimeout(resolve, 20));
+
+            mockCommandExecutor.setSendCommandsResponse('INQUIRE CONFIRM confirm\n');
+            clientSocket.simulateDataReceived(Buffer.from('D pass\nEND\n', 'latin1'));
+            await new Promise((resolve) => setTimeout(resolve, 20));
+
+            mockCommandExecutor.setSendCommandsResponse('ERR 67108963 Operation cancelled <GPG Agent>\n');
+            clientSocket.simulateDataReceived(Buffer.from('CAN\n', 'latin1'));
+            await new Promise((resolve) => setTimeout(resolve, 20));
+
+            expect(mockCommandExecutor.getCallArgs('sendCommands', 2)[1]).to.equal('CAN\n');
+            expect(mockLogConfig.hasLog('Client answered KEYPWD with 4 bytes of escaped data')).to.be.true;
+            expect(mockLogConfig.hasLog('Client cancelled CONFIRM with CAN')).to.be.true;
+            expect(clientSocket.getWrittenData().toString('latin1')).to.equal(
+                'INQUIRE KEYPWD prompt1\nINQUIRE CONFIRM confirm\nERR 67108963 Operation cancelled <GPG Agent>\n'
+            );
+
+            await instance.stop();
+        });
+        it('should answer malformed INQUIRE data with ERR and close the session', async () => {
+            mockCommandExecutor.connectAgentResponse = {
+                sessionId: 'test-session',
+                greeting: 'OK\n'
+            };
+
+            const instance = new RequestProxy({ logCallback: mockLogConfig.logCallback }, createMockDeps());
+            await instance.start();
+
+            const clientSocket = mockServerFactory.getServers()[0].simulateClientConnection();
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            clientSocket.clearData();
+
+            mockCommandExecutor.setSendCommandsResponse('INQUIRE KEYPWD prompt\n');
+            clientSocket.simulateDataReceived(Buffer.from('PASSWD\n', 'latin1'));
+            await new Promise((resolve) => setTimeout(resolve, 20));
+
+            // A command instead of D lines; its APPEND-like END suffix must not end the block either
+            clientSocket.simulateDataReceived(Buffer.from('D APPEND\nGETINFO version\nEND\n', 'latin1'));
+            await new Promise((resolve) => setTimeout(resolve, 20));
+
+            expect(mockCommandExecutor.getCallCount('sendCommands')).to.equal(1);
+            expect(clientSocket.getWrittenData().toString('latin1')).to.equal(
+                'INQUIRE KEYPWD prompt\nERR 67109138 Unexpected IPC command <GPG Agent>\n'
+            );
+            expect(mockLogConfig.hasLog('Protocol violation: Invalid INQUIRE data: line 2 is not a D, END, or CAN line')).to.be.true;
+            expect(mockCommandExecutor.getCallCount('disconnectAgent')).to.equal(1);
+            expect(instance.getSessionCount()).to.equal(0);
+
+            await instance.stop();
+        });
+
+        it('should reject an INQUIRE line over the Assuan limit before it completes', async () => {
+            mockCommandExecutor.connectAgentResponse = {
+                sessionId: 'test-session',
+                greeting: 'OK\n'
+            };
+
+            const instance = new RequestProxy({ logCallback: mockLogConfig.logCallback }, createMockDeps());
+            await instance.start();
+
+            const clientSocket = mockServerFactory.getServers()[0].simulateClientConnection();
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            clientSocket.clearData();
+
+            mockCommandExecutor.setSendCommandsResponse('INQUIRE CIPHERTEXT\n');
+            clientSocket.simulateDataReceived(Buffer.from('PKDECRYPT\n', 'latin1'));
+            await new Promise((resolve) => setTimeout(resolve, 20));
+
+            clientSocket.simulateDataReceived(Buffer.from(`D ${'x'.repeat(1000)}`, 'latin1'));
+            await new Promise((resolve) => setTimeout(resolve, 20));
+
+            expect(clientSocket.getWrittenData().toString('latin1')).to.equal(
+                'INQUIRE CIPHERTEXT\nERR 67109127 Line passed to IPC too long <GPG Agent>\n'
+            );
+            expect(instance.getSessionCount()).to.equal(0);
+
+            await instance.stop();
+        });
     });
 
     describe('Phase 7c: Response Processing', () => {
@@ -3464,5 +3626,863 @@ describe('RequestProxy', () => {
         });
     });
 
+    describe('Command Policy', () => {
+        const connectClient = async (config: Partial<RequestProxyConfig>) => {
+            mockCommandExecutor.connectAgentResponse = {
+                sessionId: 'test-policy',
+                greeting: 'OK GPG-Agent 2.4.8\n'
+            };
+            const instance = new RequestProxy({ logCallback: mockLogConfig.logCallback, ...config }, createMockDeps());
+            await instance.start();
+            const clientSocket = mockServerFactory.getServers()[0].simulateClientConnection();
+            await new Promise(resolve => setTimeout(resolve, 20));
+            clientSocket.clearData();
+            return { instance, clientSocket };
+        };
+
+        it('should answer denied commands locally without contacting the agent', async () => {
+            const { instance, clientSocket } = await connectClient({ commandPolicy: DEFAULT_COMMAND_POLICY });
+
+            clientSocket.simulateDataReceived(Buffer.from('DELETE_KEY D27BB288411333745EE1B194FBC6162A92775BA4\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 30));
+
+            expect(mockCommandExecutor.getCallCount('sendCommands')).to.equal(0);
+            expect(clientSocket.getWrittenData().toString('latin1')).to.equal(POLICY_DENIED_RESPONSE);
+            expect(mockLogConfig.hasLog('Policy denied command DELETE_KEY')).to.be.true;
+
+            await instance.stop();
+        });
+
+        it('should return to READY after a denied command and process the next one', async () => {
+            mockCommandExecutor.setSendCommandsResponse('D 2.4.8\nOK\n');
+            const { instance, clientSocket } = await connectClient({ commandPolicy: DEFAULT_COMMAND_POLICY });
+
+            clientSocket.simulateDataReceived(Buffer.from('EXPORT_KEY ABCDEF\nGETINFO version\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 50));
+
+            expect(mockCommandExecutor.getCallCount('sendCommands')).to.equal(1);
+            expect(mockCommandExecutor.getCallArgs('sendCommands')[1]).to.equal('GETINFO version\n');
+            expect(clientSocket.getWrittenData().toString('latin1')).to.equal(POLICY_DENIED_RESPONSE + 'D 2.4.8\nOK\n');
+
+            await instance.stop();
+        });
+
+        it('should forward allowed commands unchanged', async () => {
+            const { instance, clientSocket } = await connectClient({ commandPolicy: DEFAULT_COMMAND_POLICY });
+
+            clientSocket.simulateDataReceived(Buffer.from('GETINFO version\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 30));
+
+            expect(mockCommandExecutor.getCallArgs('sendCommands')[1]).to.equal('GETINFO version\n');
+
+            await instance.stop();
+        });
+
+        it('should enforce argument patterns such as keygrip allowlists', async () => {
+            const { instance, clientSocket } = await connectClient({
+                commandPolicy: {
+                    defaultAction: 'allow',
+                    rules: [
+                        { command: 'SIGKEY', args: '^D27BB288411333745EE1B194FBC6162A92775BA4$', action: 'allow' },
+                        { command: 'SIGKEY', action: 'deny' }
+                    ]
+                }
+            });
+
+            clientSocket.simulateDataReceived(Buffer.from('SIGKEY 0123456789ABCDEF0123456789ABCDEF01234567\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 30));
+            expect(mockCommandExecutor.getCallCount('sendCommands')).to.equal(0);
+
+            clientSocket.simulateDataReceived(Buffer.from('SIGKEY D27BB288411333745EE1B194FBC6162A92775BA4\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 30));
+            expect(mockCommandExecutor.getCallCount('sendCommands')).to.equal(1);
+
+            await instance.stop();
+        });
+
+        it('should ask for confirmation and forward approved commands', async () => {
+            const confirmed: string[] = [];
+            const { instance, clientSocket } = await connectClient({
+                commandPolicy: { defaultAction: 'allow', rules: [{ command: 'PKSIGN', action: 'confirm' }] },
+                confirmCommandCallback: async (sessionId, decision) => {
+                    confirmed.push(decision.verb);
+                    return true;
+                }
+            });
+
+            clientSocket.simulateDataReceived(Buffer.from('PKSIGN\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 30));
+
+            expect(confirmed).to.deep.equal(['PKSIGN']);
+            expect(mockCommandExecutor.getCallArgs('sendCommands')[1]).to.equal('PKSIGN\n');
+
+            await instance.stop();
+        });
+
+        it('should not apply policy to INQUIRE D-blocks', async () => {
+            mockCommandExecutor.setSendCommandsResponse('INQUIRE KEYDATA\n');
+            const { instance, clientSocket } = await connectClient({
+                commandPolicy: { defaultAction: 'deny', rules: [{ command: 'SETKEY', action: 'allow' }] }
+            });
+
+            clientSocket.simulateDataReceived(Buffer.from('SETKEY ABCDEF\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 30));
+
+            mockCommandExecutor.setSendCommandsResponse('OK\n');
+            clientSocket.simulateDataReceived(Buffer.from('D DELETE_KEY\nEND\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 30));
+
+            expect(mockCommandExecutor.getCallCount('sendCommands')).to.equal(2);
+            expect(mockCommandExecutor.getCallArgs('sendCommands', 1)[1]).to.equal('D DELETE_KEY\nEND\n');
+
+            await instance.stop();
+        });
+    });
+
+    describe('Size Limits', () => {
+        const connectClient = async (config: Partial<RequestProxyConfig> = {}) => {
+            mockCommandExecutor.connectAgentResponse = {
+                sessionId: 'test-session',
+                greeting: 'OK\n'
+            };
+            const instance = new RequestProxy({ logCallback: mockLogConfig.logCallback, ...config }, createMockDeps());
+            await instance.start();
+            const clientSocket = mockServerFactory.getServers()[0].simulateClientConnection();
+            await new Promise(resolve => setTimeout(resolve, 20));
+            clientSocket.clearData();
+            return { instance, clientSocket };
+        };
+
+        it('should reject a command line over 1000 bytes before its newline arrives', async () => {
+            const { instance, clientSocket } = await connectClient();
+
+            clientSocket.simulateDataReceived(Buffer.from('SETKEYDESC ' + 'x'.repeat(600), 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 10));
+            expect(clientSocket.getWrittenData().length).to.equal(0);
+
+            clientSocket.simulateDataReceived(Buffer.from('x'.repeat(600), 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(clientSocket.getWrittenData().toString('latin1')).to.equal('ERR 67109127 Line passed to IPC too long <GPG Agent>\n');
+            expect(mockCommandExecutor.getCallCount('sendCommands')).to.equal(0);
+            expect(mockLogConfig.hasLog('Protocol violation: Command line exceeds 1000 bytes')).to.be.true;
+            expect(mockCommandExecutor.getCallCount('disconnectAgent')).to.equal(1);
+            expect(instance.getSessionCount()).to.equal(0);
+
+            await instance.stop();
+        });
+
+        it('should apply a configured maxLineLength', async () => {
+            const { instance, clientSocket } = await connectClient({ maxLineLength: 16 });
+
+            mockCommandExecutor.setSendCommandsResponse('OK\n');
+            clientSocket.simulateDataReceived(Buffer.from('GETINFO version\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+            expect(mockCommandExecutor.getCallCount('sendCommands')).to.equal(1);
+
+            clientSocket.simulateDataReceived(Buffer.from('GETINFO versions\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(mockCommandExecutor.getCallCount('sendCommands')).to.equal(1);
+            expect(clientSocket.getWrittenData().toString('latin1')).to.equal('OK\nERR 67109127 Line passed to IPC too long <GPG Agent>\n');
+
+            await instance.stop();
+        });
+
+        it('should reject an INQUIRE answer over maxInquireBytes', async () => {
+            const { instance, clientSocket } = await connectClient({ maxInquireBytes: 2048 });
+
+            mockCommandExecutor.setSendCommandsResponse('INQUIRE KEYBLOCK\n');
+            clientSocket.simulateDataReceived(Buffer.from('IMPORT_KEY\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            clientSocket.simulateDataReceived(Buffer.from(encodeInquireData('x'.repeat(3000)), 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(mockCommandExecutor.getCallCount('sendCommands')).to.equal(1);
+            expect(clientSocket.getWrittenData().toString('latin1')).to.equal(
+                'INQUIRE KEYBLOCK\nERR 67109137 Too much data for IPC layer <GPG Agent>\n'
+            );
+            expect(mockLogConfig.hasLog('Protocol violation: Invalid INQUIRE data: block exceeds 2048 bytes')).to.be.true;
+            expect(instance.getSessionCount()).to.equal(0);
+
+            await instance.stop();
+        });
+        it('should end the session when agent-proxy closed it over a response limit', async () => {
+            const { instance, clientSocket } = await connectClient();
+
+            mockCommandExecutor.sendCommandsResponse = { response: 'ERR 67109137 Too much data for IPC layer <GPG Agent>\n', sessionClosed: true };
+            clientSocket.simulateDataReceived(Buffer.from('EXPORT_KEY 0123456789ABCDEF0123456789ABCDEF01234567\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            mockCommandExecutor.setSendCommandsResponse('OK\n');
+            clientSocket.simulateDataReceived(Buffer.from('GETINFO version\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(clientSocket.getWrittenData().toString('latin1')).to.equal('ERR 67109137 Too much data for IPC layer <GPG Agent>\n');
+            expect(mockCommandExecutor.getCallCount('sendCommands')).to.equal(1);
+            expect(mockCommandExecutor.getCallCount('disconnectAgent')).to.equal(0);
+            expect(clientSocket.destroyed).to.be.true;
+            expect(instance.getSessionCount()).to.equal(0);
+
+            await instance.stop();
+        });
+
+        it('should validate an INQUIRE answer chunk by chunk and count lines across chunks', async () => {
+            const { instance, clientSocket } = await connectClient();
+
+            mockCommandExecutor.setSendCommandsResponse('INQUIRE KEYBLOCK\n');
+            clientSocket.simulateDataReceived(Buffer.from('IMPORT_KEY\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            // A first answer split mid-line is relayed whole
+            mockCommandExecutor.setSendCommandsResponse('INQUIRE KEYBLOCK\n');
+            clientSocket.simulateDataReceived(Buffer.from('D one\nD t', 'latin1'));
+            clientSocket.simulateDataReceived(Buffer.from('wo\nEN', 'latin1'));
+            clientSocket.simulateDataReceived(Buffer.from('D\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+            expect(mockCommandExecutor.getCallArgs('sendCommands', 1)[1]).to.equal('D one\nD two\nEND\n');
+
+            // The next inquiry starts counting lines again
+            clientSocket.simulateDataReceived(Buffer.from('D one\n', 'latin1'));
+            clientSocket.simulateDataReceived(Buffer.from('D two\nNOP\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(mockLogConfig.hasLog('Protocol violation: Invalid INQUIRE data: line 3 is not a D, END, or CAN line')).to.be.true;
+            expect(mockCommandExecutor.getCallCount('sendCommands')).to.equal(2);
+            expect(instance.getSessionCount()).to.equal(0);
+
+            await instance.stop();
+        });
+    });
+
+    describe('Response Streaming', () => {
+        const connectClient = async (config: Partial<RequestProxyConfig> = {}) => {
+            mockCommandExecutor.connectAgentResponse = {
+                sessionId: 'test-session',
+                greeting: 'OK\n'
+            };
+            const instance = new RequestProxy({ logCallback: mockLogConfig.logCallback, ...config }, createMockDeps());
+            await instance.start();
+            const clientSocket = mockServerFactory.getServers()[0].simulateClientConnection();
+            await new Promise(resolve => setTimeout(resolve, 20));
+            clientSocket.clearData();
+            return { instance, clientSocket };
+        };
+
+        it('should write streamed lines before the rest of the response', async () => {
+            const { instance, clientSocket } = await connectClient();
+            let resolveResponse: (value: { response: string }) => void = () => { /* set below */ };
+            const sendCommands = mockCommandExecutor.sendCommands.bind(mockCommandExecutor);
+            mockCommandExecutor.sendCommands = async (sessionId, commandBlock, options) => {
+                await sendCommands(sessionId, commandBlock, options);
+                return new Promise((resolve) => { resolveResponse = resolve; });
+            };
+
+            clientSocket.simulateDataReceived(Buffer.from('GENKEY\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+            const [sessionId, , options] = mockCommandExecutor.getCallArgs('sendCommands');
+            expect(options).to.deep.equal({ stream: true });
+
+            expect(await instance.receiveResponseLines(sessionId as string, 'S PROGRESS primegen X 1 0\n')).to.be.true;
+            expect(clientSocket.getWrittenData().toString('latin1')).to.equal('S PROGRESS primegen X 1 0\n');
+            expect(await instance.receiveResponseLines(sessionId as string, 'S PROGRESS primegen X 2 0\n')).to.be.true;
+
+            resolveResponse({ response: 'D (10:public-key)\nOK\n' });
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(clientSocket.getWrittenData().toString('latin1')).to.equal(
+                'S PROGRESS primegen X 1 0\nS PROGRESS primegen X 2 0\nD (10:public-key)\nOK\n'
+            );
+            expect(instance.getSessionCount()).to.equal(1);
+
+            await instance.stop();
+        });
+
+        it('should not stream GETINFO, whose answer may be rewritten', async () => {
+            const { instance, clientSocket } = await connectClient();
+
+            clientSocket.simulateDataReceived(Buffer.from('GETINFO socket_name\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(mockCommandExecutor.getCallArgs('sendCommands')).to.have.length(2);
+
+            await instance.stop();
+        });
+
+        it('should not stream when streamResponses is false', async () => {
+            const { instance, clientSocket } = await connectClient({ streamResponses: false });
+
+            clientSocket.simulateDataReceived(Buffer.from('GENKEY\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(mockCommandExecutor.getCallArgs('sendCommands')).to.have.length(2);
+
+            await instance.stop();
+        });
+
+        it('should not claim lines for a session it does not have', async () => {
+            const { instance } = await connectClient();
+
+            expect(await instance.receiveResponseLines('other-session', 'S PROGRESS\n')).to.be.false;
+
+            await instance.stop();
+        });
+    });
+
+    describe('Client Cancellation', () => {
+        const connectClient = async () => {
+            mockCommandExecutor.connectAgentResponse = {
+                sessionId: 'test-session',
+                greeting: 'OK\n'
+            };
+            const instance = new RequestProxy({ logCallback: mockLogConfig.logCallback }, createMockDeps());
+            await instance.start();
+            const clientSocket = mockServerFactory.getServers()[0].simulateClientConnection();
+            await new Promise(resolve => setTimeout(resolve, 20));
+            clientSocket.clearData();
+            return { instance, clientSocket };
+        };
+
+        it('should pass the interrupted command to disconnectAgent when the client hangs up', async () => {
+            const { instance, clientSocket } = await connectClient();
+            const sendCommands = mockCommandExecutor.sendCommands.bind(mockCommandExecutor);
+            mockCommandExecutor.sendCommands = async (sessionId, commandBlock, options) => {
+                await sendCommands(sessionId, commandBlock, options);
+                // gpg-agent is waiting on pinentry and does not answer
+                return new Promise(() => { /* never settles */ });
+            };
+
+            clientSocket.simulateDataReceived(Buffer.from('PKSIGN\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+            clientSocket.simulateClose(false);
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            const [sessionId, reason] = mockCommandExecutor.getCallArgs('disconnectAgent');
+            expect(reason).to.equal('client disconnected during PKSIGN');
+            expect(mockLogConfig.getLogs().some((line) => line.includes(`[${sessionId as string}] Client went away during PKSIGN`))).to.be.true;
+            expect(instance.getSessionCount()).to.equal(0);
+
+            await instance.stop();
+        });
+
+        it('should cancel a command whose INQUIRE the client never answered', async () => {
+            const { instance, clientSocket } = await connectClient();
+            mockCommandExecutor.setSendCommandsResponse('INQUIRE PINENTRY_LAUNCHED 1234 qt 1.2.1\n');
+
+            clientSocket.simulateDataReceived(Buffer.from('PKSIGN\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+            expect(clientSocket.getWrittenData().toString('latin1')).to.equal('INQUIRE PINENTRY_LAUNCHED 1234 qt 1.2.1\n');
+            clientSocket.simulateClose(false);
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(mockCommandExecutor.getCallArgs('disconnectAgent')[1]).to.equal('client disconnected during PKSIGN');
+
+            await instance.stop();
+        });
+
+        it('should not give a reason once the command finished', async () => {
+            const { instance, clientSocket } = await connectClient();
+            mockCommandExecutor.setSendCommandsResponse('D sig\nOK\n');
+
+            clientSocket.simulateDataReceived(Buffer.from('PKSIGN\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+            clientSocket.simulateClose(false);
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(mockCommandExecutor.getCallArgs('disconnectAgent')).to.have.length(1);
+
+            await instance.stop();
+        });
+    });
+
+    describe('Write Backpressure', () => {
+        const connectClient = async () => {
+            mockCommandExecutor.connectAgentResponse = {
+                sessionId: 'test-session',
+                greeting: 'OK\n'
+            };
+            const instance = new RequestProxy({ logCallback: mockLogConfig.logCallback }, createMockDeps());
+            await instance.start();
+            const clientSocket = mockServerFactory.getServers()[0].simulateClientConnection();
+            await new Promise(resolve => setTimeout(resolve, 20));
+            clientSocket.clearData();
+            return { instance, clientSocket };
+        };
+
+        it('should hold a pipelined command until the response is flushed', async () => {
+            const { instance, clientSocket } = await connectClient();
+
+            clientSocket.backpressure = true;
+            mockCommandExecutor.setSendCommandsResponse('D 2.4.8\nOK\n');
+            clientSocket.simulateDataReceived(Buffer.from('GETINFO version\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+            expect(clientSocket.getHeldWriteCount()).to.equal(1);
+
+            mockCommandExecutor.setSendCommandsResponse('OK\n');
+            clientSocket.simulateDataReceived(Buffer.from('NOP\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+            expect(mockCommandExecutor.getCallCount('sendCommands')).to.equal(1);
+            expect(instance.getSessionCount()).to.equal(1);
+
+            clientSocket.drain();
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(mockCommandExecutor.getCallCount('sendCommands')).to.equal(2);
+            expect(clientSocket.getWrittenData().toString('latin1')).to.equal('D 2.4.8\nOK\nOK\n');
+            expect(instance.getSessionCount()).to.equal(1);
+
+            await instance.stop();
+        });
+
+        it('should buffer an INQUIRE answer sent before the INQUIRE is flushed', async () => {
+            const { instance, clientSocket } = await connectClient();
+
+            clientSocket.backpressure = true;
+            mockCommandExecutor.setSendCommandsResponse('INQUIRE KEYBLOCK\n');
+            clientSocket.simulateDataReceived(Buffer.from('IMPORT_KEY\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            mockCommandExecutor.setSendCommandsResponse('OK\n');
+            clientSocket.simulateDataReceived(Buffer.from('D key\nEND\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+            expect(mockCommandExecutor.getCallCount('sendCommands')).to.equal(1);
+
+            clientSocket.drain();
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(mockCommandExecutor.getCallCount('sendCommands')).to.equal(2);
+            expect(clientSocket.getWrittenData().toString('latin1')).to.equal('INQUIRE KEYBLOCK\nOK\n');
+            expect(mockLogConfig.hasLog('Client answered KEYBLOCK with 3 bytes of escaped data')).to.be.true;
+
+            await instance.stop();
+        });
+
+        it('should reject a client that floods data while never reading the response', async () => {
+            const { instance, clientSocket } = await connectClient();
+
+            clientSocket.backpressure = true;
+            mockCommandExecutor.setSendCommandsResponse('OK\n');
+            clientSocket.simulateDataReceived(Buffer.from('NOP\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            // The socket never drains; the client keeps writing without a newline
+            for (let i = 0; i < 4; i++) {
+                clientSocket.simulateDataReceived(Buffer.from('A'.repeat(400), 'latin1'));
+            }
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(mockLogConfig.hasLog('Protocol violation: Line exceeds 1000 bytes')).to.be.true;
+            expect(mockCommandExecutor.getCallCount('sendCommands')).to.equal(1);
+            expect(instance.getSessionCount()).to.equal(0);
+
+            await instance.stop();
+        });
+
+        it('should reject held lines beyond the INQUIRE size limit', async () => {
+            mockCommandExecutor.connectAgentResponse = {
+                sessionId: 'test-session',
+                greeting: 'OK\n'
+            };
+            const instance = new RequestProxy({ logCallback: mockLogConfig.logCallback, maxInquireBytes: 64 }, createMockDeps());
+            await instance.start();
+            const clientSocket = mockServerFactory.getServers()[0].simulateClientConnection();
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            clientSocket.backpressure = true;
+            mockCommandExecutor.setSendCommandsResponse('INQUIRE KEYBLOCK\n');
+            clientSocket.simulateDataReceived(Buffer.from('IMPORT_KEY\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+            for (let i = 0; i < 10; i++) {
+                clientSocket.simulateDataReceived(Buffer.from('D 0123456789\n', 'latin1'));
+            }
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(mockLogConfig.hasLog('Protocol violation: Held data exceeds 64 bytes')).to.be.true;
+            expect(instance.getSessionCount()).to.equal(0);
+
+            await instance.stop();
+        });
+
+        it('should apply the line limit to a pipelined command once the response is flushed', async () => {
+            const { instance, clientSocket } = await connectClient();
+
+            clientSocket.backpressure = true;
+            mockCommandExecutor.setSendCommandsResponse('OK\n');
+            clientSocket.simulateDataReceived(Buffer.from('NOP\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+            clientSocket.simulateDataReceived(Buffer.from(`GETINFO ${'A'.repeat(1200)}\n`, 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+            expect(instance.getSessionCount()).to.equal(1);
+
+            clientSocket.backpressure = false;
+            clientSocket.drain();
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(mockLogConfig.hasLog('Protocol violation: Command line exceeds 1000 bytes')).to.be.true;
+            expect(clientSocket.getWrittenData().toString('latin1')).to.match(/^OK\nERR \d+ /);
+            expect(mockCommandExecutor.getCallCount('sendCommands')).to.equal(1);
+            expect(instance.getSessionCount()).to.equal(0);
+
+            await instance.stop();
+        });
+
+        it('should end the session through ERROR_OCCURRED when async response handling fails', async () => {
+            mockCommandExecutor.connectAgentResponse = {
+                sessionId: 'test-session',
+                greeting: 'OK\n'
+            };
+            let failed = false;
+            const logCallback = (message: string) => {
+                // Fail once, inside the async AGENT_RESPONSE_COMPLETE handler for the command
+                if (!failed && message.includes('Agent response: GETINFO')) {
+                    failed = true;
+                    throw new Error('log sink failed');
+                }
+                mockLogConfig.logCallback(message);
+            };
+            const instance = new RequestProxy({ logCallback }, createMockDeps());
+            await instance.start();
+            const clientSocket = mockServerFactory.getServers()[0].simulateClientConnection();
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            mockCommandExecutor.setSendCommandsResponse('GETINFO-like\nOK\n');
+            clientSocket.simulateDataReceived(Buffer.from('GETINFO version\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(failed).to.be.true;
+            expect(mockLogConfig.hasLog('Agent response handling failed: log sink failed')).to.be.true;
+            expect(instance.getSessionCount()).to.equal(0);
+
+            await instance.stop();
+        });
+
+        it('should close the session when the client disconnects before the response is flushed', async () => {
+            const { instance, clientSocket } = await connectClient();
+
+            clientSocket.backpressure = true;
+            mockCommandExecutor.setSendCommandsResponse('OK\n');
+            clientSocket.simulateDataReceived(Buffer.from('NOP\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            clientSocket.destroy();
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(mockCommandExecutor.getCallCount('disconnectAgent')).to.equal(1);
+            expect(instance.getSessionCount()).to.equal(0);
+
+            await instance.stop();
+        });
+    });
+
+    describe('loopback pinentry', () => {
+        const connectClient = async (config: Partial<RequestProxyConfig>) => {
+            mockCommandExecutor.connectAgentResponse = {
+                sessionId: 'test-session',
+                greeting: 'OK\n'
+            };
+            const instance = new RequestProxy({ logCallback: mockLogConfig.logCallback, ...config }, createMockDeps());
+            await instance.start();
+            const clientSocket = mockServerFactory.getServers()[0].simulateClientConnection();
+            await new Promise(resolve => setTimeout(resolve, 20));
+            clientSocket.clearData();
+            return { instance, clientSocket };
+        };
+
+        it('should answer INQUIRE PASSPHRASE with the prompted passphrase and the SETKEYDESC description', async () => {
+            const requests: PassphraseRequest[] = [];
+            const { instance, clientSocket } = await connectClient({
+                passphraseCallback: async (request) => {
+                    requests.push(request);
+                    return 'sécret%';
+                }
+            });
+
+            clientSocket.simulateDataReceived(Buffer.from('SETKEYDESC Please+enter%0A%22Alice%22\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            mockCommandExecutor.setSendCommandsResponse('S INQUIRE_MAXLEN 255\nINQUIRE PASSPHRASE\n');
+            clientSocket.simulateDataReceived(Buffer.from('PKSIGN\n', 'latin1'));
+            mockCommandExecutor.setSendCommandsResponse('OK\n');
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(requests).to.deep.equal([{ sessionId: requests[0].sessionId, keyword: 'PASSPHRASE', description: 'Please enter\n"Alice"' }]);
+            expect(mockCommandExecutor.getCallArgs('sendCommands', 2)[1]).to.equal('D s\xc3\xa9cret%25\nEND\n');
+            expect(clientSocket.getWrittenData().toString('latin1')).to.equal('OK\nS INQUIRE_MAXLEN 255\nOK\n');
+            expect(mockLogConfig.getLogs().some((line) => line.includes('cret'))).to.be.false;
+
+            await instance.stop();
+        });
+
+        it('should cancel the inquiry with CAN when the prompt is dismissed', async () => {
+            const { instance, clientSocket } = await connectClient({ passphraseCallback: async () => undefined });
+
+            mockCommandExecutor.setSendCommandsResponse('INQUIRE NEW_PASSPHRASE\n');
+            clientSocket.simulateDataReceived(Buffer.from('PASSWD 0123456789ABCDEF0123456789ABCDEF01234567\n', 'latin1'));
+            mockCommandExecutor.setSendCommandsResponse('ERR 83886179 Operation cancelled <GPG Agent>\n');
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(mockCommandExecutor.getCallArgs('sendCommands', 1)[1]).to.equal('CAN\n');
+            expect(clientSocket.getWrittenData().toString('latin1')).to.equal('ERR 83886179 Operation cancelled <GPG Agent>\n');
+
+            await instance.stop();
+        });
+
+        it('should cancel the inquiry with CAN and end the session when the answer cannot be sent', async () => {
+            const { instance, clientSocket } = await connectClient({
+                passphraseCallback: async () => {
+                    mockCommandExecutor.setSendCommandsError(new Error('Session lost'));
+                    return 'secret';
+                }
+            });
+
+            mockCommandExecutor.setSendCommandsResponse('INQUIRE PASSPHRASE\n');
+            clientSocket.simulateDataReceived(Buffer.from('PKSIGN\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(mockCommandExecutor.getCallArgs('sendCommands', 1)[1]).to.equal('D secret\nEND\n');
+            expect(mockCommandExecutor.getCallArgs('sendCommands', 2)[1]).to.equal('CAN\n');
+            expect(mockLogConfig.hasLog('Write to agent failed: Session lost')).to.be.true;
+            expect(mockCommandExecutor.getCallCount('disconnectAgent')).to.equal(1);
+            expect(instance.getSessionCount()).to.equal(0);
+
+            await instance.stop();
+        });
+
+        it('should relay passphrase inquiries to the client without a passphrase callback', async () => {
+            const { instance, clientSocket } = await connectClient({});
+
+            mockCommandExecutor.setSendCommandsResponse('INQUIRE PASSPHRASE\n');
+            clientSocket.simulateDataReceived(Buffer.from('PKSIGN\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(clientSocket.getWrittenData().toString('latin1')).to.equal('INQUIRE PASSPHRASE\n');
+
+            await instance.stop();
+        });
+    });
+
+    describe('GETINFO rewriting', () => {
+        const connectClient = async (config: Partial<RequestProxyConfig> = {}) => {
+            mockCommandExecutor.connectAgentResponse = {
+                sessionId: 'test-session',
+                greeting: 'OK\n'
+            };
+            const instance = new RequestProxy(
+                { logCallback: mockLogConfig.logCallback, ...config },
+                { ...createMockDeps(), getSocketPath: async () => '/run/user/1000/gnupg/S.gpg-agent' }
+            );
+            await instance.start();
+            const clientSocket = mockServerFactory.getServers()[0].simulateClientConnection();
+            await new Promise(resolve => setTimeout(resolve, 20));
+            clientSocket.clearData();
+            return { instance, clientSocket };
+        };
+
+        const sendCommand = async (clientSocket: MockSocket, command: string, agentResponse: string) => {
+            clientSocket.clearData();
+            mockCommandExecutor.setSendCommandsResponse(agentResponse);
+            clientSocket.simulateDataReceived(Buffer.from(command, 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+            return clientSocket.getWrittenData().toString('latin1');
+        };
+
+        it('should answer socket_name with the remote socket path', async () => {
+            const { instance, clientSocket } = await connectClient();
+
+            const written = await sendCommand(clientSocket, 'GETINFO socket_name\n', 'D C:\\Users\\alice\\AppData\\Local\\gnupg\\S.gpg-agent.extra\nOK\n');
+
+            expect(written).to.equal(`D ${instance.getSocketPath()}\nOK\n`);
+            expect(mockLogConfig.hasLog('Rewriting GETINFO socket_name response')).to.be.true;
+
+            await instance.stop();
+        });
+
+        it('should answer ssh_socket_name with the socket the SSH relay listens on', async () => {
+            const { instance, clientSocket } = await connectClient({ sshSocketPathCallback: () => '/run/user/1000/gnupg/S.gpg-agent.ssh' });
+
+            const written = await sendCommand(clientSocket, 'getinfo SSH_SOCKET_NAME\n', 'D C:\\Users\\alice\\AppData\\Local\\gnupg\\S.gpg-agent.ssh\nOK\n');
+
+            expect(written).to.equal('D /run/user/1000/gnupg/S.gpg-agent.ssh\nOK\n');
+
+            await instance.stop();
+        });
+
+        it('should answer ssh_socket_name with no value while the SSH relay is not running', async () => {
+            let sshSocketPath: string | null = null;
+            const { instance, clientSocket } = await connectClient({ sshSocketPathCallback: () => sshSocketPath });
+            const windowsAnswer = 'D C:\\Users\\alice\\AppData\\Local\\gnupg\\S.gpg-agent.ssh\nOK\n';
+
+            expect(await sendCommand(clientSocket, 'GETINFO ssh_socket_name\n', windowsAnswer)).to.equal('OK\n');
+            sshSocketPath = '/run/user/1000/gnupg/S.gpg-agent.ssh';
+            expect(await sendCommand(clientSocket, 'GETINFO ssh_socket_name\n', windowsAnswer)).to.equal(`D ${sshSocketPath}\nOK\n`);
+
+            await instance.stop();
+        });
+
+        it('should answer ssh_socket_name with no value without an SSH relay', async () => {
+            const { instance, clientSocket } = await connectClient();
+
+            expect(await sendCommand(clientSocket, 'GETINFO ssh_socket_name\n', 'D C:\\x\nOK\n')).to.equal('OK\n');
+
+            await instance.stop();
+        });
+
+        it('should answer pid with Not supported rather than a PID that could be signalled', async () => {
+            const { instance, clientSocket } = await connectClient();
+
+            const written = await sendCommand(clientSocket, 'GETINFO pid\n', 'D 4242\nOK\n');
+
+            expect(written).to.equal(GETINFO_PID_RESPONSE);
+            expect(written).to.match(/^ERR 67108924 Not supported/);
+
+            await instance.stop();
+        });
+
+        it('should relay errors and other GETINFO answers unchanged', async () => {
+            const { instance, clientSocket } = await connectClient();
+
+            expect(await sendCommand(clientSocket, 'GETINFO ssh_socket_name\n', 'ERR 67109115 Not enabled <GPG Agent>\n'))
+                .to.equal('ERR 67109115 Not enabled <GPG Agent>\n');
+            expect(await sendCommand(clientSocket, 'GETINFO version\n', 'D 2.4.8\nOK\n')).to.equal('D 2.4.8\nOK\n');
+            // The rewrite applies only to the response of the GETINFO itself
+            expect(await sendCommand(clientSocket, 'NOP\n', 'OK\n')).to.equal('OK\n');
+
+            await instance.stop();
+        });
+
+        it('should leave ssh_socket_name alone for services other than gpg-agent', async () => {
+            const { instance, clientSocket } = await connectClient({ service: 'dirmngr' });
+
+            expect(await sendCommand(clientSocket, 'GETINFO ssh_socket_name\n', 'D C:\\x\nOK\n')).to.equal('D C:\\x\nOK\n');
+            expect(await sendCommand(clientSocket, 'GETINFO socket_name\n', 'D C:\\x\nOK\n'))
+                .to.equal('D /run/user/1000/gnupg/S.gpg-agent\nOK\n');
+
+            await instance.stop();
+        });
+    });
+
+    describe('dirmngr relay', () => {
+        const connectDirmngrClient = async () => {
+            mockCommandExecutor.connectAgentResponse = {
+                sessionId: 'test-dirmngr',
+                greeting: 'OK Dirmngr 2.4.8 at your service\n'
+            };
+            const instance = new RequestProxy({ logCallback: mockLogConfig.logCallback, service: 'dirmngr' }, createMockDeps());
+            await instance.start();
+            const clientSocket = mockServerFactory.getServers()[0].simulateClientConnection();
+            await new Promise(resolve => setTimeout(resolve, 20));
+            clientSocket.clearData();
+            return { instance, clientSocket };
+        };
+
+        it('should relay KS_PUT through consecutive KEYBLOCK and KEYBLOCK_INFO inquiries', async () => {
+            const { instance, clientSocket } = await connectDirmngrClient();
+
+            mockCommandExecutor.setSendCommandsResponse('INQUIRE KEYBLOCK\n');
+            clientSocket.simulateDataReceived(Buffer.from('KS_PUT\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            mockCommandExecutor.setSendCommandsResponse('INQUIRE KEYBLOCK_INFO\n');
+            clientSocket.simulateDataReceived(Buffer.from('D \x99\x01%0A\nEND\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            mockCommandExecutor.setSendCommandsResponse('OK\n');
+            clientSocket.simulateDataReceived(Buffer.from('D pub:u:255:22:0123456789ABCDEF:\nEND\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(mockCommandExecutor.getCallArgs('sendCommands', 1)[1]).to.equal('D \x99\x01%0A\nEND\n');
+            expect(clientSocket.getWrittenData().toString('latin1')).to.equal('INQUIRE KEYBLOCK\nINQUIRE KEYBLOCK_INFO\nOK\n');
+            expect(mockLogConfig.hasLog('Client answered KEYBLOCK with 5 bytes of escaped data')).to.be.true;
+            expect(mockLogConfig.hasLog('Client answered KEYBLOCK_INFO with')).to.be.true;
+            expect(mockLogConfig.hasLog('unexpected dirmngr inquiry')).to.be.false;
+
+            await instance.stop();
+        });
+
+        it('should relay an empty answer to a certificate inquiry after streamed data', async () => {
+            const { instance, clientSocket } = await connectDirmngrClient();
+
+            mockCommandExecutor.setSendCommandsResponse('S PROGRESS tick ? 0 0\nINQUIRE SENDCERT /CN=Example CA\n');
+            clientSocket.simulateDataReceived(Buffer.from('ISVALID 1234.5678\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            mockCommandExecutor.setSendCommandsResponse('OK\n');
+            clientSocket.simulateDataReceived(Buffer.from('END\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(mockCommandExecutor.getCallArgs('sendCommands', 1)[1]).to.equal('END\n');
+            expect(mockLogConfig.hasLog('Client answered SENDCERT with an empty block')).to.be.true;
+
+            await instance.stop();
+        });
+
+        it('should warn about inquiries dirmngr is not known to send', async () => {
+            const { instance, clientSocket } = await connectDirmngrClient();
+
+            mockCommandExecutor.setSendCommandsResponse('INQUIRE PASSPHRASE\n');
+            clientSocket.simulateDataReceived(Buffer.from('KS_GET -- 0x0123456789ABCDEF\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(mockLogConfig.hasLog('unexpected dirmngr inquiry PASSPHRASE')).to.be.true;
+
+            await instance.stop();
+        });
+
+        it('should name the dirmngr socket when the socket path cannot be determined', async () => {
+            const instance = new RequestProxy({ service: 'dirmngr' }, { ...createMockDeps(), getSocketPath: async () => null });
+
+            try {
+                await instance.start();
+                expect.fail('Should have thrown');
+            } catch (error) {
+                expect((error as Error).message).to.include('gpgconf --list-dirs dirmngr-socket');
+            }
+        });
+    });
+
+    describe('keyboxd relay', () => {
+        it('should relay binary search results and the BLOB inquiry of STORE unchanged', async () => {
+            mockCommandExecutor.connectAgentResponse = {
+                sessionId: 'test-keyboxd',
+                greeting: 'OK Keyboxd 2.4.8 at your service\n'
+            };
+            const instance = new RequestProxy({ logCallback: mockLogConfig.logCallback, service: 'keyboxd' }, createMockDeps());
+            await instance.start();
+            const clientSocket = mockServerFactory.getServers()[0].simulateClientConnection();
+            await new Promise(resolve => setTimeout(resolve, 20));
+            clientSocket.clearData();
+
+            mockCommandExecutor.setSendCommandsResponse('D \x00\x00\x01\x20\x01%25\xff\nOK\n');
+            clientSocket.simulateDataReceived(Buffer.from('SEARCH --openpgp 0123456789ABCDEF\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            mockCommandExecutor.setSendCommandsResponse('INQUIRE BLOB\n');
+            clientSocket.simulateDataReceived(Buffer.from('STORE --insert\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            mockCommandExecutor.setSendCommandsResponse('OK\n');
+            clientSocket.simulateDataReceived(Buffer.from('D \x99\x00%0D\nEND\n', 'latin1'));
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            expect(clientSocket.getWrittenData().toString('latin1')).to.equal('D \x00\x00\x01\x20\x01%25\xff\nOK\nINQUIRE BLOB\nOK\n');
+            expect(mockCommandExecutor.getCallArgs('sendCommands', 2)[1]).to.equal('D \x99\x00%0D\nEND\n');
+            expect(mockLogConfig.hasLog('unexpected dirmngr inquiry')).to.be.false;
+
+            await instance.stop();
+        });
+
+        it('should name the keyboxd socket when the socket path cannot be determined', async () => {
+            const instance = new RequestProxy({ service: 'keyboxd' }, { ...createMockDeps(), getSocketPath: async () => null });
+
+            try {
+                await instance.start();
+                expect.fail('Should have thrown');
+            } catch (error) {
+                expect((error as Error).message).to.include('gpgconf --list-dirs keyboxd-socket');
+            }
+        });
+    });
+
 });
 
@@ -0,0 +1,178 @@
+/**
+ * Unit Tests: SSH Request Proxy Service
+ *
+ * Tests SshRequestProxy with mocked dependencies.
+ * Validates SSH_AUTH_SOCK server setup, message framing, request ordering, and cleanup.
+ */
+
+import { expect } from 'chai';
+import { SshRequestProxy } from '../services/sshRequestProxy';
+import { encodeSshMessage, SSH_AGENT_MESSAGE } from '@gpg-bridge/shared';
+import { MockSshCommandExecutor, MockServerFactory, MockFileSystem, MockLogConfig } from '@gpg-bridge/shared/test';
+
+describe('SshRequestProxy', () => {
+    const socketPath = '/run/user/1000/gnupg/S.gpg-agent.ssh';
+    const requestIdentities = encodeSshMessage(SSH_AGENT_MESSAGE.REQUEST_IDENTITIES);
+    const signRequest = encodeSshMessage(SSH_AGENT_MESSAGE.SIGN_REQUEST, '\x00\x00\x00\x03key\xff');
+    const tick = () => new Promise((resolve) => setTimeout(resolve, 10));
+    let mockLogConfig: MockLogConfig;
+    let mockCommandExecutor: MockSshCommandExecutor;
+    let mockServerFactory: MockServerFactory;
+    let mockFileSystem: MockFileSystem;
+
+    const startProxy = async () => {
+        const proxy = new SshRequestProxy({ logCallback: mockLogConfig.logCallback }, {
+            commandExecutor: mockCommandExecutor,
+            serverFactory: mockServerFactory,
+            fileSystem: mockFileSystem,
+            getSocketPath: async () => socketPath
+        });
+        await proxy.start();
+        return proxy;
+    };
+
+    const connectClient = async () => {
+        const clientSocket = mockServerFactory.getServers()[0].simulateClientConnection();
+        await tick();
+        return clientSocket;
+    };
+
+    beforeEach(() => {
+        mockLogConfig = new MockLogConfig();
+        mockCommandExecutor = new MockSshCommandExecutor();
+        mockServerFactory = new MockServerFactory();
+        mockFileSystem = new MockFileSystem();
+    });
+
+    it('should listen on the socket path with user-only permissions', async () => {
+        const proxy = await startProxy();
+
+        expect(proxy.getSocketPath()).to.equal(socketPath);
+        expect(mockServerFactory.getServers()[0].listenPath).to.equal(socketPath);
+        expect(mockFileSystem.getCallCount('chmodSync')).to.equal(1);
+        await proxy.stop();
+    });
+
+    it('should reject start when the socket path cannot be determined', async () => {
+        const proxy = new SshRequestProxy({}, {
+            commandExecutor: mockCommandExecutor,
+            serverFactory: mockServerFactory,
+            fileSystem: mockFileSystem,
+            getSocketPath: async () => null
+        });
+
+        try {
+            await proxy.start();
+            expect.fail('Should have thrown');
+        } catch (error) {
+            expect((error as Error).message).to.include('agent-ssh-socket');
+        }
+    });
+
+    it('should connect to agent-proxy before resuming the client socket', async () => {
+        const proxy = await startProxy();
+        const clientSocket = await connectClient();
+
+        const [sessionId] = mockCommandExecutor.getCallArgs('connectSshAgent');
+        expect(sessionId).to.be.a('string');
+        expect(clientSocket.isPaused()).to.be.false;
+        expect(proxy.getSessionCount()).to.equal(1);
+        await proxy.stop();
+    });
+
+    it('should relay a request split across chunks and write the response', async () => {
+        const proxy = await startProxy();
+        const clientSocket = await connectClient();
+        const answer = encodeSshMessage(SSH_AGENT_MESSAGE.IDENTITIES_ANSWER, '\x00\x00\x00\x00');
+        mockCommandExecutor.sendSshRequestResponse = { response: answer };
+
+        clientSocket.simulateDataReceived(Buffer.from(signRequest.substring(0, 6), 'latin1'));
+        await tick();
+        expect(mockCommandExecutor.getCallCount('sendSshRequest')).to.equal(0);
+        clientSocket.simulateDataReceived(Buffer.from(signRequest.substring(6), 'latin1'));
+        await tick();
+
+        expect(mockCommandExecutor.getCallArgs('sendSshRequest')[1]).to.equal(signRequest);
+        expect(clientSocket.getWrittenData().toString('latin1')).to.equal(answer);
+        expect(mockLogConfig.hasLog(/SSH request: SIGN_REQUEST \(13 bytes\)/)).to.be.true;
+        await proxy.stop();
+    });
+
+    it('should relay pipelined requests one at a time in order', async () => {
+        const proxy = await startProxy();
+        const clientSocket = await connectClient();
+
+        clientSocket.simulateDataReceived(Buffer.from(requestIdentities + signRequest, 'latin1'));
+        await tick();
+
+        expect(mockCommandExecutor.getCallArgs('sendSshRequest', 0)[1]).to.equal(requestIdentities);
+        expect(mockCommandExecutor.getCallArgs('sendSshRequest', 1)[1]).to.equal(signRequest);
+        expect(clientSocket.data).to.have.length(2);
+        await proxy.stop();
+    });
+
+    it('should hold the next request until the previous response is flushed', async () => {
+        const proxy = await startProxy();
+        const clientSocket = await connectClient();
+        clientSocket.backpressure = true;
+
+        clientSocket.simulateDataReceived(Buffer.from(requestIdentities + signRequest, 'latin1'));
+        await tick();
+        expect(mockCommandExecutor.getCallCount('sendSshRequest')).to.equal(1);
+        expect(clientSocket.getHeldWriteCount()).to.equal(1);
+
+        clientSocket.drain();
+        await tick();
+
+        expect(mockCommandExecutor.getCallArgs('sendSshRequest', 1)[1]).to.equal(signRequest);
+        expect(clientSocket.data).to.have.length(2);
+        await proxy.stop();
+    });
+
+    it('should close the client and the agent session on a malformed length', async () => {
+        const proxy = await startProxy();
+        const clientSocket = await connectClient();
+
+        clientSocket.simulateDataReceived(Buffer.from('\x00\x00\x00\x00', 'latin1'));
+        await tick();
+
+        expect(clientSocket.destroyed).to.be.true;
+        expect(mockCommandExecutor.getCallCount('disconnectSshAgent')).to.equal(1);
+        expect(proxy.getSessionCount()).to.equal(0);
+        await proxy.stop();
+    });
+
+    it('should close the client when agent-proxy cannot connect', async () => {
+        mockCommandExecutor.connectSshAgentError = new Error('SSH agent proxy not initialized');
+        const proxy = await startProxy();
+        const clientSocket = await connectClient();
+
+        expect(clientSocket.destroyed).to.be.true;
+        expect(mockCommandExecutor.getCallCount('disconnectSshAgent')).to.equal(0);
+        expect(mockLogConfig.hasLog('SSH agent connect failed: SSH agent proxy not initialized')).to.be.true;
+        await proxy.stop();
+    });
+
+    it('should disconnect the agent session when the client closes', async () => {
+        const proxy = await startProxy();
+        const clientSocket = await connectClient();
+
+        clientSocket.simulateClose(false);
+        await tick();
+
+        expect(mockCommandExecutor.getCallCount('disconnectSshAgent')).to.equal(1);
+        expect(proxy.getSessionCount()).to.equal(0);
+        await proxy.stop();
+    });
+
+    it('should close sessions and remove the socket file on stop', async () => {
+        const proxy = await startProxy();
+        const clientSocket = await connectClient();
+
+        await proxy.stop();
+
+        expect(clientSocket.destroyed).to.be.true;
+        expect(mockCommandExecutor.getCallCount('disconnectSshAgent')).to.equal(1);
+        expect(mockFileSystem.getCallCount('unlinkSync')).to.equal(1);
+    });
+});
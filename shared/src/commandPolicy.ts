@@ -0,0 +1,258 @@
+/**
+ * Command policy engine for Assuan commands relayed to gpg-agent.
+ * Used by both agent-proxy and request-proxy extensions so each end can
+ * independently allow, deny, or require confirmation for a command verb.
+ *
+ * Rules are evaluated in order and the first matching rule wins. Commands
+ * not matched by any rule receive the policy's defaultAction.
+ */
+
+import { log, extractErrorMessage } from './protocol';
+import { GPG_ERR, GPG_ERR_SOURCE, makeGpgErrorValue } from './gpgError';
+import type { CommandPolicyConfig, LogConfig } from './types';
+
+/**
+ * Action taken for a command matched by a policy rule.
+ * - allow: forward the command unchanged
+ * - deny: reject the command with a synthesized Assuan ERR
+ * - confirm: ask the user; forward only if approved, otherwise deny
+ */
+export type CommandPolicyAction = 'allow' | 'deny' | 'confirm';
+
+/**
+ * Single policy rule matching a command verb and optionally its arguments.
+ */
+export interface CommandPolicyRule {
+    /** Command verb to match (case-insensitive), or '*' to match every verb */
+    command: string;
+    /**
+     * Optional regular expression tested against the command arguments.
+     * The rule only applies when the pattern matches. Anchor with ^ and $ for exact matches,
+     * e.g. a keygrip allowlist for SIGKEY: "^(&)?(KEYGRIP1|KEYGRIP2)$"
+     */
+    args?: string;
+    /** Action taken when the rule matches */
+    action: CommandPolicyAction;
+}
+
+/**
+ * Complete command policy: ordered rules plus a fallback action.
+ */
+export interface CommandPolicy {
+    /** Action for commands not matched by any rule */
+    defaultAction: CommandPolicyAction;
+    /** Rules evaluated in order; first match wins */
+    rules: CommandPolicyRule[];
+}
+
+/**
+ * Result of evaluating a command against a policy.
+ */
+export interface CommandPolicyDecision {
+    /** Resulting action */
+    action: CommandPolicyAction;
+    /** Upper-cased command verb that produced the decision */
+    verb: string;
+    /** Arguments following the verb (may contain secrets, never log these) */
+    args: string;
+    /** Rule that matched, or null when defaultAction was applied */
+    rule: CommandPolicyRule | null;
+}
+
+/**
+ * Default policy: block commands that modify or extract secret key material.
+ * Everything else is forwarded unchanged.
+ */
+export const DEFAULT_COMMAND_POLICY: CommandPolicy = {
+    defaultAction: 'allow',
+    rules: [
+        { command: 'PRESET_PASSPHRASE', action: 'deny' },
+        { command: 'DELETE_KEY', action: 'deny' },
+        { command: 'IMPORT_KEY', action: 'deny' },
+        { command: 'EXPORT_KEY', action: 'deny' }
+    ]
+};
+
+/**
+ * Response synthesized for commands rejected by policy.
+ * Matches the error gpg-agent returns for commands forbidden on its restricted
+ * extra socket (GPG_ERR_FORBIDDEN from source GPG Agent), so clients report it cleanly.
+ */
+export const POLICY_DENIED_RESPONSE = `ERR ${makeGpgErrorValue(GPG_ERR_SOURCE.GPGAGENT, GPG_ERR.FORBIDDEN)} Forbidden <GPG Agent>\n`;
+
+/**
+ * Lines that carry INQUIRE data rather than commands. These are never evaluated.
+ */
+const INQUIRE_DATA_VERBS = new Set(['D', 'END', 'CAN']);
+
+const POLICY_ACTIONS: CommandPolicyAction[] = ['allow', 'deny', 'confirm'];
+
+/**
+ * Split a single Assuan command line into its verb and arguments.
+ * Assuan command verbs are case-insensitive, so the verb is upper-cased.
+ *
+ * @param line Command line with or without trailing newline
+ * @returns Upper-cased verb and the remaining argument string
+ *
+ * @example
+ * parseCommandLine('sigkey ABCDEF\n') // { verb: 'SIGKEY', args: 'ABCDEF' }
+ */
+export function parseCommandLine(line: string): { verb: string; args: string } {
+    const trimmed = line.replace(/\r?\n$/, '');
+    const match = /^(\S*)\s*(.*)$/s.exec(trimmed);
+    const verb = (match?.[1] ?? '').toUpperCase();
+    const args = match?.[2] ?? '';
+    return { verb, args };
+}
+
+/**
+ * Validate an untrusted value (e.g. a VS Code setting) as a CommandPolicy.
+ * Regular expressions in rules are compiled to catch syntax errors early.
+ *
+ * @param value Raw value to validate
+ * @returns Validated CommandPolicy
+ * @throws Error describing the first invalid field
+ */
+export function parseCommandPolicy(value: unknown): CommandPolicy {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error('Invalid command policy: expected an object');
+    }
+    const raw = value as { defaultAction?: unknown; rules?: unknown };
+
+    const defaultAction = raw.defaultAction ?? 'allow';
+    if (!POLICY_ACTIONS.includes(defaultAction as CommandPolicyAction)) {
+        throw new Error(`Invalid command policy: defaultAction must be one of ${POLICY_ACTIONS.join(', ')}`);
+    }
+
+    const rawRules = raw.rules ?? [];
+    if (!Array.isArray(rawRules)) {
+        throw new Error('Invalid command policy: rules must be an array');
+    }
+
+    const rules = rawRules.map((rule: unknown, index: number): CommandPolicyRule => {
+        if (rule === null || typeof rule !== 'object') {
+            throw new Error(`Invalid command policy: rules[${index}] must be an object`);
+        }
+        const { command, args, action } = rule as { command?: unknown; args?: unknown; action?: unknown };
+        if (typeof command !== 'string' || !/^(\*|[A-Za-z_][A-Za-z0-9_]*)$/.test(command)) {
+            throw new Error(`Invalid command policy: rules[${index}].command must be a command verb or '*'`);
+        }
+        if (!POLICY_ACTIONS.includes(action as CommandPolicyAction)) {
+            throw new Error(`Invalid command policy: rules[${index}].action must be one of ${POLICY_ACTIONS.join(', ')}`);
+        }
+        if (args !== undefined) {
+            if (typeof args !== 'string') {
+                throw new Error(`Invalid command policy: rules[${index}].args must be a string`);
+            }
+            try {
+                new RegExp(args);
+            } catch {
+                throw new Error(`Invalid command policy: rules[${index}].args is not a valid regular expression`);
+            }
+        }
+        return {
+            command: command.toUpperCase(),
+            action: action as CommandPolicyAction,
+            ...(args !== undefined ? { args: args as string } : {})
+        };
+    });
+
+    return { defaultAction: defaultAction as CommandPolicyAction, rules };
+}
+
+/**
+ * Evaluate a single command line against a policy.
+ *
+ * @param policy Policy to apply
+ * @param line Command line with or without trailing newline
+ * @returns Decision with the resulting action and the matching rule
+ */
+export function evaluateCommand(policy: CommandPolicy, line: string): CommandPolicyDecision {
+    const { verb, args } = parseCommandLine(line);
+    for (const rule of policy.rules) {
+        if (rule.command !== '*' && rule.command.toUpperCase() !== verb) {
+            continue;
+        }
+        if (rule.args !== undefined && !new RegExp(rule.args).test(args)) {
+            continue;
+        }
+        return { action: rule.action, verb, args, rule };
+    }
+    return { action: policy.defaultAction, verb, args, rule: null };
+}
+
+/**
+ * Evaluate every command in a command block against a policy.
+ * INQUIRE data lines (D, END, CAN), comments, and empty lines are skipped.
+ * The most restrictive decision wins: deny over confirm over allow.
+ *
+ * @param policy Policy to apply
+ * @param commandBlock One or more newline-terminated Assuan lines
+ * @returns Most restrictive decision, or null if the block contains no commands
+ *
+ * @example
+ * evaluateCommandPolicy(DEFAULT_COMMAND_POLICY, 'DELETE_KEY ABCDEF\n')
+ * // { action: 'deny', verb: 'DELETE_KEY', ... }
+ */
+export function evaluateCommandPolicy(policy: CommandPolicy, commandBlock: string): CommandPolicyDecision | null {
+    let result: CommandPolicyDecision | null = null;
+    for (const line of commandBlock.split('\n')) {
+        const { verb } = parseCommandLine(line);
+        if (!verb || verb.startsWith('#') || INQUIRE_DATA_VERBS.has(verb)) {
+            continue;
+        }
+        const decision = evaluateCommand(policy, line);
+        if (decision.action === 'deny') {
+            return decision;
+        }
+        if (!result || (decision.action === 'confirm' && result.action === 'allow')) {
+            result = decision;
+        }
+    }
+    return result;
+}
+
+/**
+ * Apply the configured policy to a command block, asking for confirmation if required.
+ * Used by both proxies before forwarding commands to gpg-agent.
+ *
+ * A 'confirm' decision without a confirmCommandCallback, or with a callback that
+ * rejects, is treated as deny. Only the verb is logged; arguments may contain secrets.
+ *
+ * @param config Configuration with optional policy, confirmation callback, and logging
+ * @param sessionId Session ID for logging context and the confirmation callback
+ * @param commandBlock One or more newline-terminated Assuan lines
+ * @returns true if the block may be forwarded, false if it must be rejected
+ */
+export async function enforceCommandPolicy(
+    config: CommandPolicyConfig & LogConfig,
+    sessionId: string,
+    commandBlock: string
+): Promise<boolean> {
+    if (!config.commandPolicy) {
+        return true;
+    }
+
+    const decision = evaluateCommandPolicy(config.commandPolicy, commandBlock);
+    if (!decision || decision.action === 'allow') {
+        return true;
+    }
+
+    if (decision.action === 'confirm') {
+        if (!config.confirmCommandCallback) {
+            log(config, `[${sessionId}] Policy requires confirmation for ${decision.verb} but no confirmation is available; denying`);
+            return false;
+        }
+        try {
+            const approved = await config.confirmCommandCallback(sessionId, decision);
+            log(config, `[${sessionId}] Policy confirmation for ${decision.verb}: ${approved ? 'approved' : 'rejected'}`);
+            return approved;
+        } catch (err) {
+            log(config, `[${sessionId}] Policy confirmation for ${decision.verb} failed: ${extractErrorMessage(err)}; denying`);
+            return false;
+        }
+    }
+
+    log(config, `[${sessionId}] Policy denied command ${decision.verb}`);
+    return false;
+}
@@ -0,0 +1,385 @@
+/**
+ * gpg-error value decoding for ERR lines returned by gpg-agent.
+ * Used by both agent-proxy and request-proxy extensions to turn values like
+ * 67108881 into "No secret key (gpg-agent)" for logs and notifications.
+ *
+ * Value layout per libgpg-error (gpg-error.h): bits 24-30 hold the error source,
+ * bits 0-15 the error code. Bit 15 of the code marks codes mapped from system errno.
+ * Names and descriptions follow libgpg-error's err-codes.h.in and err-sources.h.in.
+ */
+
+/**
+ * Decoded gpg-error value.
+ */
+export interface GpgErrorInfo {
+    /** Full value as sent on the ERR line */
+    value: number;
+    /** Source component, e.g. 4 */
+    source: number;
+    /** Source symbol, e.g. 'GPG_ERR_SOURCE_GPGAGENT' */
+    sourceName: string;
+    /** Short source description, e.g. 'gpg-agent' */
+    sourceDescription: string;
+    /** Code component, e.g. 17 */
+    code: number;
+    /** Code symbol, e.g. 'GPG_ERR_NO_SECKEY' */
+    name: string;
+    /** Human-readable code description, e.g. 'No secret key' */
+    description: string;
+}
+
+/**
+ * Frequently used gpg-error codes.
+ */
+export const GPG_ERR = {
+    NO_ERROR: 0,
+    BAD_PASSPHRASE: 11,
+    NO_SECKEY: 17,
+    NOT_SUPPORTED: 60,
+    TIMEOUT: 62,
+    NO_PIN_ENTRY: 85,
+    CANCELED: 99,
+    UNKNOWN_OPTION: 174,
+    UNKNOWN_COMMAND: 175,
+    FULLY_CANCELED: 198,
+    FORBIDDEN: 251,
+    ASS_LINE_TOO_LONG: 263,
+    ASS_TOO_MUCH_DATA: 273,
+    ASS_UNEXPECTED_CMD: 274,
+    ASS_UNKNOWN_CMD: 275,
+    ASS_SYNTAX: 276,
+    ASS_CANCELED: 277
+} as const;
+
+/**
+ * Frequently used gpg-error sources.
+ */
+export const GPG_ERR_SOURCE = {
+    UNKNOWN: 0,
+    GPG: 2,
+    GPGAGENT: 4,
+    PINENTRY: 5,
+    SCD: 6,
+    DIRMNGR: 10,
+    ASSUAN: 15
+} as const;
+
+const SYSTEM_ERROR_FLAG = 1 << 15;
+
+/** [symbol, description] by source number */
+const SOURCES: Record<number, [string, string]> = {
+    0: ['GPG_ERR_SOURCE_UNKNOWN', 'unspecified source'],
+    1: ['GPG_ERR_SOURCE_GCRYPT', 'gcrypt'],
+    2: ['GPG_ERR_SOURCE_GPG', 'gpg'],
+    3: ['GPG_ERR_SOURCE_GPGSM', 'gpgsm'],
+    4: ['GPG_ERR_SOURCE_GPGAGENT', 'gpg-agent'],
+    5: ['GPG_ERR_SOURCE_PINENTRY', 'pinentry'],
+    6: ['GPG_ERR_SOURCE_SCD', 'scdaemon'],
+    7: ['GPG_ERR_SOURCE_GPGME', 'gpgme'],
+    8: ['GPG_ERR_SOURCE_KEYBOX', 'keybox'],
+    9: ['GPG_ERR_SOURCE_KSBA', 'ksba'],
+    10: ['GPG_ERR_SOURCE_DIRMNGR', 'dirmngr'],
+    11: ['GPG_ERR_SOURCE_GSTI', 'gsti'],
+    12: ['GPG_ERR_SOURCE_GPA', 'gpa'],
+    13: ['GPG_ERR_SOURCE_KLEO', 'kleopatra'],
+    14: ['GPG_ERR_SOURCE_G13', 'g13'],
+    15: ['GPG_ERR_SOURCE_ASSUAN', 'assuan'],
+    16: ['GPG_ERR_SOURCE_TPM2D', 'tpm2d'],
+    17: ['GPG_ERR_SOURCE_TLS', 'tls'],
+    18: ['GPG_ERR_SOURCE_TKD', 'tkd'],
+    31: ['GPG_ERR_SOURCE_ANY', 'any source'],
+    32: ['GPG_ERR_SOURCE_USER_1', 'user defined source 1'],
+    33: ['GPG_ERR_SOURCE_USER_2', 'user defined source 2'],
+    34: ['GPG_ERR_SOURCE_USER_3', 'user defined source 3'],
+    35: ['GPG_ERR_SOURCE_USER_4', 'user defined source 4']
+};
+
+/** [symbol, description] by code number */
+const CODES: Record<number, [string, string]> = {
+    0: ['GPG_ERR_NO_ERROR', 'Success'],
+    1: ['GPG_ERR_GENERAL', 'General error'],
+    2: ['GPG_ERR_UNKNOWN_PACKET', 'Unknown packet'],
+    3: ['GPG_ERR_UNKNOWN_VERSION', 'Unknown version in packet'],
+    4: ['GPG_ERR_PUBKEY_ALGO', 'Invalid public key algorithm'],
+    5: ['GPG_ERR_DIGEST_ALGO', 'Invalid digest algorithm'],
+    6: ['GPG_ERR_BAD_PUBKEY', 'Bad public key'],
+    7: ['GPG_ERR_BAD_SECKEY', 'Bad secret key'],
+    8: ['GPG_ERR_BAD_SIGNATURE', 'Bad signature'],
+    9: ['GPG_ERR_NO_PUBKEY', 'No public key'],
+    10: ['GPG_ERR_CHECKSUM', 'Checksum error'],
+    11: ['GPG_ERR_BAD_PASSPHRASE', 'Bad passphrase'],
+    12: ['GPG_ERR_CIPHER_ALGO', 'Invalid cipher algorithm'],
+    13: ['GPG_ERR_KEYRING_OPEN', 'Cannot open keyring'],
+    14: ['GPG_ERR_INV_PACKET', 'Invalid packet'],
+    15: ['GPG_ERR_INV_ARMOR', 'Invalid armor'],
+    16: ['GPG_ERR_NO_USER_ID', 'No user ID'],
+    17: ['GPG_ERR_NO_SECKEY', 'No secret key'],
+    18: ['GPG_ERR_WRONG_SECKEY', 'Wrong secret key used'],
+    19: ['GPG_ERR_BAD_KEY', 'Bad session key'],
+    20: ['GPG_ERR_COMPR_ALGO', 'Unknown compression algorithm'],
+    21: ['GPG_ERR_NO_PRIME', 'Number is not prime'],
+    22: ['GPG_ERR_NO_ENCODING_METHOD', 'Invalid encoding method'],
+    23: ['GPG_ERR_NO_ENCRYPTION_SCHEME', 'Invalid encryption scheme'],
+    24: ['GPG_ERR_NO_SIGNATURE_SCHEME', 'Invalid signature scheme'],
+    25: ['GPG_ERR_INV_ATTR', 'Invalid attribute'],
+    26: ['GPG_ERR_NO_VALUE', 'No value'],
+    27: ['GPG_ERR_NOT_FOUND', 'Not found'],
+    28: ['GPG_ERR_VALUE_NOT_FOUND', 'Value not found'],
+    29: ['GPG_ERR_SYNTAX', 'Syntax error'],
+    30: ['GPG_ERR_BAD_MPI', 'Bad MPI value'],
+    31: ['GPG_ERR_INV_PASSPHRASE', 'Invalid passphrase'],
+    32: ['GPG_ERR_SIG_CLASS', 'Invalid signature class'],
+    33: ['GPG_ERR_RESOURCE_LIMIT', 'Resources exhausted'],
+    34: ['GPG_ERR_INV_KEYRING', 'Invalid keyring'],
+    35: ['GPG_ERR_TRUSTDB', 'Trust DB error'],
+    36: ['GPG_ERR_BAD_CERT', 'Bad certificate'],
+    37: ['GPG_ERR_INV_USER_ID', 'Invalid user ID'],
+    38: ['GPG_ERR_UNEXPECTED', 'Unexpected error'],
+    39: ['GPG_ERR_TIME_CONFLICT', 'Time conflict'],
+    40: ['GPG_ERR_KEYSERVER', 'Keyserver error'],
+    41: ['GPG_ERR_WRONG_PUBKEY_ALGO', 'Wrong public key algorithm'],
+    42: ['GPG_ERR_TRIBUTE_TO_D_A', 'Tribute to D. A.'],
+    43: ['GPG_ERR_WEAK_KEY', 'Weak encryption key'],
+    44: ['GPG_ERR_INV_KEYLEN', 'Invalid key length'],
+    45: ['GPG_ERR_INV_ARG', 'Invalid argument'],
+    46: ['GPG_ERR_BAD_URI', 'Syntax error in URI'],
+    47: ['GPG_ERR_INV_URI', 'Invalid URI'],
+    48: ['GPG_ERR_NETWORK', 'Network error'],
+    49: ['GPG_ERR_UNKNOWN_HOST', 'Unknown host'],
+    50: ['GPG_ERR_SELFTEST_FAILED', 'Selftest failed'],
+    51: ['GPG_ERR_NOT_ENCRYPTED', 'Data not encrypted'],
+    52: ['GPG_ERR_NOT_PROCESSED', 'Data not processed'],
+    53: ['GPG_ERR_UNUSABLE_PUBKEY', 'Unusable public key'],
+    54: ['GPG_ERR_UNUSABLE_SECKEY', 'Unusable secret key'],
+    55: ['GPG_ERR_INV_VALUE', 'Invalid value'],
+    56: ['GPG_ERR_BAD_CERT_CHAIN', 'Bad certificate chain'],
+    57: ['GPG_ERR_MISSING_CERT', 'Missing certificate'],
+    58: ['GPG_ERR_NO_DATA', 'No data'],
+    59: ['GPG_ERR_BUG', 'Bug'],
+    60: ['GPG_ERR_NOT_SUPPORTED', 'Not supported'],
+    61: ['GPG_ERR_INV_OP', 'Invalid operation code'],
+    62: ['GPG_ERR_TIMEOUT', 'Timeout'],
+    63: ['GPG_ERR_INTERNAL', 'Internal error'],
+    64: ['GPG_ERR_EOF_GCRYPT', 'EOF (gcrypt)'],
+    65: ['GPG_ERR_INV_OBJ', 'Invalid object'],
+    66: ['GPG_ERR_TOO_SHORT', 'Provided object is too short'],
+    67: ['GPG_ERR_TOO_LARGE', 'Provided object is too large'],
+    68: ['GPG_ERR_NO_OBJ', 'Missing item in object'],
+    69: ['GPG_ERR_NOT_IMPLEMENTED', 'Not implemented'],
+    70: ['GPG_ERR_CONFLICT', 'Conflicting use'],
+    71: ['GPG_ERR_INV_CIPHER_MODE', 'Invalid cipher mode'],
+    72: ['GPG_ERR_INV_FLAG', 'Invalid flag'],
+    73: ['GPG_ERR_INV_HANDLE', 'Invalid handle'],
+    74: ['GPG_ERR_TRUNCATED', 'Result truncated'],
+    75: ['GPG_ERR_INCOMPLETE_LINE', 'Incomplete line'],
+    76: ['GPG_ERR_INV_RESPONSE', 'Invalid response'],
+    77: ['GPG_ERR_NO_AGENT', 'No agent running'],
+    78: ['GPG_ERR_AGENT', 'Agent error'],
+    79: ['GPG_ERR_INV_DATA', 'Invalid data'],
+    80: ['GPG_ERR_ASSUAN_SERVER_FAULT', 'Unspecific Assuan server fault'],
+    81: ['GPG_ERR_ASSUAN', 'General Assuan error'],
+    82: ['GPG_ERR_INV_SESSION_KEY', 'Invalid session key'],
+    83: ['GPG_ERR_INV_SEXP', 'Invalid S-expression'],
+    84: ['GPG_ERR_UNSUPPORTED_ALGORITHM', 'Unsupported algorithm'],
+    85: ['GPG_ERR_NO_PIN_ENTRY', 'No pinentry'],
+    86: ['GPG_ERR_PIN_ENTRY', 'pinentry error'],
+    87: ['GPG_ERR_BAD_PIN', 'Bad PIN'],
+    88: ['GPG_ERR_INV_NAME', 'Invalid name'],
+    89: ['GPG_ERR_BAD_DATA', 'Bad data'],
+    90: ['GPG_ERR_INV_PARAMETER', 'Invalid parameter'],
+    91: ['GPG_ERR_WRONG_CARD', 'Wrong card'],
+    92: ['GPG_ERR_NO_DIRMNGR', 'No dirmngr'],
+    93: ['GPG_ERR_DIRMNGR', 'dirmngr error'],
+    94: ['GPG_ERR_CERT_REVOKED', 'Certificate revoked'],
+    95: ['GPG_ERR_NO_CRL_KNOWN', 'No CRL known'],
+    96: ['GPG_ERR_CRL_TOO_OLD', 'CRL too old'],
+    97: ['GPG_ERR_LINE_TOO_LONG', 'Line too long'],
+    98: ['GPG_ERR_NOT_TRUSTED', 'Not trusted'],
+    99: ['GPG_ERR_CANCELED', 'Operation cancelled'],
+    100: ['GPG_ERR_BAD_CA_CERT', 'Bad CA certificate'],
+    101: ['GPG_ERR_CERT_EXPIRED', 'Certificate expired'],
+    102: ['GPG_ERR_CERT_TOO_YOUNG', 'Certificate too young'],
+    103: ['GPG_ERR_UNSUPPORTED_CERT', 'Unsupported certificate'],
+    104: ['GPG_ERR_UNKNOWN_SEXP', 'Unknown S-expression'],
+    105: ['GPG_ERR_UNSUPPORTED_PROTECTION', 'Unsupported protection'],
+    106: ['GPG_ERR_CORRUPTED_PROTECTION', 'Corrupted protection'],
+    107: ['GPG_ERR_AMBIGUOUS_NAME', 'Ambiguous name'],
+    108: ['GPG_ERR_CARD', 'Card error'],
+    109: ['GPG_ERR_CARD_RESET', 'Card reset required'],
+    110: ['GPG_ERR_CARD_REMOVED', 'Card removed'],
+    111: ['GPG_ERR_INV_CARD', 'Invalid card'],
+    112: ['GPG_ERR_CARD_NOT_PRESENT', 'Card not present'],
+    113: ['GPG_ERR_NO_PKCS15_APP', 'No PKCS15 application'],
+    114: ['GPG_ERR_NOT_CONFIRMED', 'Not confirmed'],
+    115: ['GPG_ERR_CONFIGURATION', 'Configuration error'],
+    116: ['GPG_ERR_NO_POLICY_MATCH', 'No policy match'],
+    117: ['GPG_ERR_INV_INDEX', 'Invalid index'],
+    118: ['GPG_ERR_INV_ID', 'Invalid ID'],
+    119: ['GPG_ERR_NO_SCDAEMON', 'No SmartCard daemon'],
+    120: ['GPG_ERR_SCDAEMON', 'SmartCard daemon error'],
+    121: ['GPG_ERR_UNSUPPORTED_PROTOCOL', 'Unsupported protocol'],
+    122: ['GPG_ERR_BAD_PIN_METHOD', 'Bad PIN method'],
+    123: ['GPG_ERR_CARD_NOT_INITIALIZED', 'Card not initialized'],
+    124: ['GPG_ERR_UNSUPPORTED_OPERATION', 'Unsupported operation'],
+    125: ['GPG_ERR_WRONG_KEY_USAGE', 'Wrong key usage'],
+    126: ['GPG_ERR_NOTHING_FOUND', 'Nothing found'],
+    127: ['GPG_ERR_WRONG_BLOB_TYPE', 'Wrong blob type'],
+    128: ['GPG_ERR_MISSING_VALUE', 'Missing value'],
+    129: ['GPG_ERR_HARDWARE', 'Hardware problem'],
+    130: ['GPG_ERR_PIN_BLOCKED', 'PIN blocked'],
+    131: ['GPG_ERR_USE_CONDITIONS', 'Conditions of use not satisfied'],
+    132: ['GPG_ERR_PIN_NOT_SYNCED', 'PINs are not synced'],
+    133: ['GPG_ERR_INV_CRL', 'Invalid CRL'],
+    134: ['GPG_ERR_BAD_BER', 'BER error'],
+    135: ['GPG_ERR_INV_BER', 'Invalid BER'],
+    136: ['GPG_ERR_ELEMENT_NOT_FOUND', 'Element not found'],
+    137: ['GPG_ERR_IDENTIFIER_NOT_FOUND', 'Identifier not found'],
+    138: ['GPG_ERR_INV_TAG', 'Invalid tag'],
+    139: ['GPG_ERR_INV_LENGTH', 'Invalid length'],
+    140: ['GPG_ERR_INV_KEYINFO', 'Invalid key info'],
+    141: ['GPG_ERR_UNEXPECTED_TAG', 'Unexpected tag'],
+    142: ['GPG_ERR_NOT_DER_ENCODED', 'Not DER encoded'],
+    143: ['GPG_ERR_NO_CMS_OBJ', 'No CMS object'],
+    144: ['GPG_ERR_INV_CMS_OBJ', 'Invalid CMS object'],
+    145: ['GPG_ERR_UNKNOWN_CMS_OBJ', 'Unknown CMS object'],
+    146: ['GPG_ERR_UNSUPPORTED_CMS_OBJ', 'Unsupported CMS object'],
+    147: ['GPG_ERR_UNSUPPORTED_ENCODING', 'Unsupported encoding'],
+    148: ['GPG_ERR_UNSUPPORTED_CMS_VERSION', 'Unsupported CMS version'],
+    149: ['GPG_ERR_UNKNOWN_ALGORITHM', 'Unknown algorithm'],
+    150: ['GPG_ERR_INV_ENGINE', 'Invalid crypto engine'],
+    151: ['GPG_ERR_PUBKEY_NOT_TRUSTED', 'Public key not trusted'],
+    152: ['GPG_ERR_DECRYPT_FAILED', 'Decryption failed'],
+    153: ['GPG_ERR_KEY_EXPIRED', 'Key expired'],
+    154: ['GPG_ERR_SIG_EXPIRED', 'Signature expired'],
+    155: ['GPG_ERR_ENCODING_PROBLEM', 'Encoding problem'],
+    156: ['GPG_ERR_INV_STATE', 'Invalid state'],
+    157: ['GPG_ERR_DUP_VALUE', 'Duplicated value'],
+    158: ['GPG_ERR_MISSING_ACTION', 'Missing action'],
+    159: ['GPG_ERR_MODULE_NOT_FOUND', 'ASN.1 module not found'],
+    160: ['GPG_ERR_INV_OID_STRING', 'Invalid OID string'],
+    161: ['GPG_ERR_INV_TIME', 'Invalid time'],
+    162: ['GPG_ERR_INV_CRL_OBJ', 'Invalid CRL object'],
+    163: ['GPG_ERR_UNSUPPORTED_CRL_VERSION', 'Unsupported CRL version'],
+    164: ['GPG_ERR_INV_CERT_OBJ', 'Invalid certificate object'],
+    165: ['GPG_ERR_UNKNOWN_NAME', 'Unknown name'],
+    166: ['GPG_ERR_LOCALE_PROBLEM', 'A locale function failed'],
+    167: ['GPG_ERR_NOT_LOCKED', 'Not locked'],
+    168: ['GPG_ERR_PROTOCOL_VIOLATION', 'Protocol violation'],
+    169: ['GPG_ERR_INV_MAC', 'Invalid MAC'],
+    170: ['GPG_ERR_INV_REQUEST', 'Invalid request'],
+    171: ['GPG_ERR_UNKNOWN_EXTN', 'Unknown extension'],
+    172: ['GPG_ERR_UNKNOWN_CRIT_EXTN', 'Unknown critical extension'],
+    173: ['GPG_ERR_LOCKED', 'Locked'],
+    174: ['GPG_ERR_UNKNOWN_OPTION', 'Unknown option'],
+    175: ['GPG_ERR_UNKNOWN_COMMAND', 'Unknown command'],
+    176: ['GPG_ERR_NOT_OPERATIONAL', 'Not operational'],
+    177: ['GPG_ERR_NO_PASSPHRASE', 'No passphrase given'],
+    178: ['GPG_ERR_NO_PIN', 'No PIN given'],
+    179: ['GPG_ERR_NOT_ENABLED', 'Not enabled'],
+    180: ['GPG_ERR_NO_ENGINE', 'No crypto engine'],
+    181: ['GPG_ERR_MISSING_KEY', 'Missing key'],
+    182: ['GPG_ERR_TOO_MANY', 'Too many objects'],
+    183: ['GPG_ERR_LIMIT_REACHED', 'Limit reached'],
+    184: ['GPG_ERR_NOT_INITIALIZED', 'Not initialized'],
+    185: ['GPG_ERR_MISSING_ISSUER_CERT', 'Missing issuer certificate'],
+    186: ['GPG_ERR_NO_KEYSERVER', 'No keyserver available'],
+    187: ['GPG_ERR_INV_CURVE', 'Invalid elliptic curve'],
+    188: ['GPG_ERR_UNKNOWN_CURVE', 'Unknown elliptic curve'],
+    189: ['GPG_ERR_DUP_KEY', 'Duplicated key'],
+    190: ['GPG_ERR_AMBIGUOUS', 'Ambiguous result'],
+    191: ['GPG_ERR_NO_CRYPT_CTX', 'No crypto context'],
+    192: ['GPG_ERR_WRONG_CRYPT_CTX', 'Wrong crypto context'],
+    193: ['GPG_ERR_BAD_CRYPT_CTX', 'Bad crypto context'],
+    194: ['GPG_ERR_CRYPT_CTX_CONFLICT', 'Conflict in the crypto context'],
+    195: ['GPG_ERR_BROKEN_PUBKEY', 'Broken public key'],
+    196: ['GPG_ERR_BROKEN_SECKEY', 'Broken secret key'],
+    197: ['GPG_ERR_MAC_ALGO', 'Invalid MAC algorithm'],
+    198: ['GPG_ERR_FULLY_CANCELED', 'Operation fully cancelled'],
+    199: ['GPG_ERR_UNFINISHED', 'Operation not yet finished'],
+    200: ['GPG_ERR_BUFFER_TOO_SHORT', 'Buffer too short'],
+    251: ['GPG_ERR_FORBIDDEN', 'Forbidden'],
+    257: ['GPG_ERR_ASS_GENERAL', 'General IPC error'],
+    258: ['GPG_ERR_ASS_ACCEPT_FAILED', 'IPC accept call failed'],
+    259: ['GPG_ERR_ASS_CONNECT_FAILED', 'IPC connect call failed'],
+    260: ['GPG_ERR_ASS_INV_RESPONSE', 'Invalid IPC response'],
+    261: ['GPG_ERR_ASS_INV_VALUE', 'Invalid value passed to IPC'],
+    262: ['GPG_ERR_ASS_INCOMPLETE_LINE', 'Incomplete line passed to IPC'],
+    263: ['GPG_ERR_ASS_LINE_TOO_LONG', 'Line passed to IPC too long'],
+    264: ['GPG_ERR_ASS_NESTED_COMMANDS', 'Nested IPC commands'],
+    265: ['GPG_ERR_ASS_NO_DATA_CB', 'No data callback in IPC'],
+    266: ['GPG_ERR_ASS_NO_INQUIRE_CB', 'No inquire callback in IPC'],
+    267: ['GPG_ERR_ASS_NOT_A_SERVER', 'Not an IPC server'],
+    268: ['GPG_ERR_ASS_NOT_A_CLIENT', 'Not an IPC client'],
+    269: ['GPG_ERR_ASS_SERVER_START', 'Problem starting IPC server'],
+    270: ['GPG_ERR_ASS_READ_ERROR', 'IPC read error'],
+    271: ['GPG_ERR_ASS_WRITE_ERROR', 'IPC write error'],
+    273: ['GPG_ERR_ASS_TOO_MUCH_DATA', 'Too much data for IPC layer'],
+    274: ['GPG_ERR_ASS_UNEXPECTED_CMD', 'Unexpected IPC command'],
+    275: ['GPG_ERR_ASS_UNKNOWN_CMD', 'Unknown IPC command'],
+    276: ['GPG_ERR_ASS_SYNTAX', 'IPC syntax error'],
+    277: ['GPG_ERR_ASS_CANCELED', 'IPC call has been cancelled'],
+    278: ['GPG_ERR_ASS_NO_INPUT', 'No input source for IPC'],
+    279: ['GPG_ERR_ASS_NO_OUTPUT', 'No output source for IPC'],
+    280: ['GPG_ERR_ASS_PARAMETER', 'IPC parameter error'],
+    281: ['GPG_ERR_ASS_UNKNOWN_INQUIRE', 'Unknown IPC inquire'],
+    16381: ['GPG_ERR_MISSING_ERRNO', 'System error w/o errno'],
+    16382: ['GPG_ERR_UNKNOWN_ERRNO', 'Unknown system error'],
+    16383: ['GPG_ERR_EOF', 'End of file'],
+};
+
+/**
+ * Split a gpg-error value into its source and code components.
+ *
+ * @example
+ * splitGpgErrorValue(67108963) // { source: 4, code: 99 } (GPG Agent, GPG_ERR_CANCELED)
+ */
+export function splitGpgErrorValue(value: number): { source: number; code: number } {
+    return { source: (value >>> 24) & 0x7f, code: value & 0xffff };
+}
+
+/**
+ * Combine a source and code into a gpg-error value.
+ *
+ * @example
+ * makeGpgErrorValue(GPG_ERR_SOURCE.GPGAGENT, GPG_ERR.CANCELED) // 67108963
+ */
+export function makeGpgErrorValue(source: number, code: number): number {
+    return code === GPG_ERR.NO_ERROR ? 0 : ((source & 0x7f) << 24) | (code & 0xffff);
+}
+
+/**
+ * Decode a gpg-error value into source and code names and descriptions.
+ * Unknown sources and codes get generic names so callers never need to handle undefined.
+ *
+ * @example
+ * decodeGpgError(67108881)
+ * // { value: 67108881, source: 4, sourceName: 'GPG_ERR_SOURCE_GPGAGENT', sourceDescription: 'gpg-agent',
+ * //   code: 17, name: 'GPG_ERR_NO_SECKEY', description: 'No secret key' }
+ */
+export function decodeGpgError(value: number): GpgErrorInfo {
+    const { source, code } = splitGpgErrorValue(value);
+    const [sourceName, sourceDescription] = SOURCES[source] ?? [`GPG_ERR_SOURCE_${source}`, `source ${source}`];
+
+    let name: string;
+    let description: string;
+    if (code & SYSTEM_ERROR_FLAG) {
+        const errno = code & ~SYSTEM_ERROR_FLAG;
+        name = `GPG_ERR_SYSTEM_ERROR_${errno}`;
+        description = `System error ${errno}`;
+    } else {
+        [name, description] = CODES[code] ?? [`GPG_ERR_CODE_${code}`, `Unknown error code ${code}`];
+    }
+
+    return { value, source, sourceName, sourceDescription, code, name, description };
+}
+
+/**
+ * Format a gpg-error value for display.
+ *
+ * @example
+ * formatGpgError(67108881) // 'No secret key (gpg-agent)'
+ */
+export function formatGpgError(value: number): string {
+    const { description, sourceDescription } = decodeGpgError(value);
+    return `${description} (${sourceDescription})`;
+}
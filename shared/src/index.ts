@@ -1,4 +1,9 @@
 // Re-export all shared types and utilities
 export * from './protocol';
+export * from './responseFramer';
 export * from './types';
 export * from './environment';
+export * from './commandPolicy';
+export * from './optionRewrite';
+export * from './gpgError';
+export * from './sshProtocol';
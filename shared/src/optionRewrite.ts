@@ -0,0 +1,147 @@
+/**
+ * OPTION command rewriting for commands relayed to gpg-agent.
+ * gpg in the remote describes its own terminal and desktop with OPTION commands
+ * (ttyname, display, putenv, ...). On the gpg-agent host these values are meaningless
+ * and can send pinentry to a display or TTY that does not exist there, so they are
+ * dropped or replaced before the command reaches gpg-agent.
+ *
+ * Rules are evaluated in order and the first rule naming the option wins. Options not
+ * matched by any rule are forwarded unchanged.
+ */
+
+import { parseCommandLine } from './commandPolicy';
+
+/**
+ * Action taken for an OPTION matched by a rewrite rule.
+ * - forward: send the command unchanged
+ * - drop: do not send the command; answer the client with OK
+ * - replace: send the option with the rule's value instead of the client's
+ */
+export type OptionRewriteAction = 'forward' | 'drop' | 'replace';
+
+/**
+ * Single rewrite rule for one option name.
+ */
+export interface OptionRewriteRule {
+    /** Option name (case-insensitive, without leading --), e.g. "ttyname" */
+    option: string;
+    /** Action taken when the rule matches */
+    action: OptionRewriteAction;
+    /** Value sent instead of the client's when action is 'replace' */
+    value?: string;
+}
+
+/**
+ * Result of rewriting an OPTION command.
+ */
+export interface OptionRewriteResult {
+    /** Action of the matching rule */
+    action: OptionRewriteAction;
+    /** Lower-cased option name that matched */
+    option: string;
+    /** Command block to send to gpg-agent, or null when the option is dropped */
+    commandBlock: string | null;
+}
+
+/**
+ * Default rules: drop options that describe the remote's terminal, desktop, and
+ * environment so pinentry appears on the gpg-agent host's own desktop.
+ */
+export const DEFAULT_OPTION_REWRITE_RULES: OptionRewriteRule[] = [
+    { option: 'ttyname', action: 'drop' },
+    { option: 'ttytype', action: 'drop' },
+    { option: 'display', action: 'drop' },
+    { option: 'xauthority', action: 'drop' },
+    { option: 'putenv', action: 'drop' },
+    { option: 'lc-ctype', action: 'drop' },
+    { option: 'lc-messages', action: 'drop' }
+];
+
+/**
+ * Response synthesized for dropped options, as gpg-agent answers an accepted OPTION
+ */
+export const OPTION_DROPPED_RESPONSE = 'OK\n';
+
+const REWRITE_ACTIONS: OptionRewriteAction[] = ['forward', 'drop', 'replace'];
+
+/**
+ * Option name of OPTION arguments, parsed as gpg-agent does: "name=value", "name value",
+ * or "name", with an optional leading "--".
+ *
+ * @example
+ * parseOptionName('--ttyname=/dev/pts/3') // 'ttyname'
+ */
+export function parseOptionName(args: string): string {
+    const match = /^(?:--)?([^\s=]*)/.exec(args.trim());
+    return (match?.[1] ?? '').toLowerCase();
+}
+
+/**
+ * Validate an untrusted value (e.g. a VS Code setting) as OPTION rewrite rules.
+ *
+ * @param value Raw value to validate
+ * @returns Validated rules with lower-cased option names
+ * @throws Error describing the first invalid rule
+ */
+export function parseOptionRewriteRules(value: unknown): OptionRewriteRule[] {
+    if (!Array.isArray(value)) {
+        throw new Error('Invalid OPTION rewrite rules: expected an array');
+    }
+
+    return value.map((rule: unknown, index: number): OptionRewriteRule => {
+        if (rule === null || typeof rule !== 'object') {
+            throw new Error(`Invalid OPTION rewrite rules: [${index}] must be an object`);
+        }
+        const { option, action, value: replacement } = rule as { option?: unknown; action?: unknown; value?: unknown };
+        if (typeof option !== 'string' || !/^[A-Za-z0-9][A-Za-z0-9_-]*$/.test(option)) {
+            throw new Error(`Invalid OPTION rewrite rules: [${index}].option must be an option name`);
+        }
+        if (!REWRITE_ACTIONS.includes(action as OptionRewriteAction)) {
+            throw new Error(`Invalid OPTION rewrite rules: [${index}].action must be one of ${REWRITE_ACTIONS.join(', ')}`);
+        }
+        if (action === 'replace' && (typeof replacement !== 'string' || /[\r\n]/.test(replacement))) {
+            throw new Error(`Invalid OPTION rewrite rules: [${index}].value must be a single-line string for replace`);
+        }
+        return {
+            option: option.toLowerCase(),
+            action: action as OptionRewriteAction,
+            ...(action === 'replace' ? { value: replacement as string } : {})
+        };
+    });
+}
+
+/**
+ * Rewrite a command block holding a single OPTION command.
+ *
+ * @param rules Rules to apply
+ * @param commandBlock Newline-terminated Assuan command
+ * @returns Rewrite of the matching rule, or null if the block is not an OPTION command or no rule matches
+ *
+ * @example
+ * rewriteOptionCommand(DEFAULT_OPTION_REWRITE_RULES, 'OPTION display=:0\n')
+ * // { action: 'drop', option: 'display', commandBlock: null }
+ */
+export function rewriteOptionCommand(rules: OptionRewriteRule[], commandBlock: string): OptionRewriteResult | null {
+    const lines = commandBlock.split('\n').filter((line) => line);
+    if (lines.length !== 1) {
+        return null;
+    }
+    const { verb, args } = parseCommandLine(lines[0]);
+    if (verb !== 'OPTION') {
+        return null;
+    }
+
+    const name = parseOptionName(args);
+    const rule = rules.find((candidate) => candidate.option === name);
+    if (!rule) {
+        return null;
+    }
+    switch (rule.action) {
+        case 'forward':
+            return { action: 'forward', option: name, commandBlock };
+        case 'drop':
+            return { action: 'drop', option: name, commandBlock: null };
+        case 'replace':
+            return { action: 'replace', option: name, commandBlock: `OPTION ${name}=${rule.value ?? ''}\n` };
+    }
+}
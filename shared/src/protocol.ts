@@ -8,6 +8,8 @@
 
 import type * as net from 'net';
 import { LogConfig } from './types';
+import type { IFileSystem } from './types';
+import { splitGpgErrorValue, makeGpgErrorValue, decodeGpgError, GPG_ERR, GPG_ERR_SOURCE } from './gpgError';
 
 /**
  * Encode a string to a Buffer using latin1 encoding.
@@ -120,6 +122,143 @@ export function parseSocketFile(data: Buffer): ParsedSocketFile {
     return { port, nonce };
 }
 
+/**
+ * Contents of an Assuan socket file, by format.
+ * - nonce: libassuan socket emulation, "<port>\n<16-byte nonce>"
+ * - redirect: "%Assuan%\nsocket=<path>", the socket is at another path (environment variables expanded)
+ *
+ * Cygwin AF_UNIX emulation files ("!<socket >PORT s ...") are only written by Cygwin builds
+ * of GnuPG, not by Gpg4win, and need a credentials handshake; they are recognized and rejected.
+ */
+export type SocketFileContents =
+    | { format: 'nonce'; port: number; nonce: Buffer }
+    | { format: 'redirect'; path: string };
+
+const REDIRECT_PREFIX = '%Assuan%\nsocket=';
+const CYGWIN_PREFIX = '!<socket >';
+
+/**
+ * Expand ${NAME} references the way libassuan does for socket redirection; unset variables are empty.
+ */
+function expandSocketPath(value: string, env: NodeJS.ProcessEnv): string {
+    return value.replace(/\$\{([^}]*)\}/g, (_match, name: string) => env[name] ?? '');
+}
+
+/**
+ * Parse an Assuan socket file in any of the formats libassuan writes.
+ *
+ * @param data Buffer containing socket file contents
+ * @param env Environment used to expand ${NAME} in a redirect path
+ * @throws Error if the format is not recognized or is invalid, or the file is Cygwin-style
+ */
+export function parseSocketFileContents(data: Buffer, env: NodeJS.ProcessEnv = process.env): SocketFileContents {
+    const text = data.toString('latin1');
+
+    if (text.startsWith(REDIRECT_PREFIX)) {
+        const end = text.indexOf('\n', REDIRECT_PREFIX.length);
+        const target = text.substring(REDIRECT_PREFIX.length, end === -1 ? undefined : end);
+        const path = expandSocketPath(target, env);
+        if (!path) {
+            throw new Error('Invalid socket redirection: empty socket path');
+        }
+        return { format: 'redirect', path };
+    }
+
+    if (text.startsWith(CYGWIN_PREFIX)) {
+        throw new Error('Cygwin-style socket files are not supported; use a native GnuPG such as Gpg4win');
+    }
+
+    const { port, nonce } = parseSocketFile(data);
+    return { format: 'nonce', port, nonce };
+}
+
+/**
+ * How gpg-agent's sockets are reached.
+ * - tcp: Windows socket emulation; the socket file holds a localhost port and a 16-byte nonce
+ * - unix: Unix domain socket (macOS, Linux); connect to the socket path, there is no nonce
+ */
+export type AgentTransport = 'tcp' | 'unix';
+
+/**
+ * Connection target resolved from a socket path
+ */
+export type AgentEndpoint =
+    | { transport: 'tcp'; port: number; nonce: Buffer }
+    | { transport: 'unix'; path: string };
+
+/**
+ * The transport GnuPG uses on a platform: socket emulation on Windows, Unix sockets elsewhere.
+ */
+export function getDefaultAgentTransport(platform: NodeJS.Platform = process.platform): AgentTransport {
+    return platform === 'win32' ? 'tcp' : 'unix';
+}
+
+/**
+ * Resolve a socket path to a connection target, following one socket redirection.
+ * The socket file is read every time so a restarted gpg-agent's new port and nonce are used.
+ *
+ * @throws Error if the socket does not exist, the socket file is invalid, or it is Cygwin-style
+ */
+export function resolveAgentEndpoint(
+    socketPath: string,
+    transport: AgentTransport,
+    fileSystem: Pick<IFileSystem, 'existsSync' | 'readFileSync'>,
+    env: NodeJS.ProcessEnv = process.env
+): AgentEndpoint {
+    const resolve = (path: string, redirected: boolean): AgentEndpoint => {
+        if (!fileSystem.existsSync(path)) {
+            throw new Error(`Socket not found: ${path}`);
+        }
+
+        let contents: SocketFileContents | null = null;
+        if (transport === 'tcp') {
+            contents = parseSocketFileContents(fileSystem.readFileSync(path), env);
+        } else {
+            // Opening a real Unix socket fails; only a regular file can hold a redirection
+            let data: Buffer | null = null;
+            try {
+                data = fileSystem.readFileSync(path);
+            } catch {
+                // A socket, connect to it
+            }
+            if (data?.toString('latin1').startsWith(REDIRECT_PREFIX)) {
+                contents = parseSocketFileContents(data, env);
+            }
+        }
+
+        if (!contents) {
+            return { transport: 'unix', path };
+        }
+        switch (contents.format) {
+            case 'redirect':
+                if (redirected) {
+                    throw new Error(`Socket redirection loop: ${socketPath} redirects more than once`);
+                }
+                return resolve(contents.path, true);
+            case 'nonce':
+                return { transport: 'tcp', port: contents.port, nonce: contents.nonce };
+        }
+    };
+
+    return resolve(socketPath, false);
+}
+
+/**
+ * Options for ISocketFactory.createConnection() to reach an endpoint
+ */
+export function getEndpointConnectOptions(endpoint: AgentEndpoint): { host: string; port: number } | { path: string } {
+    return endpoint.transport === 'tcp'
+        ? { host: 'localhost', port: endpoint.port }
+        : { path: endpoint.path };
+}
+
+/**
+ * Describe an endpoint for logs, e.g. "localhost:52431" or "/run/user/1000/gnupg/S.gpg-agent.extra"
+ */
+export function describeAgentEndpoint(endpoint: AgentEndpoint): string {
+    return endpoint.transport === 'tcp' ? `localhost:${endpoint.port}` : endpoint.path;
+}
+
 /**
  * Result of response completion detection.
  */
@@ -158,14 +297,9 @@ export function detectResponseCompletion(response: string): ResponseCompletion {
         const line = lines[i].trim();
         if (!line) continue;
 
-        if (line.startsWith('OK ') || line === 'OK') {
-            return { complete: true, type: 'OK' };
-        }
-        if (line.startsWith('ERR ')) {
-            return { complete: true, type: 'ERR' };
-        }
-        if (line.startsWith('INQUIRE ')) {
-            return { complete: true, type: 'INQUIRE' };
+        const parsed = parseAssuanLine(line);
+        if (isTerminalLine(parsed)) {
+            return { complete: true, type: parsed.type };
         }
 
         // Found a non-empty line that's not a completion marker
@@ -176,6 +310,253 @@ export function detectResponseCompletion(response: string): ResponseCompletion {
     return { complete: false, type: null };
 }
 
+/**
+ * Data line: "D <percent-escaped data>". data is percent-decoded (latin1 string).
+ */
+export interface AssuanDataLine {
+    type: 'D';
+    data: string;
+}
+
+/**
+ * Status line: "S <keyword> <args>", e.g. "S KEY_CONSIDERED <fpr> 0" or "S PROGRESS ..."
+ */
+export interface AssuanStatusLine {
+    type: 'S';
+    keyword: string;
+    args: string;
+}
+
+/**
+ * Comment line: "# <text>"
+ */
+export interface AssuanCommentLine {
+    type: '#';
+    text: string;
+}
+
+/**
+ * Terminal success line: "OK" or "OK <message>"
+ */
+export interface AssuanOkLine {
+    type: 'OK';
+    message: string;
+}
+
+/**
+ * Terminal error line: "ERR <value> <description>".
+ * value is the full gpg-error value; source and code are its two components.
+ */
+export interface AssuanErrLine {
+    type: 'ERR';
+    value: number;          // 0 if missing or not numeric
+    source: number;         // gpg-error source, e.g. 4 = GPG Agent
+    code: number;           // gpg-error code, e.g. 99 = GPG_ERR_CANCELED
+    description: string;    // e.g. "Operation cancelled <GPG Agent>"
+}
+
+/**
+ * Terminal inquiry line: "INQUIRE <keyword> <args>"
+ */
+export interface AssuanInquireLine {
+    type: 'INQUIRE';
+    keyword: string;
+    args: string;
+}
+
+/**
+ * Line not matching any Assuan response form
+ */
+export interface AssuanUnknownLine {
+    type: 'UNKNOWN';
+    line: string;
+}
+
+export type AssuanTerminalLine = AssuanOkLine | AssuanErrLine | AssuanInquireLine;
+export type AssuanResponseLine = AssuanDataLine | AssuanStatusLine | AssuanCommentLine | AssuanTerminalLine | AssuanUnknownLine;
+
+/**
+ * Typed view of a gpg-agent response.
+ */
+export interface ParsedAssuanResponse {
+    /** Every non-empty line in order, including the terminal line */
+    lines: AssuanResponseLine[];
+    /** Concatenated percent-decoded payload of all D lines */
+    data: string;
+    /** Status lines in order */
+    status: AssuanStatusLine[];
+    /** Final OK/ERR/INQUIRE line, or null if the response is incomplete */
+    terminal: AssuanTerminalLine | null;
+}
+
+/**
+ * Decode Assuan percent-escaping (%XX) used in D lines.
+ * Operates on latin1 strings so decoded bytes stay one char per byte.
+ *
+ * @example
+ * percentDecode('100%25%0A') // '100%\n'
+ */
+export function percentDecode(data: string): string {
+    return data.replace(/%([0-9A-Fa-f]{2})/g, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+/**
+ * Apply Assuan percent-escaping for D lines: %, CR, and LF become %XX.
+ * Operates on latin1 strings so each char is one byte.
+ *
+ * @example
+ * percentEncode('100%\n') // '100%25%0A'
+ */
+export function percentEncode(data: string): string {
+    return data.replace(/[%\r\n]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+}
+
+/**
+ * Assuan's maximum line length in bytes, including the trailing newline.
+ */
+export const ASSUAN_MAX_LINE_LENGTH = 1000;
+
+/**
+ * Maximum escaped payload per D line, leaving room for "D " and the newline
+ * within Assuan's 1000-byte line limit.
+ */
+const MAX_D_LINE_PAYLOAD = ASSUAN_MAX_LINE_LENGTH - 3;
+
+/**
+ * Error for data that breaks Assuan framing. code is the gpg-error code
+ * (e.g. GPG_ERR.ASS_LINE_TOO_LONG) to report to the peer in an ERR line.
+ */
+export class AssuanProtocolError extends Error {
+    constructor(message: string, public readonly code: number) {
+        super(message);
+        this.name = 'AssuanProtocolError';
+    }
+}
+
+/**
+ * ERR line reporting an AssuanProtocolError to the peer, as gpg-agent would.
+ *
+ * @example
+ * formatProtocolErrorResponse(new AssuanProtocolError('...', GPG_ERR.ASS_LINE_TOO_LONG))
+ * // 'ERR 67109127 Line passed to IPC too long <GPG Agent>\n'
+ */
+export function formatProtocolErrorResponse(error: AssuanProtocolError): string {
+    const value = makeGpgErrorValue(GPG_ERR_SOURCE.GPGAGENT, error.code);
+    return `ERR ${value} ${decodeGpgError(value).description} <GPG Agent>\n`;
+}
+
+/**
+ * Size limits for Assuan data received from a peer, so a misbehaving peer cannot
+ * exhaust memory by sending data without the newline or terminator that ends it.
+ */
+export interface AssuanLimits {
+    maxLineLength: number;      // Bytes per command line, including the newline
+    maxInquireBytes: number;    // Bytes per INQUIRE answer, including D line framing and END
+    maxResponseBytes: number;   // Bytes per agent response, including status and D lines
+}
+
+/**
+ * Default limits: Assuan's own line limit, and payloads far larger than keys,
+ * signatures, or keyblocks exchanged in practice.
+ */
+export const DEFAULT_ASSUAN_LIMITS: AssuanLimits = {
+    maxLineLength: ASSUAN_MAX_LINE_LENGTH,
+    maxInquireBytes: 16 * 1024 * 1024,
+    maxResponseBytes: 64 * 1024 * 1024
+};
+
+/**
+ * Encode data as an INQUIRE answer: percent-escaped D lines followed by END.
+ * Operates on latin1 strings; %, CR, and LF are escaped and escapes are never split across lines.
+ *
+ * @example
+ * encodeInquireData('100%\n') // 'D 100%25%0A\nEND\n'
+ */
+export function encodeInquireData(data: string): string {
+    const escaped = percentEncode(data);
+    let block = '';
+    let start = 0;
+    while (start < escaped.length) {
+        let end = Math.min(start + MAX_D_LINE_PAYLOAD, escaped.length);
+        // Back up so a %XX escape is not split across lines
+        const percent = escaped.lastIndexOf('%', end - 1);
+        if (end < escaped.length && percent > end - 3) {
+            end = percent;
+        }
+        block += `D ${escaped.substring(start, end)}\n`;
+        start = end;
+    }
+    return `${block}END\n`;
+}
+
+/**
+ * Parse a single Assuan response line (without trailing newline).
+ *
+ * @example
+ * parseAssuanLine('ERR 67108963 Operation cancelled <GPG Agent>')
+ * // { type: 'ERR', value: 67108963, source: 4, code: 99, description: 'Operation cancelled <GPG Agent>' }
+ */
+export function parseAssuanLine(line: string): AssuanResponseLine {
+    if (line === 'OK' || line.startsWith('OK ')) {
+        return { type: 'OK', message: line.substring(3) };
+    }
+    if (line.startsWith('ERR ')) {
+        const [valueStr, ...rest] = line.substring(4).split(' ');
+        const parsedValue = parseInt(valueStr, 10);
+        const value = isNaN(parsedValue) ? 0 : parsedValue;
+        return { type: 'ERR', value, ...splitGpgErrorValue(value), description: rest.join(' ') };
+    }
+    if (line.startsWith('INQUIRE ')) {
+        const { keyword, args } = splitKeyword(line.substring(8));
+        return { type: 'INQUIRE', keyword, args };
+    }
+    if (line === 'D' || line.startsWith('D ')) {
+        return { type: 'D', data: percentDecode(line.substring(2)) };
+    }
+    if (line.startsWith('S ')) {
+        const { keyword, args } = splitKeyword(line.substring(2));
+        return { type: 'S', keyword, args };
+    }
+    if (line.startsWith('#')) {
+        return { type: '#', text: line.substring(1).trimStart() };
+    }
+    return { type: 'UNKNOWN', line };
+}
+
+/**
+ * Parse a complete or partial gpg-agent response into typed lines.
+ * Only lines terminated by \n are parsed; a trailing partial line is ignored.
+ *
+ * @param response Response string (latin1) from gpg-agent
+ * @returns Typed lines, decoded data, status lines, and the terminal line if present
+ *
+ * @example
+ * parseAssuanResponse('S PROGRESS x\nD abc%25\nOK\n')
+ * // { data: 'abc%', status: [{ type: 'S', keyword: 'PROGRESS', args: 'x' }], terminal: { type: 'OK', message: '' }, ... }
+ */
+export function parseAssuanResponse(response: string): ParsedAssuanResponse {
+    const complete = response.substring(0, response.lastIndexOf('\n') + 1);
+    const lines = complete.split('\n').filter((line) => line.length > 0).map(parseAssuanLine);
+
+    const data = lines.filter((line): line is AssuanDataLine => line.type === 'D').map((line) => line.data).join('');
+    const status = lines.filter((line): line is AssuanStatusLine => line.type === 'S');
+    const last = lines[lines.length - 1];
+    const terminal = last && isTerminalLine(last) ? last : null;
+
+    return { lines, data, status, terminal };
+}
+
+function isTerminalLine(line: AssuanResponseLine): line is AssuanTerminalLine {
+    return line.type === 'OK' || line.type === 'ERR' || line.type === 'INQUIRE';
+}
+
+function splitKeyword(text: string): { keyword: string; args: string } {
+    const spaceIndex = text.indexOf(' ');
+    return spaceIndex === -1
+        ? { keyword: text, args: '' }
+        : { keyword: text.substring(0, spaceIndex), args: text.substring(spaceIndex + 1) };
+}
+
 /**
  * Safely cleanup a socket by removing listeners and destroying it.
  * Uses first-error-wins pattern: returns the first error encountered, logs all errors.
@@ -232,6 +613,86 @@ export function cleanupSocket(
     return cleanupError;
 }
 
+/**
+ * Minimal interface required for backpressure-aware writes.
+ * A structural subset of net.Socket, like CleanableSocket.
+ */
+export interface DrainableSocket {
+    write(data: Buffer, callback: (err?: Error | null) => void): boolean;
+    once(event: 'drain', listener: () => void): unknown;
+    removeListener(event: 'drain', listener: () => void): unknown;
+}
+
+/**
+ * Write data and call back once it has been flushed: the write callback has fired and, when
+ * write() reported a full buffer, the socket has emitted 'drain'. A caller that waits for
+ * the callback before writing again never holds more than one buffer's worth in memory.
+ *
+ * @param socket Socket to write to
+ * @param data Data to write
+ * @param callback Called exactly once, with the write error or null once flushed
+ *
+ * @example
+ * writeWithBackpressure(socket, encodeProtocolData(response), (err) => {
+ *     if (!err) {
+ *         // Safe to write the next response
+ *     }
+ * });
+ */
+export function writeWithBackpressure(
+    socket: DrainableSocket,
+    data: Buffer,
+    callback: (err: Error | null) => void
+): void {
+    let settled = false;
+    let written = false;
+    let drained = true;
+    const settle = (err: Error | null): void => {
+        if (!settled) {
+            settled = true;
+            callback(err);
+        }
+    };
+    const onDrain = (): void => {
+        drained = true;
+        if (written) {
+            settle(null);
+        }
+    };
+
+    drained = socket.write(data, (err) => {
+        if (err) {
+            socket.removeListener('drain', onDrain);
+            settle(err);
+            return;
+        }
+        written = true;
+        if (drained) {
+            settle(null);
+        }
+    });
+    if (!drained) {
+        socket.once('drain', onDrain);
+    }
+}
+
+/**
+ * INQUIRE keywords dirmngr sends to its clients.
+ *
+ * gpg-agent inquires for data its client already has (passphrases, ciphertext). dirmngr
+ * asks for key blocks during KS_PUT (KEYBLOCK, then KEYBLOCK_INFO) and for certificates
+ * and trust decisions during certificate validation, which the client may not have;
+ * it then answers with an empty block (just END).
+ */
+export const DIRMNGR_INQUIRE_KEYWORDS: ReadonlySet<string> = new Set([
+    'KEYBLOCK',
+    'KEYBLOCK_INFO',
+    'SENDCERT',
+    'SENDCERT_SKI',
+    'SENDISSUERCERT',
+    'ISTRUSTED'
+]);
+
 /**
  * Result of command extraction from buffer.
  */
@@ -250,7 +711,9 @@ export interface CommandExtraction {
  * and the remaining buffer is returned.
  *
  * @param buffer Buffer containing potential command data
+ * @param maxLineLength Longest command accepted, including the newline; unlimited if omitted
  * @returns Object with extracted command (or null) and remaining buffer
+ * @throws AssuanProtocolError if the command, complete or still buffering, exceeds maxLineLength
  *
  * @example
  * const result = extractCommand("KEYINFO\nNOP\n");
@@ -259,8 +722,12 @@ export interface CommandExtraction {
  * const partial = extractCommand("KEYINFO");
  * // { extracted: null, remaining: "KEYINFO" }
  */
-export function extractCommand(buffer: string): CommandExtraction {
+export function extractCommand(buffer: string, maxLineLength = Infinity): CommandExtraction {
     const delimiterIndex = buffer.indexOf('\n');
+    const lineLength = delimiterIndex === -1 ? buffer.length : delimiterIndex + 1;
+    if (lineLength > maxLineLength) {
+        throw new AssuanProtocolError(`Command line exceeds ${maxLineLength} bytes`, GPG_ERR.ASS_LINE_TOO_LONG);
+    }
     if (delimiterIndex !== -1) {
         return {
             extracted: buffer.substring(0, delimiterIndex + 1),
@@ -271,29 +738,105 @@ export function extractCommand(buffer: string): CommandExtraction {
 }
 
 /**
- * Extract a complete INQUIRE D-block from buffer (ends with END\n).
+ * Where extractInquireBlock resumes validating a buffer that has only grown since the last call
+ */
+export interface InquireScanPosition {
+    /** Start of the first line not yet validated */
+    offset: number;
+    /** 1-based number of that line within the block, for error messages */
+    lineNumber: number;
+}
+
+/**
+ * Result of INQUIRE block extraction from buffer.
+ */
+export interface InquireExtraction extends CommandExtraction {
+    /** Where to resume on the next call; the start of remaining once a block is extracted */
+    position: InquireScanPosition;
+}
+
+/**
+ * Extract a complete INQUIRE D-block from buffer, terminated by an END or CAN line.
  * Used by request-proxy to parse client D-block responses during INQUIRE flow.
  *
- * A complete D-block ends with END\n. If found, the entire block (including END\n)
+ * The client finishes an inquiry with END, or cancels it with CAN. The buffer is parsed
+ * line by line: every line before the terminator must be a "D <data>" line with valid
+ * percent-escaping, and no line (complete or still buffering) may exceed
+ * ASSUAN_MAX_LINE_LENGTH. If found, the entire block (including the terminator line)
  * is extracted and the remaining buffer is returned.
  *
+ * A caller that appends data chunk by chunk passes back the returned position, so lines
+ * already validated are not scanned again and each chunk costs time for its own length only.
+ *
  * @param buffer Buffer containing potential D-block data
- * @returns Object with extracted D-block (or null) and remaining buffer
+ * @param maxBlockBytes Largest block accepted, including the terminator line; unlimited if omitted
+ * @param from Position returned by the previous call on the same, since appended, buffer
+ * @returns Object with extracted D-block (or null), remaining buffer, and position to resume from
+ * @throws AssuanProtocolError for an overlong line, an invalid escape, a line that is not D, END, or CAN,
+ *         or a block (complete or still buffering) larger than maxBlockBytes
  *
  * @example
  * const result = extractInquireBlock("D some data\nEND\n");
  * // { extracted: "D some data\nEND\n", remaining: "" }
  *
+ * const cancelled = extractInquireBlock("D some\nCAN\n");
+ * // { extracted: "D some\nCAN\n", remaining: "" }
+ *
  * const partial = extractInquireBlock("D some data\n");
- * // { extracted: null, remaining: "D some data\n" }
+ * // { extracted: null, remaining: "D some data\n", position: { offset: 12, lineNumber: 2 } }
  */
-export function extractInquireBlock(buffer: string): CommandExtraction {
-    const delimiterIndex = buffer.indexOf('END\n');
-    if (delimiterIndex !== -1) {
-        return {
-            extracted: buffer.substring(0, delimiterIndex + 4), // 'END\n' is 4 chars
-            remaining: buffer.substring(delimiterIndex + 4)
-        };
+export function extractInquireBlock(
+    buffer: string,
+    maxBlockBytes = Infinity,
+    from: InquireScanPosition = { offset: 0, lineNumber: 1 }
+): InquireExtraction {
+    let lineStart = from.offset;
+    let lineNumber = from.lineNumber;
+    let lineEnd: number;
+    while ((lineEnd = buffer.indexOf('\n', lineStart)) !== -1) {
+        if (lineEnd + 1 - lineStart > ASSUAN_MAX_LINE_LENGTH) {
+            throw new AssuanProtocolError(
+                `Invalid INQUIRE data: line ${lineNumber} exceeds ${ASSUAN_MAX_LINE_LENGTH} bytes`, GPG_ERR.ASS_LINE_TOO_LONG);
+        }
+        if (lineEnd + 1 > maxBlockBytes) {
+            throw new AssuanProtocolError(`Invalid INQUIRE data: block exceeds ${maxBlockBytes} bytes`, GPG_ERR.ASS_TOO_MUCH_DATA);
+        }
+        const line = buffer.substring(lineStart, lineEnd);
+        if (line === 'END' || line === 'CAN') {
+            return {
+                extracted: buffer.substring(0, lineEnd + 1),
+                remaining: buffer.substring(lineEnd + 1),
+                position: { offset: 0, lineNumber: 1 }
+            };
+        }
+        if (line !== 'D' && !line.startsWith('D ')) {
+            throw new AssuanProtocolError(
+                `Invalid INQUIRE data: line ${lineNumber} is not a D, END, or CAN line`, GPG_ERR.ASS_UNEXPECTED_CMD);
+        }
+        if (/%(?![0-9A-Fa-f]{2})/.test(line)) {
+            throw new AssuanProtocolError(
+                `Invalid INQUIRE data: line ${lineNumber} has an invalid percent-escape`, GPG_ERR.ASS_SYNTAX);
+        }
+        lineStart = lineEnd + 1;
+        lineNumber++;
     }
-    return { extracted: null, remaining: buffer };
+    // Reject oversized data before its newline arrives rather than buffering it
+    if (buffer.length > maxBlockBytes) {
+        throw new AssuanProtocolError(`Invalid INQUIRE data: block exceeds ${maxBlockBytes} bytes`, GPG_ERR.ASS_TOO_MUCH_DATA);
+    }
+    if (buffer.length - lineStart >= ASSUAN_MAX_LINE_LENGTH) {
+        throw new AssuanProtocolError(
+            `Invalid INQUIRE data: line ${lineNumber} exceeds ${ASSUAN_MAX_LINE_LENGTH} bytes`, GPG_ERR.ASS_LINE_TOO_LONG);
+    }
+    return { extracted: null, remaining: buffer, position: { offset: lineStart, lineNumber } };
+}
+
+/**
+ * Whether an INQUIRE block extracted by extractInquireBlock was cancelled with CAN.
+ *
+ * @example
+ * isInquireCancelled('D partial\nCAN\n') // true
+ */
+export function isInquireCancelled(block: string): boolean {
+    return block === 'CAN\n' || block.endsWith('\nCAN\n');
 }
@@ -0,0 +1,117 @@
+/**
+ * Incremental framing of Assuan responses received in chunks.
+ * detectResponseCompletion() re-splits the whole response on every call, which is
+ * quadratic when a large response (PKDECRYPT, EXPORT_KEY, keyboxd SEARCH) arrives in
+ * many chunks. The framer keeps the chunks as a list and scans each byte once: only
+ * lines completed by the newest chunk are examined.
+ *
+ * Completion follows detectResponseCompletion(): the response ends with a newline and
+ * its last non-empty line is OK, ERR, or INQUIRE.
+ */
+
+import { parseAssuanLine } from './protocol';
+import type { ResponseCompletion } from './protocol';
+
+/**
+ * Accumulates one Assuan response at a time.
+ *
+ * @example
+ * const framer = new AssuanResponseFramer();
+ * framer.push('D 2.4'); // { complete: false, type: null }
+ * framer.push('.8\nOK\n'); // { complete: true, type: 'OK' }
+ * framer.getResponse(); // 'D 2.4.8\nOK\n'
+ */
+export class AssuanResponseFramer {
+    private chunks: string[] = [];
+    private partialLine: string[] = [];     // Pieces of the line not yet ended by a newline
+    private lastLine: string | null = null; // Last complete non-empty line, trimmed
+    private byteCount = 0;
+    private joined: string | null = null;   // getResponse() cache, cleared by push()
+
+    /** Bytes accumulated since the last reset() */
+    get length(): number {
+        return this.byteCount;
+    }
+
+    /**
+     * Add a chunk and report whether the response is complete.
+     *
+     * @param chunk Data received (latin1 string)
+     * @returns Completion status of everything pushed since the last reset()
+     */
+    push(chunk: string): ResponseCompletion {
+        this.chunks.push(chunk);
+        this.byteCount += chunk.length;
+        this.joined = null;
+
+        let lineStart = 0;
+        let lineEnd: number;
+        while ((lineEnd = chunk.indexOf('\n', lineStart)) !== -1) {
+            this.partialLine.push(chunk.substring(lineStart, lineEnd));
+            const line = this.partialLine.join('').trim();
+            this.partialLine = [];
+            if (line) {
+                this.lastLine = line;
+            }
+            lineStart = lineEnd + 1;
+        }
+        if (lineStart < chunk.length) {
+            this.partialLine.push(chunk.substring(lineStart));
+        }
+        return this.getCompletion();
+    }
+
+    /**
+     * Completion status of everything pushed since the last reset()
+     */
+    getCompletion(): ResponseCompletion {
+        if (this.partialLine.length > 0 || this.lastLine === null) {
+            return { complete: false, type: null };
+        }
+        const parsed = parseAssuanLine(this.lastLine);
+        if (parsed.type === 'OK' || parsed.type === 'ERR' || parsed.type === 'INQUIRE') {
+            return { complete: true, type: parsed.type };
+        }
+        return { complete: false, type: null };
+    }
+
+    /**
+     * The accumulated response as one string
+     */
+    getResponse(): string {
+        if (this.joined === null) {
+            this.joined = this.chunks.join('');
+            this.chunks = this.joined ? [this.joined] : [];
+        }
+        return this.joined;
+    }
+
+    /**
+     * Remove and return the complete lines accumulated so far, so status and D lines can be
+     * forwarded before the response ends. getResponse() then holds only the rest; completion
+     * and length still cover everything pushed since the last reset().
+     *
+     * @returns The complete lines, or '' if no newline arrived since the last call
+     */
+    takeLines(): string {
+        const response = this.getResponse();
+        const end = response.lastIndexOf('\n') + 1;
+        if (end === 0) {
+            return '';
+        }
+        this.joined = response.substring(end);
+        this.chunks = this.joined ? [this.joined] : [];
+        return response.substring(0, end);
+    }
+
+    /**
+     * Discard the accumulated response, e.g. before sending the next command
+     */
+    reset(): void {
+        this.chunks = [];
+        this.partialLine = [];
+        this.lastLine = null;
+        this.byteCount = 0;
+        this.joined = null;
+    }
+}
@@ -0,0 +1,162 @@
+/**
+ * Shared protocol utilities for the OpenSSH agent protocol.
+ * Used by the SSH relay in both agent-proxy and request-proxy extensions.
+ *
+ * Unlike Assuan, the SSH agent protocol is binary: every message is a uint32 big-endian
+ * length followed by that many bytes, the first of which is the message type.
+ * Messages are carried as latin1 strings like Assuan data (see encodeProtocolData()),
+ * so they pass through VS Code commands unchanged.
+ */
+
+import { createHash } from 'crypto';
+import type { CommandExtraction } from './protocol';
+import type { CommandPolicy } from './commandPolicy';
+
+/**
+ * Message types used by ssh and ssh-add (draft-miller-ssh-agent)
+ */
+export const SSH_AGENT_MESSAGE = {
+    FAILURE: 5,
+    SUCCESS: 6,
+    REQUEST_IDENTITIES: 11,
+    IDENTITIES_ANSWER: 12,
+    SIGN_REQUEST: 13,
+    SIGN_RESPONSE: 14,
+    ADD_IDENTITY: 17,
+    REMOVE_IDENTITY: 18,
+    REMOVE_ALL_IDENTITIES: 19,
+    ADD_SMARTCARD_KEY: 20,
+    REMOVE_SMARTCARD_KEY: 21,
+    LOCK: 22,
+    UNLOCK: 23,
+    ADD_ID_CONSTRAINED: 25,
+    ADD_SMARTCARD_KEY_CONSTRAINED: 26,
+    EXTENSION: 27,
+    EXTENSION_FAILURE: 28
+} as const;
+
+const MESSAGE_NAMES: Record<number, string> = Object.fromEntries(
+    Object.entries(SSH_AGENT_MESSAGE).map(([name, type]) => [type, name])
+);
+
+/**
+ * Largest message accepted, same limit as OpenSSH's ssh-agent
+ */
+export const SSH_AGENT_MAX_MESSAGE_LENGTH = 256 * 1024;
+
+/**
+ * Generic failure reply, sent to the client when a request cannot be relayed
+ */
+export const SSH_AGENT_FAILURE_RESPONSE = encodeSshMessage(SSH_AGENT_MESSAGE.FAILURE);
+
+/**
+ * Default policy for SSH agent requests: block messages that add, remove, or lock keys
+ * held by gpg-agent. Rules match message type names (see SSH_AGENT_MESSAGE), e.g. ADD_IDENTITY.
+ * Listing keys and signing are forwarded.
+ */
+export const DEFAULT_SSH_POLICY: CommandPolicy = {
+    defaultAction: 'allow',
+    rules: [
+        { command: 'ADD_IDENTITY', action: 'deny' },
+        { command: 'ADD_ID_CONSTRAINED', action: 'deny' },
+        { command: 'REMOVE_IDENTITY', action: 'deny' },
+        { command: 'REMOVE_ALL_IDENTITIES', action: 'deny' },
+        { command: 'ADD_SMARTCARD_KEY', action: 'deny' },
+        { command: 'ADD_SMARTCARD_KEY_CONSTRAINED', action: 'deny' },
+        { command: 'REMOVE_SMARTCARD_KEY', action: 'deny' },
+        { command: 'LOCK', action: 'deny' },
+        { command: 'UNLOCK', action: 'deny' }
+    ]
+};
+
+/**
+ * Build a framed message from its type and payload.
+ *
+ * @example
+ * encodeSshMessage(SSH_AGENT_MESSAGE.REQUEST_IDENTITIES) // "\x00\x00\x00\x01\x0b"
+ */
+export function encodeSshMessage(type: number, payload: string = ''): string {
+    const length = payload.length + 1;
+    return String.fromCharCode((length >>> 24) & 0xff, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff, type) + payload;
+}
+
+/**
+ * Extract one complete framed message from a buffer.
+ * Used to split client requests and gpg-agent responses out of buffered socket data.
+ *
+ * @param buffer Buffered latin1 data
+ * @returns Object with the extracted message including its length prefix (or null) and remaining buffer
+ * @throws Error if the length prefix is 0 or exceeds SSH_AGENT_MAX_MESSAGE_LENGTH
+ *
+ * @example
+ * extractSshMessage("\x00\x00\x00\x01\x0b\x00\x00")
+ * // { extracted: "\x00\x00\x00\x01\x0b", remaining: "\x00\x00" }
+ */
+export function extractSshMessage(buffer: string): CommandExtraction {
+    if (buffer.length < 4) {
+        return { extracted: null, remaining: buffer };
+    }
+    const length = ((buffer.charCodeAt(0) << 24) | (buffer.charCodeAt(1) << 16) | (buffer.charCodeAt(2) << 8) | buffer.charCodeAt(3)) >>> 0;
+    if (length === 0 || length > SSH_AGENT_MAX_MESSAGE_LENGTH) {
+        throw new Error(`Invalid SSH agent message length: ${length}`);
+    }
+    if (buffer.length < 4 + length) {
+        return { extracted: null, remaining: buffer };
+    }
+    return {
+        extracted: buffer.substring(0, 4 + length),
+        remaining: buffer.substring(4 + length)
+    };
+}
+
+/**
+ * Get the type byte of a framed message, or null if the message is too short
+ */
+export function getSshMessageType(message: string): number | null {
+    return message.length > 4 ? message.charCodeAt(4) : null;
+}
+
+/**
+ * Name the type of a framed message as in SSH_AGENT_MESSAGE; used as the command verb
+ * when a command policy is applied to SSH agent requests.
+ *
+ * @example
+ * getSshMessageName(encodeSshMessage(SSH_AGENT_MESSAGE.ADD_IDENTITY, payload)) // "ADD_IDENTITY"
+ * getSshMessageName(encodeSshMessage(99))                                      // "TYPE_99"
+ */
+export function getSshMessageName(message: string): string {
+    const type = getSshMessageType(message);
+    return type === null ? 'EMPTY' : MESSAGE_NAMES[type] ?? `TYPE_${type}`;
+}
+
+/**
+ * Describe a framed message for logs without its payload, which may hold key material.
+ *
+ * @example
+ * describeSshMessage(encodeSshMessage(SSH_AGENT_MESSAGE.SIGN_REQUEST, payload))
+ * // "SIGN_REQUEST (123 bytes)"
+ */
+export function describeSshMessage(message: string): string {
+    return `${getSshMessageName(message)} (${message.length} bytes)`;
+}
+
+/**
+ * Fingerprint of the key a SIGN_REQUEST asks to sign with, in the form `ssh-add -l` shows.
+ * The payload starts with the public key blob as a length-prefixed string.
+ *
+ * @returns "SHA256:<unpadded base64>", or null if the message is not a well-formed SIGN_REQUEST
+ *
+ * @example
+ * getSshSignRequestFingerprint(signRequest) // "SHA256:uaR4Yq0...Jc"
+ */
+export function getSshSignRequestFingerprint(message: string): string | null {
+    if (getSshMessageType(message) !== SSH_AGENT_MESSAGE.SIGN_REQUEST || message.length < 9) {
+        return null;
+    }
+    const blobLength = ((message.charCodeAt(5) << 24) | (message.charCodeAt(6) << 16) | (message.charCodeAt(7) << 8) | message.charCodeAt(8)) >>> 0;
+    if (blobLength === 0 || 9 + blobLength > message.length) {
+        return null;
+    }
+    const blob = Buffer.from(message.substring(9, 9 + blobLength), 'latin1');
+    return `SHA256:${createHash('sha256').update(blob).digest('base64').replace(/=+$/, '')}`;
+}
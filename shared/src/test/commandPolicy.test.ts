@@ -0,0 +1,180 @@
+/**
+ * Unit tests for the shared command policy engine
+ * These test the pure functions in shared/commandPolicy.ts
+ */
+
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import {
+    DEFAULT_COMMAND_POLICY,
+    parseCommandLine,
+    parseCommandPolicy,
+    evaluateCommand,
+    evaluateCommandPolicy,
+    enforceCommandPolicy,
+} from '../commandPolicy';
+import type { CommandPolicy } from '../commandPolicy';
+
+const KEYGRIP_A = 'D27BB288411333745EE1B194FBC6162A92775BA4';
+const KEYGRIP_B = '0123456789ABCDEF0123456789ABCDEF01234567';
+
+describe('Command Policy', () => {
+    describe('parseCommandLine', () => {
+        it('splits verb and arguments', () => {
+            assert.deepStrictEqual(parseCommandLine(`SIGKEY ${KEYGRIP_A}\n`), { verb: 'SIGKEY', args: KEYGRIP_A });
+        });
+
+        it('upper-cases the verb', () => {
+            assert.strictEqual(parseCommandLine('getinfo version\n').verb, 'GETINFO');
+        });
+
+        it('handles verb without arguments', () => {
+            assert.deepStrictEqual(parseCommandLine('NOP\n'), { verb: 'NOP', args: '' });
+        });
+
+        it('handles empty line', () => {
+            assert.deepStrictEqual(parseCommandLine('\n'), { verb: '', args: '' });
+        });
+    });
+
+    describe('parseCommandPolicy', () => {
+        it('accepts the default policy', () => {
+            assert.deepStrictEqual(parseCommandPolicy(DEFAULT_COMMAND_POLICY), DEFAULT_COMMAND_POLICY);
+        });
+
+        it('defaults missing fields to allow with no rules', () => {
+            assert.deepStrictEqual(parseCommandPolicy({}), { defaultAction: 'allow', rules: [] });
+        });
+
+        it('upper-cases rule commands', () => {
+            const policy = parseCommandPolicy({ rules: [{ command: 'delete_key', action: 'deny' }] });
+            assert.strictEqual(policy.rules[0].command, 'DELETE_KEY');
+        });
+
+        it('rejects non-object values', () => {
+            assert.throws(() => parseCommandPolicy(null), /expected an object/);
+            assert.throws(() => parseCommandPolicy([]), /expected an object/);
+        });
+
+        it('rejects unknown actions', () => {
+            assert.throws(() => parseCommandPolicy({ defaultAction: 'maybe' }), /defaultAction/);
+            assert.throws(() => parseCommandPolicy({ rules: [{ command: 'NOP', action: 'maybe' }] }), /rules\[0\]\.action/);
+        });
+
+        it('rejects invalid command verbs', () => {
+            assert.throws(() => parseCommandPolicy({ rules: [{ command: 'NOP X', action: 'deny' }] }), /rules\[0\]\.command/);
+        });
+
+        it('rejects invalid argument patterns', () => {
+            assert.throws(() => parseCommandPolicy({ rules: [{ command: 'SIGKEY', args: '(', action: 'deny' }] }), /rules\[0\]\.args/);
+        });
+    });
+
+    describe('evaluateCommand', () => {
+        it('denies dangerous commands with the default policy', () => {
+            for (const verb of ['PRESET_PASSPHRASE', 'DELETE_KEY', 'IMPORT_KEY', 'EXPORT_KEY']) {
+                assert.strictEqual(evaluateCommand(DEFAULT_COMMAND_POLICY, `${verb} ${KEYGRIP_A}\n`).action, 'deny', verb);
+            }
+        });
+
+        it('allows other commands with the default policy', () => {
+            const decision = evaluateCommand(DEFAULT_COMMAND_POLICY, 'GETINFO version\n');
+            assert.strictEqual(decision.action, 'allow');
+            assert.strictEqual(decision.rule, null);
+        });
+
+        it('matches verbs case-insensitively', () => {
+            assert.strictEqual(evaluateCommand(DEFAULT_COMMAND_POLICY, 'delete_key ABC\n').action, 'deny');
+        });
+
+        it('applies first matching rule', () => {
+            const policy: CommandPolicy = {
+                defaultAction: 'allow',
+                rules: [
+                    { command: 'SIGKEY', args: `^${KEYGRIP_A}$`, action: 'allow' },
+                    { command: 'SIGKEY', action: 'deny' }
+                ]
+            };
+            assert.strictEqual(evaluateCommand(policy, `SIGKEY ${KEYGRIP_A}\n`).action, 'allow');
+            assert.strictEqual(evaluateCommand(policy, `SIGKEY ${KEYGRIP_B}\n`).action, 'deny');
+        });
+
+        it('supports wildcard rules', () => {
+            const policy: CommandPolicy = {
+                defaultAction: 'allow',
+                rules: [{ command: '*', action: 'confirm' }]
+            };
+            assert.strictEqual(evaluateCommand(policy, 'PKSIGN\n').action, 'confirm');
+        });
+    });
+
+    describe('evaluateCommandPolicy', () => {
+        it('returns null for blocks without commands', () => {
+            assert.strictEqual(evaluateCommandPolicy(DEFAULT_COMMAND_POLICY, 'D secret\nEND\n'), null);
+        });
+
+        it('skips INQUIRE data lines when the default action is deny', () => {
+            const policy: CommandPolicy = { defaultAction: 'deny', rules: [] };
+            assert.strictEqual(evaluateCommandPolicy(policy, 'D DELETE_KEY\nCAN\n'), null);
+        });
+
+        it('returns the most restrictive decision in a block', () => {
+            const policy: CommandPolicy = {
+                defaultAction: 'allow',
+                rules: [
+                    { command: 'PKSIGN', action: 'confirm' },
+                    { command: 'DELETE_KEY', action: 'deny' }
+                ]
+            };
+            assert.strictEqual(evaluateCommandPolicy(policy, 'NOP\nPKSIGN\n')!.action, 'confirm');
+            assert.strictEqual(evaluateCommandPolicy(policy, 'PKSIGN\nDELETE_KEY ABC\n')!.action, 'deny');
+        });
+    });
+
+    describe('enforceCommandPolicy', () => {
+        it('allows everything when no policy is configured', async () => {
+            assert.strictEqual(await enforceCommandPolicy({}, 'session', 'DELETE_KEY ABC\n'), true);
+        });
+
+        it('denies commands rejected by policy and logs the verb only', async () => {
+            const logs: string[] = [];
+            const allowed = await enforceCommandPolicy(
+                { commandPolicy: DEFAULT_COMMAND_POLICY, logCallback: (msg) => logs.push(msg) },
+                'session',
+                'PRESET_PASSPHRASE ABC -1 736563726574\n'
+            );
+            assert.strictEqual(allowed, false);
+            assert.ok(logs.some((msg) => msg.includes('PRESET_PASSPHRASE')));
+            assert.ok(!logs.some((msg) => msg.includes('736563726574')), 'arguments must not be logged');
+        });
+
+        it('denies confirm actions without a confirmation callback', async () => {
+            const policy: CommandPolicy = { defaultAction: 'confirm', rules: [] };
+            assert.strictEqual(await enforceCommandPolicy({ commandPolicy: policy }, 'session', 'PKSIGN\n'), false);
+        });
+
+        it('forwards confirm actions according to the callback result', async () => {
+            const policy: CommandPolicy = { defaultAction: 'confirm', rules: [] };
+            const seen: string[] = [];
+            const config = {
+                commandPolicy: policy,
+                confirmCommandCallback: async (sessionId: string, decision: { verb: string }) => {
+                    seen.push(`${sessionId}:${decision.verb}`);
+                    return decision.verb === 'PKSIGN';
+                }
+            };
+            assert.strictEqual(await enforceCommandPolicy(config, 'session', 'PKSIGN\n'), true);
+            assert.strictEqual(await enforceCommandPolicy(config, 'session', 'PKDECRYPT\n'), false);
+            assert.deepStrictEqual(seen, ['session:PKSIGN', 'session:PKDECRYPT']);
+        });
+
+        it('denies when the confirmation callback rejects', async () => {
+            const policy: CommandPolicy = { defaultAction: 'confirm', rules: [] };
+            const config = {
+                commandPolicy: policy,
+                confirmCommandCallback: async () => { throw new Error('dialog failed'); }
+            };
+            assert.strictEqual(await enforceCommandPolicy(config, 'session', 'PKSIGN\n'), false);
+        });
+    });
+});
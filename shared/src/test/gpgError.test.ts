@@ -0,0 +1,80 @@
+/**
+ * Unit tests for gpg-error value decoding
+ * These test the pure functions in shared/gpgError.ts
+ */
+
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import {
+    GPG_ERR,
+    GPG_ERR_SOURCE,
+    splitGpgErrorValue,
+    makeGpgErrorValue,
+    decodeGpgError,
+    formatGpgError,
+} from '../gpgError';
+
+describe('GPG Error Codes', () => {
+    describe('splitGpgErrorValue', () => {
+        it('splits source and code', () => {
+            assert.deepStrictEqual(splitGpgErrorValue(67108963), { source: 4, code: 99 });
+            assert.deepStrictEqual(splitGpgErrorValue(67109139), { source: 4, code: 275 });
+        });
+
+        it('handles values without a source', () => {
+            assert.deepStrictEqual(splitGpgErrorValue(17), { source: 0, code: 17 });
+        });
+    });
+
+    describe('makeGpgErrorValue', () => {
+        it('combines source and code', () => {
+            assert.strictEqual(makeGpgErrorValue(GPG_ERR_SOURCE.GPGAGENT, GPG_ERR.CANCELED), 67108963);
+            assert.strictEqual(makeGpgErrorValue(GPG_ERR_SOURCE.GPGAGENT, GPG_ERR.FORBIDDEN), 67109115);
+        });
+
+        it('keeps success as 0 regardless of source', () => {
+            assert.strictEqual(makeGpgErrorValue(GPG_ERR_SOURCE.GPGAGENT, GPG_ERR.NO_ERROR), 0);
+        });
+    });
+
+    describe('decodeGpgError', () => {
+        it('decodes gpg-agent errors', () => {
+            assert.deepStrictEqual(decodeGpgError(67108881), {
+                value: 67108881,
+                source: 4,
+                sourceName: 'GPG_ERR_SOURCE_GPGAGENT',
+                sourceDescription: 'gpg-agent',
+                code: 17,
+                name: 'GPG_ERR_NO_SECKEY',
+                description: 'No secret key'
+            });
+        });
+
+        it('decodes common codes', () => {
+            assert.strictEqual(decodeGpgError(67108963).name, 'GPG_ERR_CANCELED');
+            assert.strictEqual(decodeGpgError(67108926).name, 'GPG_ERR_TIMEOUT');
+            assert.strictEqual(decodeGpgError(67109139).name, 'GPG_ERR_ASS_UNKNOWN_CMD');
+            assert.strictEqual(decodeGpgError(83886179).sourceDescription, 'pinentry');
+        });
+
+        it('decodes system errno codes', () => {
+            const info = decodeGpgError(makeGpgErrorValue(GPG_ERR_SOURCE.GPGAGENT, 0x8000 | 2));
+            assert.strictEqual(info.name, 'GPG_ERR_SYSTEM_ERROR_2');
+            assert.strictEqual(info.description, 'System error 2');
+        });
+
+        it('falls back to generic names for unknown sources and codes', () => {
+            const info = decodeGpgError(makeGpgErrorValue(100, 9999));
+            assert.strictEqual(info.sourceName, 'GPG_ERR_SOURCE_100');
+            assert.strictEqual(info.name, 'GPG_ERR_CODE_9999');
+            assert.strictEqual(info.description, 'Unknown error code 9999');
+        });
+    });
+
+    describe('formatGpgError', () => {
+        it('formats description and source', () => {
+            assert.strictEqual(formatGpgError(67108881), 'No secret key (gpg-agent)');
+            assert.strictEqual(formatGpgError(67108963), 'Operation cancelled (gpg-agent)');
+        });
+    });
+});
@@ -7,14 +7,15 @@
 
 import { EventEmitter } from 'events';
 import * as net from 'net';
-import type { IFileSystem, ISocketFactory, ICommandExecutor, IServerFactory } from '../types';
+import type { IFileSystem, IFileWatcher, ISocketFactory, ICommandExecutor, ISshCommandExecutor, IServerFactory, SendCommandsOptions, SendCommandsResult } from '../types';
 
 /**
  * Mock FileSystem - tracks calls and allows test control
  */
-export class MockFileSystem implements IFileSystem {
+export class MockFileSystem implements IFileSystem, IFileWatcher {
     private files: Map<string, Buffer> = new Map();
     private directories: Set<string> = new Set();
+    private watchers: Map<string, Set<() => void>> = new Map();
     public callLog: Array<{ method: string; args: unknown[] }> = [];
 
     existsSync(path: string): boolean {
@@ -42,11 +43,59 @@ export class MockFileSystem implements IFileSystem {
         this.directories.delete(path);
     }
 
+    statSync(path: string): { size: number } {
+        this.callLog.push({ method: 'statSync', args: [path] });
+        const content = this.files.get(path);
+        if (!content) {
+            throw new Error(`ENOENT: no such file, stat '${path}'`);
+        }
+        return { size: content.length };
+    }
+
+    appendFileSync(path: string, data: string, options?: { mode?: number }): void {
+        this.callLog.push({ method: 'appendFileSync', args: [path, data, options] });
+        const existing = this.files.get(path) ?? Buffer.alloc(0);
+        this.files.set(path, Buffer.concat([existing, Buffer.from(data, 'utf-8')]));
+    }
+
+    renameSync(oldPath: string, newPath: string): void {
+        this.callLog.push({ method: 'renameSync', args: [oldPath, newPath] });
+        const content = this.files.get(oldPath);
+        if (!content) {
+            throw new Error(`ENOENT: no such file, rename '${oldPath}'`);
+        }
+        this.files.set(newPath, content);
+        this.files.delete(oldPath);
+    }
+
+    watch(path: string, listener: () => void): { close(): void } {
+        this.callLog.push({ method: 'watch', args: [path] });
+        const listeners = this.watchers.get(path) ?? new Set();
+        listeners.add(listener);
+        this.watchers.set(path, listeners);
+        return { close: () => listeners.delete(listener) };
+    }
+
     // Test helper methods
     setFile(path: string, content: Buffer): void {
         this.files.set(path, content);
     }
 
+    /** Notify watchers of path, as a real watcher would after a file change */
+    triggerWatch(path: string): void {
+        for (const listener of [...(this.watchers.get(path) ?? [])]) {
+            listener();
+        }
+    }
+
+    getWatcherCount(path: string): number {
+        return this.watchers.get(path)?.size ?? 0;
+    }
+
+    getFile(path: string): Buffer | undefined {
+        return this.files.get(path);
+    }
+
     getCallCount(method: string): number {
         return this.callLog.filter((call) => call.method === method).length;
     }
@@ -69,6 +118,8 @@ export class MockSocket extends EventEmitter {
     private _paused = false;
     private connectTimeout: NodeJS.Timeout | null = null;
     public afterWriteCallback: (() => void) | null = null;
+    public backpressure = false;    // When set, write() returns false and holds callbacks until drain()
+    private heldWriteCallbacks: Array<(err: Error | null) => void> = [];
 
     write(data: Buffer | string, callback?: (err?: Error | null) => void): boolean {
         if (this.destroyed) {
@@ -90,6 +141,13 @@ export class MockSocket extends EventEmitter {
             return false;
         }
 
+        if (this.backpressure) {
+            if (callback) {
+                this.heldWriteCallbacks.push(callback);
+            }
+            return false;
+        }
+
         if (callback) {
             setImmediate(() => callback(null));
         }
@@ -108,6 +166,24 @@ export class MockSocket extends EventEmitter {
         this.writeError = error;
     }
 
+    /**
+     * Flush writes held back by backpressure: run their callbacks, then emit 'drain'
+     */
+    drain(): void {
+        this.backpressure = false;
+        const callbacks = this.heldWriteCallbacks;
+        this.heldWriteCallbacks = [];
+        callbacks.forEach((callback) => callback(null));
+        this.emit('drain');
+    }
+
+    /**
+     * Number of writes waiting for drain()
+     */
+    getHeldWriteCount(): number {
+        return this.heldWriteCallbacks.length;
+    }
+
     removeAllListeners(event?: string | symbol): this {
         if (this.removeAllListenersError) {
             const err = this.removeAllListenersError;
@@ -131,6 +207,10 @@ export class MockSocket extends EventEmitter {
         }
 
         this.destroyed = true;
+        // Like net.Socket, fail writes that never flushed
+        const callbacks = this.heldWriteCallbacks;
+        this.heldWriteCallbacks = [];
+        callbacks.forEach((callback) => setImmediate(() => callback(new Error('Socket is destroyed'))));
         const hadError = !!error;
         if (error) {
             this.emit('error', error);
@@ -349,7 +429,7 @@ export class MockCommandExecutor implements ICommandExecutor {
         sessionId: 'test-session-123',
         greeting: 'OK GPG-Agent (GnuPG) 2.2.19 running in restricted mode\n'
     };
-    public sendCommandsResponse: { response: string } = { response: 'OK\n' };
+    public sendCommandsResponse: SendCommandsResult = { response: 'OK\n' };
     public connectAgentError: Error | null = null;
     public sendCommandsError: Error | null = null;
     public disconnectAgentError: Error | null = null;
@@ -362,16 +442,16 @@ export class MockCommandExecutor implements ICommandExecutor {
         return this.connectAgentResponse;
     }
 
-    async sendCommands(sessionId: string, commandBlock: string): Promise<{ response: string }> {
-        this.calls.push({ method: 'sendCommands', args: [sessionId, commandBlock] });
+    async sendCommands(sessionId: string, commandBlock: string, options?: SendCommandsOptions): Promise<SendCommandsResult> {
+        this.calls.push({ method: 'sendCommands', args: options ? [sessionId, commandBlock, options] : [sessionId, commandBlock] });
         if (this.sendCommandsError) {
             throw this.sendCommandsError;
         }
         return this.sendCommandsResponse;
     }
 
-    async disconnectAgent(sessionId: string): Promise<void> {
-        this.calls.push({ method: 'disconnectAgent', args: [sessionId] });
+    async disconnectAgent(sessionId: string, reason?: string): Promise<void> {
+        this.calls.push({ method: 'disconnectAgent', args: reason ? [sessionId, reason] : [sessionId] });
         if (this.disconnectAgentError) {
             throw this.disconnectAgentError;
         }
@@ -408,6 +488,45 @@ export class MockCommandExecutor implements ICommandExecutor {
     }
 }
 
+/**
+ * Mock SSH Command Executor - records SSH relay calls and answers with canned responses
+ */
+export class MockSshCommandExecutor implements ISshCommandExecutor {
+    public calls: Array<{ method: string; args: unknown[] }> = [];
+    public sendSshRequestResponse: { response: string } = { response: '\x00\x00\x00\x01\x06' };  // SSH_AGENT_SUCCESS
+    public connectSshAgentError: Error | null = null;
+    public sendSshRequestError: Error | null = null;
+
+    async connectSshAgent(sessionId?: string): Promise<{ sessionId: string }> {
+        this.calls.push({ method: 'connectSshAgent', args: [sessionId] });
+        if (this.connectSshAgentError) {
+            throw this.connectSshAgentError;
+        }
+        return { sessionId: sessionId ?? 'test-ssh-session' };
+    }
+
+    async sendSshRequest(sessionId: string, message: string): Promise<{ response: string }> {
+        this.calls.push({ method: 'sendSshRequest', args: [sessionId, message] });
+        if (this.sendSshRequestError) {
+            throw this.sendSshRequestError;
+        }
+        return this.sendSshRequestResponse;
+    }
+
+    async disconnectSshAgent(sessionId: string): Promise<void> {
+        this.calls.push({ method: 'disconnectSshAgent', args: [sessionId] });
+    }
+
+    getCallCount(method: string): number {
+        return this.calls.filter((call) => call.method === method).length;
+    }
+
+    getCallArgs(method: string, callIndex: number = 0): unknown[] {
+        const calls = this.calls.filter((call) => call.method === method);
+        return calls[callIndex]?.args || [];
+    }
+}
+
 /**
  * Mock Socket Factory - creates mock sockets
  */
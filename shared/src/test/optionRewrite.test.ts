@@ -0,0 +1,91 @@
+/**
+ * Unit tests for OPTION command rewriting
+ * These test the pure functions in shared/optionRewrite.ts
+ */
+
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import {
+    DEFAULT_OPTION_REWRITE_RULES,
+    parseOptionName,
+    parseOptionRewriteRules,
+    rewriteOptionCommand,
+} from '../optionRewrite';
+
+describe('OPTION Rewrite', () => {
+    describe('parseOptionName', () => {
+        it('reads name=value', () => {
+            assert.strictEqual(parseOptionName('ttyname=/dev/pts/3'), 'ttyname');
+        });
+
+        it('reads name value, a leading --, and lower-cases', () => {
+            assert.strictEqual(parseOptionName('--Display :0'), 'display');
+        });
+
+        it('reads a bare name', () => {
+            assert.strictEqual(parseOptionName('allow-pinentry-notify'), 'allow-pinentry-notify');
+        });
+    });
+
+    describe('parseOptionRewriteRules', () => {
+        it('accepts the defaults', () => {
+            assert.deepStrictEqual(parseOptionRewriteRules(DEFAULT_OPTION_REWRITE_RULES), DEFAULT_OPTION_REWRITE_RULES);
+        });
+
+        it('lower-cases option names and keeps replacement values', () => {
+            assert.deepStrictEqual(
+                parseOptionRewriteRules([{ option: 'LC-MESSAGES', action: 'replace', value: 'de_DE.UTF-8' }]),
+                [{ option: 'lc-messages', action: 'replace', value: 'de_DE.UTF-8' }]
+            );
+        });
+
+        it('rejects a non-array', () => {
+            assert.throws(() => parseOptionRewriteRules({}), /expected an array/);
+        });
+
+        it('rejects an unknown action', () => {
+            assert.throws(() => parseOptionRewriteRules([{ option: 'display', action: 'deny' }]), /\[0\]\.action/);
+        });
+
+        it('rejects replace without a single-line value', () => {
+            assert.throws(() => parseOptionRewriteRules([{ option: 'display', action: 'replace' }]), /\[0\]\.value/);
+            assert.throws(() => parseOptionRewriteRules([{ option: 'display', action: 'replace', value: ':0\nBYE' }]), /\[0\]\.value/);
+        });
+
+        it('rejects an invalid option name', () => {
+            assert.throws(() => parseOptionRewriteRules([{ option: 'a=b', action: 'drop' }]), /\[0\]\.option/);
+        });
+    });
+
+    describe('rewriteOptionCommand', () => {
+        it('drops remote terminal and desktop options by default', () => {
+            for (const command of ['OPTION ttyname=/dev/pts/3\n', 'OPTION display=:0\n', 'OPTION putenv=GPG_TTY=/dev/pts/3\n', 'option lc-ctype=C.UTF-8\n']) {
+                assert.strictEqual(rewriteOptionCommand(DEFAULT_OPTION_REWRITE_RULES, command)?.action, 'drop', command);
+            }
+        });
+
+        it('leaves other options and commands alone', () => {
+            assert.strictEqual(rewriteOptionCommand(DEFAULT_OPTION_REWRITE_RULES, 'OPTION pinentry-mode=loopback\n'), null);
+            assert.strictEqual(rewriteOptionCommand(DEFAULT_OPTION_REWRITE_RULES, 'GETINFO version\n'), null);
+            assert.strictEqual(rewriteOptionCommand(DEFAULT_OPTION_REWRITE_RULES, 'D ttyname\nEND\n'), null);
+        });
+
+        it('replaces the value', () => {
+            const rules = [{ option: 'lc-messages', action: 'replace' as const, value: 'de_DE.UTF-8' }];
+            assert.deepStrictEqual(rewriteOptionCommand(rules, 'OPTION lc-messages C\n'), {
+                action: 'replace',
+                option: 'lc-messages',
+                commandBlock: 'OPTION lc-messages=de_DE.UTF-8\n'
+            });
+        });
+
+        it('uses the first rule naming the option', () => {
+            const rules = parseOptionRewriteRules([{ option: 'display', action: 'forward' }, ...DEFAULT_OPTION_REWRITE_RULES]);
+            assert.deepStrictEqual(rewriteOptionCommand(rules, 'OPTION display=:0\n'), {
+                action: 'forward',
+                option: 'display',
+                commandBlock: 'OPTION display=:0\n'
+            });
+        });
+    });
+});
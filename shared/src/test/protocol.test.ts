@@ -11,11 +11,28 @@ import {
     sanitizeForLog,
     extractErrorMessage,
     parseSocketFile,
+    parseSocketFileContents,
+    getDefaultAgentTransport,
+    resolveAgentEndpoint,
+    getEndpointConnectOptions,
+    describeAgentEndpoint,
     detectResponseCompletion,
     cleanupSocket,
+    writeWithBackpressure,
     extractCommand,
     extractInquireBlock,
+    isInquireCancelled,
+    percentDecode,
+    percentEncode,
+    encodeInquireData,
+    parseAssuanLine,
+    parseAssuanResponse,
+    ASSUAN_MAX_LINE_LENGTH,
+    AssuanProtocolError,
+    formatProtocolErrorResponse,
 } from '../protocol';
+import { GPG_ERR } from '../gpgError';
+import { MockSocket } from './helpers';
 
 // Test helper for creating buffers
 function createBuffer(text: string): Buffer {
@@ -153,6 +170,98 @@ describe('Protocol Utilities', () => {
         });
     });
 
+    describe('Agent Transport', () => {
+        const files = (entries: Record<string, Buffer>) => ({
+            existsSync: (path: string) => path in entries,
+            readFileSync: (path: string) => entries[path] ?? Buffer.alloc(0)
+        });
+        const nonce = Buffer.alloc(16, 7);
+
+        it('getDefaultAgentTransport uses socket emulation only on Windows', () => {
+            assert.strictEqual(getDefaultAgentTransport('win32'), 'tcp');
+            assert.strictEqual(getDefaultAgentTransport('darwin'), 'unix');
+            assert.strictEqual(getDefaultAgentTransport('linux'), 'unix');
+        });
+
+        it('resolveAgentEndpoint reads port and nonce for the tcp transport', () => {
+            const fileSystem = files({ 'S.gpg-agent': Buffer.concat([Buffer.from('31415\n'), nonce]) });
+            const endpoint = resolveAgentEndpoint('S.gpg-agent', 'tcp', fileSystem);
+            assert.deepStrictEqual(endpoint, { transport: 'tcp', port: 31415, nonce });
+            assert.deepStrictEqual(getEndpointConnectOptions(endpoint), { host: 'localhost', port: 31415 });
+            assert.strictEqual(describeAgentEndpoint(endpoint), 'localhost:31415');
+        });
+
+        it('resolveAgentEndpoint connects to the path for the unix transport', () => {
+            const socketPath = '/run/user/1000/gnupg/S.gpg-agent';
+            const endpoint = resolveAgentEndpoint(socketPath, 'unix', files({ [socketPath]: Buffer.alloc(0) }));
+            assert.deepStrictEqual(endpoint, { transport: 'unix', path: socketPath });
+            assert.deepStrictEqual(getEndpointConnectOptions(endpoint), { path: socketPath });
+            assert.strictEqual(describeAgentEndpoint(endpoint), socketPath);
+        });
+
+        it('resolveAgentEndpoint throws when the unix socket is missing', () => {
+            assert.throws(() => resolveAgentEndpoint('/run/user/1000/gnupg/S.gpg-agent', 'unix', files({})), /Socket not found/);
+        });
+
+        it('resolveAgentEndpoint follows a redirection to a unix socket', () => {
+            const fileSystem = files({
+                '/home/me/.gnupg/S.gpg-agent': Buffer.from('%Assuan%\nsocket=${XDG_RUNTIME_DIR}/gnupg/S.gpg-agent\n'),
+                '/run/user/1000/gnupg/S.gpg-agent': Buffer.alloc(0)
+            });
+            const endpoint = resolveAgentEndpoint('/home/me/.gnupg/S.gpg-agent', 'unix', fileSystem, { XDG_RUNTIME_DIR: '/run/user/1000' });
+            assert.deepStrictEqual(endpoint, { transport: 'unix', path: '/run/user/1000/gnupg/S.gpg-agent' });
+        });
+
+        it('resolveAgentEndpoint follows a redirection to a tcp socket file', () => {
+            const fileSystem = files({
+                'C:\\gnupg\\S.gpg-agent': Buffer.from('%Assuan%\nsocket=D:\\gnupg\\S.gpg-agent'),
+                'D:\\gnupg\\S.gpg-agent': Buffer.concat([Buffer.from('31415\n'), nonce])
+            });
+            const endpoint = resolveAgentEndpoint('C:\\gnupg\\S.gpg-agent', 'tcp', fileSystem);
+            assert.deepStrictEqual(endpoint, { transport: 'tcp', port: 31415, nonce });
+        });
+
+        it('resolveAgentEndpoint rejects a redirection to another redirection', () => {
+            const fileSystem = files({
+                '/a': Buffer.from('%Assuan%\nsocket=/b\n'),
+                '/b': Buffer.from('%Assuan%\nsocket=/a\n')
+            });
+            assert.throws(() => resolveAgentEndpoint('/a', 'unix', fileSystem), /redirects more than once/);
+        });
+
+        it('resolveAgentEndpoint rejects Cygwin-style socket files', () => {
+            const fileSystem = files({ 'S.gpg-agent.ssh': Buffer.from('!<socket >31415 s 04030201-08070605-0C0B0A09-100F0E0D\0') });
+            assert.throws(() => resolveAgentEndpoint('S.gpg-agent.ssh', 'tcp', fileSystem), /Cygwin-style socket files are not supported/);
+        });
+    });
+
+    describe('Socket File Formats', () => {
+        it('parseSocketFileContents reads the libassuan nonce format', () => {
+            const nonce = Buffer.alloc(16, 3);
+            const result = parseSocketFileContents(Buffer.concat([Buffer.from('31415\n'), nonce]));
+            assert.deepStrictEqual(result, { format: 'nonce', port: 31415, nonce });
+        });
+
+        it('parseSocketFileContents rejects the Cygwin format', () => {
+            assert.throws(
+                () => parseSocketFileContents(Buffer.from('!<socket >31415 s 04030201-08070605-0C0B0A09-100F0E0D\0')),
+                /Cygwin-style socket files are not supported/
+            );
+        });
+
+        it('parseSocketFileContents expands environment variables in a redirection', () => {
+            const result = parseSocketFileContents(
+                Buffer.from('%Assuan%\nsocket=${HOME}/.gnupg/${UNSET}S.gpg-agent\n'),
+                { HOME: '/home/me' }
+            );
+            assert.deepStrictEqual(result, { format: 'redirect', path: '/home/me/.gnupg/S.gpg-agent' });
+        });
+
+        it('parseSocketFileContents throws on an empty redirection', () => {
+            assert.throws(() => parseSocketFileContents(Buffer.from('%Assuan%\nsocket=\n')), /empty socket path/);
+        });
+    });
+
     describe('Binary Data Handling (GPG Agent Responses)', () => {
         it('encodeProtocolData round-trips all latin1 byte values (0-255)', () => {
             // Create a string with all 256 byte values
@@ -476,6 +585,122 @@ describe('Protocol Utilities', () => {
         });
     });
 
+    describe('Response Parsing', () => {
+        describe('percentDecode', () => {
+            it('decodes escaped bytes', () => {
+                assert.strictEqual(percentDecode('100%25%0D%0Adone'), '100%\r\ndone');
+            });
+
+            it('decodes high bytes to single latin1 chars', () => {
+                const decoded = percentDecode('%FF%00');
+                assert.strictEqual(decoded.length, 2);
+                assert.strictEqual(decoded.charCodeAt(0), 0xFF);
+            });
+
+            it('leaves incomplete escapes unchanged', () => {
+                assert.strictEqual(percentDecode('50%'), '50%');
+            });
+        });
+
+        describe('percentEncode', () => {
+            it('escapes percent, CR, and LF only', () => {
+                assert.strictEqual(percentEncode('/run/100%\r\n x+y'), '/run/100%25%0D%0A x+y');
+            });
+
+            it('round-trips through percentDecode', () => {
+                const data = 'a%b\nc\xFF';
+                assert.strictEqual(percentDecode(percentEncode(data)), data);
+            });
+        });
+
+        describe('encodeInquireData', () => {
+            it('escapes percent, CR, and LF and ends with END', () => {
+                assert.strictEqual(encodeInquireData('100%\r\nok'), 'D 100%25%0D%0Aok\nEND\n');
+            });
+
+            it('answers empty data with END only', () => {
+                assert.strictEqual(encodeInquireData(''), 'END\n');
+            });
+
+            it('splits long data into lines without splitting escapes', () => {
+                const block = encodeInquireData('a'.repeat(996) + '%' + 'b'.repeat(10));
+                const lines = block.split('\n');
+                assert.strictEqual(lines[0], 'D ' + 'a'.repeat(996));
+                assert.strictEqual(lines[1], 'D %25' + 'b'.repeat(10));
+                assert.strictEqual(lines[2], 'END');
+                assert.strictEqual(percentDecode(lines[0].substring(2) + lines[1].substring(2)), 'a'.repeat(996) + '%' + 'b'.repeat(10));
+            });
+        });
+
+        describe('parseAssuanLine', () => {
+            it('parses OK lines', () => {
+                assert.deepStrictEqual(parseAssuanLine('OK'), { type: 'OK', message: '' });
+                assert.deepStrictEqual(parseAssuanLine('OK Pleased to meet you'), { type: 'OK', message: 'Pleased to meet you' });
+            });
+
+            it('parses ERR lines with source and code', () => {
+                assert.deepStrictEqual(parseAssuanLine('ERR 67108881 No secret key <GPG Agent>'), {
+                    type: 'ERR', value: 67108881, source: 4, code: 17, description: 'No secret key <GPG Agent>'
+                });
+            });
+
+            it('parses ERR lines with a malformed value', () => {
+                const line = parseAssuanLine('ERR oops');
+                assert.strictEqual(line.type, 'ERR');
+                assert.strictEqual(line.type === 'ERR' && line.value, 0);
+            });
+
+            it('parses INQUIRE lines', () => {
+                assert.deepStrictEqual(parseAssuanLine('INQUIRE PINENTRY_LAUNCHED 1234 curses 1.2.1'), {
+                    type: 'INQUIRE', keyword: 'PINENTRY_LAUNCHED', args: '1234 curses 1.2.1'
+                });
+                assert.deepStrictEqual(parseAssuanLine('INQUIRE CIPHERTEXT'), { type: 'INQUIRE', keyword: 'CIPHERTEXT', args: '' });
+            });
+
+            it('parses status lines', () => {
+                assert.deepStrictEqual(parseAssuanLine('S KEY_CONSIDERED ABCDEF 0'), { type: 'S', keyword: 'KEY_CONSIDERED', args: 'ABCDEF 0' });
+                assert.deepStrictEqual(parseAssuanLine('S PROGRESS'), { type: 'S', keyword: 'PROGRESS', args: '' });
+            });
+
+            it('parses and decodes data lines', () => {
+                assert.deepStrictEqual(parseAssuanLine('D (7:sig-val%0A)'), { type: 'D', data: '(7:sig-val\n)' });
+            });
+
+            it('parses comment lines', () => {
+                assert.deepStrictEqual(parseAssuanLine('# hello'), { type: '#', text: 'hello' });
+            });
+
+            it('marks other lines as unknown', () => {
+                assert.deepStrictEqual(parseAssuanLine('OKAY'), { type: 'UNKNOWN', line: 'OKAY' });
+            });
+        });
+
+        describe('parseAssuanResponse', () => {
+            it('parses a full response', () => {
+                const parsed = parseAssuanResponse('S PROGRESS x\n# note\nD abc%25\nD def\nOK\n');
+                assert.strictEqual(parsed.lines.length, 5);
+                assert.strictEqual(parsed.data, 'abc%def');
+                assert.deepStrictEqual(parsed.status, [{ type: 'S', keyword: 'PROGRESS', args: 'x' }]);
+                assert.deepStrictEqual(parsed.terminal, { type: 'OK', message: '' });
+            });
+
+            it('returns no terminal for incomplete responses', () => {
+                assert.strictEqual(parseAssuanResponse('D abc\n').terminal, null);
+                assert.strictEqual(parseAssuanResponse('D abc\nOK').terminal, null);
+            });
+
+            it('ignores a trailing partial line', () => {
+                const parsed = parseAssuanResponse('D abc\nD de');
+                assert.strictEqual(parsed.data, 'abc');
+            });
+
+            it('parses ERR and INQUIRE terminals', () => {
+                assert.strictEqual(parseAssuanResponse('ERR 67108963 Operation cancelled <GPG Agent>\n').terminal?.type, 'ERR');
+                assert.strictEqual(parseAssuanResponse('S INQUIRE_MAXLEN 255\nINQUIRE PASSPHRASE\n').terminal?.type, 'INQUIRE');
+            });
+        });
+    });
+
     describe('Socket Cleanup', () => {
         interface MockSocket {
             removeAllListeners: () => void;
@@ -591,6 +816,55 @@ describe('Protocol Utilities', () => {
         });
     });
 
+    describe('writeWithBackpressure', () => {
+        function write(socket: MockSocket, data: string): Promise<Error | null> {
+            return new Promise((resolve) => writeWithBackpressure(socket, createBuffer(data), resolve));
+        }
+
+        it('calls back once the write is flushed', async () => {
+            const socket = new MockSocket();
+            assert.strictEqual(await write(socket, 'OK\n'), null);
+            assert.strictEqual(socket.getWrittenData().toString('latin1'), 'OK\n');
+            assert.strictEqual(socket.listenerCount('drain'), 0);
+        });
+
+        it('waits for drain when write reports a full buffer', async () => {
+            const socket = new MockSocket();
+            socket.backpressure = true;
+            let settled = false;
+            const result = write(socket, 'D data\nOK\n').then((err) => {
+                settled = true;
+                return err;
+            });
+
+            await new Promise((resolve) => setImmediate(resolve));
+            assert.strictEqual(settled, false, 'Should not call back before drain');
+            assert.strictEqual(socket.listenerCount('drain'), 1);
+
+            socket.drain();
+            assert.strictEqual(await result, null);
+            assert.strictEqual(socket.listenerCount('drain'), 0);
+        });
+
+        it('reports a write error and stops waiting for drain', async () => {
+            const socket = new MockSocket();
+            socket.setWriteError(new Error('EPIPE'));
+            const err = await write(socket, 'OK\n');
+            assert.strictEqual(err?.message, 'EPIPE');
+            assert.strictEqual(socket.listenerCount('drain'), 0);
+        });
+
+        it('reports an error when the socket is destroyed before draining', async () => {
+            const socket = new MockSocket();
+            socket.backpressure = true;
+            const result = write(socket, 'OK\n');
+            socket.destroy();
+            const err = await result;
+            assert.strictEqual(err?.message, 'Socket is destroyed');
+            assert.strictEqual(socket.listenerCount('drain'), 0);
+        });
+    });
+
     describe('Command Extraction', () => {
         it('should extract single complete command', () => {
             const result = extractCommand('KEYINFO\n');
@@ -666,6 +940,31 @@ describe('Protocol Utilities', () => {
             assert.strictEqual(result.extracted, longCommand);
             assert.strictEqual(result.remaining, '');
         });
+
+        it('should accept a command of exactly maxLineLength', () => {
+            const command = 'NOP ' + 'x'.repeat(ASSUAN_MAX_LINE_LENGTH - 5) + '\n';
+            assert.strictEqual(extractCommand(command, ASSUAN_MAX_LINE_LENGTH).extracted, command);
+        });
+
+        it('should reject a command over maxLineLength, complete or still buffering', () => {
+            const isTooLong = (err: unknown) => err instanceof AssuanProtocolError && err.code === GPG_ERR.ASS_LINE_TOO_LONG;
+            assert.throws(() => extractCommand('NOP ' + 'x'.repeat(ASSUAN_MAX_LINE_LENGTH - 4) + '\n', ASSUAN_MAX_LINE_LENGTH), isTooLong);
+            assert.throws(() => extractCommand('x'.repeat(ASSUAN_MAX_LINE_LENGTH + 1), ASSUAN_MAX_LINE_LENGTH), isTooLong);
+        });
+
+        it('should only check the first line against maxLineLength', () => {
+            const result = extractCommand('NOP\n' + 'x'.repeat(20), 10);
+            assert.strictEqual(result.extracted, 'NOP\n');
+        });
+    });
+
+    describe('formatProtocolErrorResponse', () => {
+        it('formats an ERR line from gpg-agent', () => {
+            assert.strictEqual(
+                formatProtocolErrorResponse(new AssuanProtocolError('too long', GPG_ERR.ASS_LINE_TOO_LONG)),
+                'ERR 67109127 Line passed to IPC too long <GPG Agent>\n'
+            );
+        });
     });
 
     describe('INQUIRE D-block Extraction', () => {
@@ -731,7 +1030,8 @@ describe('Protocol Utilities', () => {
             for (let i = 0; i < 256; i++) {
                 bytes.push(i);
             }
-            const binaryString = String.fromCharCode(...bytes);
+            // %, CR, and LF travel percent-escaped; every other byte is sent raw
+            const binaryString = percentEncode(String.fromCharCode(...bytes));
             const buffer = `D ${binaryString}\nEND\n`;
             const result = extractInquireBlock(buffer);
             assert.strictEqual(result.extracted, buffer);
@@ -739,8 +1039,7 @@ describe('Protocol Utilities', () => {
         });
 
         it('should handle very large D-block (multiple MB)', () => {
-            const largeData = 'x'.repeat(1024 * 1024); // 1MB
-            const buffer = `D ${largeData}\nEND\n`;
+            const buffer = encodeInquireData('x'.repeat(1024 * 1024)); // 1MB in maximum-length D lines
             const result = extractInquireBlock(buffer);
             assert.strictEqual(result.extracted, buffer);
             assert.strictEqual(result.remaining, '');
@@ -795,6 +1094,89 @@ describe('Protocol Utilities', () => {
             assert.strictEqual(result.extracted, 'D \nEND\n');
             assert.strictEqual(result.remaining, '');
         });
+
+        it('should extract a block cancelled with CAN', () => {
+            const result = extractInquireBlock('D partial\nCAN\nNOP\n');
+            assert.strictEqual(result.extracted, 'D partial\nCAN\n');
+            assert.strictEqual(result.remaining, 'NOP\n');
+        });
+
+        it('should extract a bare CAN', () => {
+            const result = extractInquireBlock('CAN\n');
+            assert.strictEqual(result.extracted, 'CAN\n');
+            assert.strictEqual(result.remaining, '');
+        });
+
+        it('should only recognize END and CAN as whole lines', () => {
+            const buffer = 'D SCAN\nD xEND\n';
+            const result = extractInquireBlock(buffer);
+            assert.strictEqual(result.extracted, null);
+            assert.strictEqual(result.remaining, buffer);
+        });
+
+        it('should accept a D line of exactly the maximum length', () => {
+            const buffer = `D ${'x'.repeat(ASSUAN_MAX_LINE_LENGTH - 3)}\nEND\n`;
+            assert.strictEqual(extractInquireBlock(buffer).extracted, buffer);
+        });
+
+        it('should reject a D line over the maximum length', () => {
+            const buffer = `D ${'x'.repeat(ASSUAN_MAX_LINE_LENGTH - 2)}\nEND\n`;
+            assert.throws(() => extractInquireBlock(buffer), (err: unknown) =>
+                err instanceof AssuanProtocolError && err.code === GPG_ERR.ASS_LINE_TOO_LONG && /line 1 exceeds 1000 bytes/.test(err.message));
+        });
+
+        it('should reject an overlong line before its newline arrives', () => {
+            assert.throws(() => extractInquireBlock(`D ok\nD ${'x'.repeat(ASSUAN_MAX_LINE_LENGTH)}`), /line 2 exceeds/);
+        });
+
+        it('should reject lines other than D, END, and CAN', () => {
+            for (const buffer of ['D data\nBYE\n', 'Dx\nEND\n', 'end\n', '\nEND\n']) {
+                assert.throws(() => extractInquireBlock(buffer), (err: unknown) =>
+                    err instanceof AssuanProtocolError && err.code === GPG_ERR.ASS_UNEXPECTED_CMD, buffer);
+            }
+        });
+
+        it('should reject invalid percent-escapes', () => {
+            for (const buffer of ['D 100%\nEND\n', 'D %G0\nEND\n', 'D %4\nEND\n']) {
+                assert.throws(() => extractInquireBlock(buffer), (err: unknown) =>
+                    err instanceof AssuanProtocolError && err.code === GPG_ERR.ASS_SYNTAX && /invalid percent-escape/.test(err.message), buffer);
+            }
+        });
+
+        it('should accept a bare D line and valid escapes', () => {
+            const buffer = 'D\nD %25%0a%FF\nEND\n';
+            assert.strictEqual(extractInquireBlock(buffer).extracted, buffer);
+        });
+
+        it('should reject a block over maxBlockBytes, complete or still buffering', () => {
+            const isTooMuch = (err: unknown) => err instanceof AssuanProtocolError && err.code === GPG_ERR.ASS_TOO_MUCH_DATA;
+            assert.strictEqual(extractInquireBlock('D 1234\nEND\n', 11).extracted, 'D 1234\nEND\n');
+            assert.throws(() => extractInquireBlock('D 1234\nEND\n', 10), isTooMuch);
+            assert.throws(() => extractInquireBlock('D 1234\nD 5678\nD 9', 12), isTooMuch);
+        });
+
+        it('should resume from the returned position without rescanning validated lines', () => {
+            const result1 = extractInquireBlock('D one\nD tw');
+            assert.deepStrictEqual(result1.position, { offset: 6, lineNumber: 2 });
+
+            // A prefix that would fail validation proves it is not scanned again
+            const buffer = 'X bad\nD two\nEND\n';
+            const result2 = extractInquireBlock(buffer, Infinity, result1.position);
+            assert.strictEqual(result2.extracted, buffer);
+            assert.deepStrictEqual(result2.position, { offset: 0, lineNumber: 1 });
+        });
+
+        it('should number lines from the resumed position in errors', () => {
+            const { position } = extractInquireBlock('D one\nD two\n');
+            assert.throws(() => extractInquireBlock('D one\nD two\nNOP\n', Infinity, position), /line 3 is not a D, END, or CAN line/);
+        });
+
+        it('should detect cancelled blocks', () => {
+            assert.strictEqual(isInquireCancelled('CAN\n'), true);
+            assert.strictEqual(isInquireCancelled('D partial\nCAN\n'), true);
+            assert.strictEqual(isInquireCancelled('D SCAN\nEND\n'), false);
+            assert.strictEqual(isInquireCancelled('END\n'), false);
+        });
     });
 });
 
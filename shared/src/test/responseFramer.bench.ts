@@ -0,0 +1,47 @@
+/**
+ * Benchmark: AssuanResponseFramer against re-running detectResponseCompletion on the
+ * whole accumulated response after every chunk, as the agent proxy did before.
+ *
+ * Run with `npm run bench` after compiling. Not part of the test suite.
+ */
+
+import { AssuanResponseFramer } from '../responseFramer';
+import { detectResponseCompletion, encodeInquireData } from '../protocol';
+
+const RESPONSE_BYTES = 4 * 1024 * 1024;
+const CHUNK_BYTES = 16 * 1024;     // Typical socket read size
+
+// EXPORT_KEY-like response: status line, maximum-length D lines, OK
+const fixture = `S PROGRESS\n${encodeInquireData('\x42'.repeat(RESPONSE_BYTES)).replace(/END\n$/, '')}OK\n`;
+const chunks: string[] = [];
+for (let offset = 0; offset < fixture.length; offset += CHUNK_BYTES) {
+    chunks.push(fixture.substring(offset, offset + CHUNK_BYTES));
+}
+
+function run(name: string, frame: () => boolean): void {
+    const start = process.hrtime.bigint();
+    const complete = frame();
+    const ms = Number(process.hrtime.bigint() - start) / 1e6;
+    console.log(`${name.padEnd(26)} ${ms.toFixed(1).padStart(9)} ms  complete=${complete}`);
+}
+
+console.log(`${fixture.length} bytes in ${chunks.length} chunks of ${CHUNK_BYTES} bytes`);
+
+run('detectResponseCompletion', () => {
+    let buffer = '';
+    let complete = false;
+    for (const chunk of chunks) {
+        buffer += chunk;
+        complete = detectResponseCompletion(buffer).complete;
+    }
+    return complete;
+});
+
+run('AssuanResponseFramer', () => {
+    const framer = new AssuanResponseFramer();
+    let complete = false;
+    for (const chunk of chunks) {
+        complete = framer.push(chunk).complete;
+    }
+    return complete && framer.getResponse().length === fixture.length;
+});
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for incremental Assuan response framing
+ * These test AssuanResponseFramer in shared/responseFramer.ts against detectResponseCompletion
+ */
+
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import { AssuanResponseFramer } from '../responseFramer';
+import { detectResponseCompletion, encodeInquireData } from '../protocol';
+
+/**
+ * Split data into chunks of the given sizes, repeating the sizes until data runs out
+ */
+function chunk(data: string, sizes: number[]): string[] {
+    const chunks: string[] = [];
+    let offset = 0;
+    for (let i = 0; offset < data.length; i++) {
+        const size = sizes[i % sizes.length];
+        chunks.push(data.substring(offset, offset + size));
+        offset += size;
+    }
+    return chunks;
+}
+
+describe('AssuanResponseFramer', () => {
+    it('reports completion once the terminal line ends', () => {
+        const framer = new AssuanResponseFramer();
+        assert.deepStrictEqual(framer.push('D 2.4'), { complete: false, type: null });
+        assert.deepStrictEqual(framer.push('.8\nO'), { complete: false, type: null });
+        assert.deepStrictEqual(framer.push('K'), { complete: false, type: null });
+        assert.deepStrictEqual(framer.push('\n'), { complete: true, type: 'OK' });
+        assert.strictEqual(framer.getResponse(), 'D 2.4.8\nOK\n');
+        assert.strictEqual(framer.length, 11);
+    });
+
+    it('detects ERR and INQUIRE after status lines', () => {
+        const err = new AssuanResponseFramer();
+        assert.deepStrictEqual(err.push('S PROGRESS need_entropy X 30 120\nERR 67108881 No secret key <GPG Agent>\n'), { complete: true, type: 'ERR' });
+
+        const inquire = new AssuanResponseFramer();
+        assert.deepStrictEqual(inquire.push('S INQUIRE_MAXLEN 255\n'), { complete: false, type: null });
+        assert.deepStrictEqual(inquire.push('INQUIRE PASSPHRASE\n'), { complete: true, type: 'INQUIRE' });
+    });
+
+    it('is not complete when data follows a terminal line', () => {
+        const framer = new AssuanResponseFramer();
+        assert.deepStrictEqual(framer.push('OK\nS PROGRESS'), { complete: false, type: null });
+        assert.deepStrictEqual(framer.push('\n'), { complete: false, type: null });
+    });
+
+    it('starts over after reset', () => {
+        const framer = new AssuanResponseFramer();
+        framer.push('D partial\nOK\n');
+        framer.reset();
+        assert.deepStrictEqual(framer.getCompletion(), { complete: false, type: null });
+        assert.strictEqual(framer.getResponse(), '');
+        assert.strictEqual(framer.length, 0);
+        assert.deepStrictEqual(framer.push('OK\n'), { complete: true, type: 'OK' });
+        assert.strictEqual(framer.getResponse(), 'OK\n');
+    });
+
+    it('hands over complete lines and keeps the rest', () => {
+        const framer = new AssuanResponseFramer();
+        framer.push('S PROGRESS primegen ? 1 0\nS PROG');
+        assert.strictEqual(framer.takeLines(), 'S PROGRESS primegen ? 1 0\n');
+        assert.strictEqual(framer.takeLines(), '');
+        assert.strictEqual(framer.getResponse(), 'S PROG');
+
+        framer.push('RESS primegen ? 2 0\nD (10:public-key');
+        assert.strictEqual(framer.takeLines(), 'S PROGRESS primegen ? 2 0\n');
+        assert.deepStrictEqual(framer.push(')\nOK\n'), { complete: true, type: 'OK' });
+        assert.strictEqual(framer.getResponse(), 'D (10:public-key)\nOK\n');
+        assert.strictEqual(framer.length, 73);
+    });
+
+    it('agrees with detectResponseCompletion for every chunking of the fixtures', () => {
+        const fixtures = [
+            'OK\n',
+            'OK Pleased to meet you\n\n',
+            'D 2.4.8\nOK\n',
+            'S KEY_CONSIDERED ABCDEF 0\nERR 67108881 No secret key <GPG Agent>\n',
+            'S INQUIRE_MAXLEN 255\nINQUIRE PASSPHRASE\n',
+            '# comment\nOK\n  \n',
+            'OK\nD trailing\n',
+            'D OKAY\n',
+            '\n\n'
+        ];
+        for (const fixture of fixtures) {
+            for (let size = 1; size <= fixture.length; size++) {
+                const framer = new AssuanResponseFramer();
+                let accumulated = '';
+                for (const piece of chunk(fixture, [size])) {
+                    accumulated += piece;
+                    assert.deepStrictEqual(framer.push(piece), detectResponseCompletion(accumulated), `${JSON.stringify(fixture)} in ${size}-byte chunks`);
+                }
+                assert.strictEqual(framer.getResponse(), fixture);
+            }
+        }
+    });
+
+    it('frames a large multi-chunk response like detectResponseCompletion', () => {
+        const response = `S PROGRESS\n${encodeInquireData('\xAB'.repeat(256 * 1024)).replace(/END\n$/, '')}OK\n`;
+        const framer = new AssuanResponseFramer();
+        const pieces = chunk(response, [4096, 1, 777]);
+        pieces.forEach((piece, index) => {
+            const completion = framer.push(piece);
+            assert.strictEqual(completion.complete, index === pieces.length - 1);
+        });
+        assert.deepStrictEqual(framer.getCompletion(), detectResponseCompletion(response));
+        assert.strictEqual(framer.getResponse(), response);
+    });
+});
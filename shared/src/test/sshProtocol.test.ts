@@ -0,0 +1,112 @@
+/**
+ * Unit tests for SSH agent protocol framing
+ * These test the pure functions in shared/sshProtocol.ts
+ */
+
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import { describe, it } from 'mocha';
+import {
+    SSH_AGENT_MESSAGE,
+    SSH_AGENT_MAX_MESSAGE_LENGTH,
+    SSH_AGENT_FAILURE_RESPONSE,
+    encodeSshMessage,
+    extractSshMessage,
+    DEFAULT_SSH_POLICY,
+    getSshMessageType,
+    getSshMessageName,
+    describeSshMessage,
+    getSshSignRequestFingerprint,
+} from '../sshProtocol';
+import { evaluateCommand } from '../commandPolicy';
+
+describe('SSH Agent Protocol', () => {
+    describe('encodeSshMessage', () => {
+        it('prefixes type and payload with their big-endian length', () => {
+            assert.strictEqual(encodeSshMessage(SSH_AGENT_MESSAGE.REQUEST_IDENTITIES), '\x00\x00\x00\x01\x0b');
+            assert.strictEqual(encodeSshMessage(SSH_AGENT_MESSAGE.SIGN_REQUEST, 'ab'), '\x00\x00\x00\x03\x0dab');
+        });
+
+        it('encodes lengths above 255', () => {
+            const message = encodeSshMessage(SSH_AGENT_MESSAGE.SIGN_REQUEST, 'x'.repeat(299));
+            assert.strictEqual(message.substring(0, 4), '\x00\x00\x01\x2c');
+        });
+
+        it('provides a failure response', () => {
+            assert.strictEqual(SSH_AGENT_FAILURE_RESPONSE, '\x00\x00\x00\x01\x05');
+        });
+    });
+
+    describe('extractSshMessage', () => {
+        it('extracts one complete message and keeps the rest', () => {
+            const first = encodeSshMessage(SSH_AGENT_MESSAGE.REQUEST_IDENTITIES);
+            const second = encodeSshMessage(SSH_AGENT_MESSAGE.SIGN_REQUEST, '\xff\x00\x80');
+            const result = extractSshMessage(first + second);
+            assert.strictEqual(result.extracted, first);
+            assert.strictEqual(result.remaining, second);
+            assert.strictEqual(extractSshMessage(result.remaining).extracted, second);
+        });
+
+        it('waits for the length prefix and the full payload', () => {
+            const message = encodeSshMessage(SSH_AGENT_MESSAGE.SIGN_REQUEST, 'payload');
+            for (const partial of ['', message.substring(0, 3), message.substring(0, message.length - 1)]) {
+                assert.deepStrictEqual(extractSshMessage(partial), { extracted: null, remaining: partial });
+            }
+        });
+
+        it('rejects zero and oversized lengths', () => {
+            assert.throws(() => extractSshMessage('\x00\x00\x00\x00'), /Invalid SSH agent message length: 0/);
+            const tooLong = SSH_AGENT_MAX_MESSAGE_LENGTH + 1;
+            const prefix = String.fromCharCode(0, tooLong >>> 16, (tooLong >>> 8) & 0xff, tooLong & 0xff);
+            assert.throws(() => extractSshMessage(prefix), /Invalid SSH agent message length/);
+        });
+    });
+
+    describe('message descriptions', () => {
+        it('reads the message type', () => {
+            assert.strictEqual(getSshMessageType(SSH_AGENT_FAILURE_RESPONSE), SSH_AGENT_MESSAGE.FAILURE);
+            assert.strictEqual(getSshMessageType('\x00\x00\x00'), null);
+        });
+
+        it('names the message without its payload', () => {
+            assert.strictEqual(describeSshMessage(encodeSshMessage(SSH_AGENT_MESSAGE.SIGN_REQUEST, 'secret')), 'SIGN_REQUEST (11 bytes)');
+            assert.strictEqual(describeSshMessage(encodeSshMessage(99)), 'TYPE_99 (5 bytes)');
+        });
+
+        it('names the message type alone', () => {
+            assert.strictEqual(getSshMessageName(encodeSshMessage(SSH_AGENT_MESSAGE.ADD_ID_CONSTRAINED, 'key')), 'ADD_ID_CONSTRAINED');
+            assert.strictEqual(getSshMessageName(encodeSshMessage(99)), 'TYPE_99');
+            assert.strictEqual(getSshMessageName('\x00\x00\x00'), 'EMPTY');
+        });
+    });
+
+    describe('getSshSignRequestFingerprint', () => {
+        const keyBlob = '\x00\x00\x00\x0bssh-ed25519\x00\x00\x00\x20' + '\x01'.repeat(32);
+        const sshString = (value: string) => String.fromCharCode(0, 0, value.length >>> 8, value.length & 0xff) + value;
+
+        it('hashes the key blob like ssh-add -l', () => {
+            const message = encodeSshMessage(SSH_AGENT_MESSAGE.SIGN_REQUEST, sshString(keyBlob) + sshString('data') + '\x00\x00\x00\x00');
+            const expected = 'SHA256:' + crypto.createHash('sha256').update(Buffer.from(keyBlob, 'latin1')).digest('base64').replace(/=+$/, '');
+            assert.strictEqual(getSshSignRequestFingerprint(message), expected);
+        });
+
+        it('returns null for other messages and truncated key blobs', () => {
+            assert.strictEqual(getSshSignRequestFingerprint(encodeSshMessage(SSH_AGENT_MESSAGE.REQUEST_IDENTITIES)), null);
+            assert.strictEqual(getSshSignRequestFingerprint(encodeSshMessage(SSH_AGENT_MESSAGE.SIGN_REQUEST, '\x00\x00\x01\x00abc')), null);
+            assert.strictEqual(getSshSignRequestFingerprint(encodeSshMessage(SSH_AGENT_MESSAGE.SIGN_REQUEST)), null);
+        });
+    });
+
+    describe('DEFAULT_SSH_POLICY', () => {
+        it('denies adding, removing, and locking keys', () => {
+            for (const name of ['ADD_IDENTITY', 'ADD_ID_CONSTRAINED', 'REMOVE_IDENTITY', 'REMOVE_ALL_IDENTITIES', 'LOCK', 'UNLOCK']) {
+                assert.strictEqual(evaluateCommand(DEFAULT_SSH_POLICY, name).action, 'deny', name);
+            }
+        });
+
+        it('allows listing keys and signing', () => {
+            assert.strictEqual(evaluateCommand(DEFAULT_SSH_POLICY, 'REQUEST_IDENTITIES').action, 'allow');
+            assert.strictEqual(evaluateCommand(DEFAULT_SSH_POLICY, 'SIGN_REQUEST').action, 'allow');
+        });
+    });
+});
@@ -4,6 +4,7 @@
  */
 
 import type * as net from 'net';
+import type { CommandPolicy, CommandPolicyDecision } from './commandPolicy';
 
 /**
  * Configuration for logging callbacks.
@@ -17,6 +18,24 @@ export interface LogConfig {
     logCallback?: (message: string) => void;
 }
 
+/**
+ * Configuration for command policy enforcement.
+ * Implemented by both AgentProxyConfig and RequestProxyConfig.
+ */
+export interface CommandPolicyConfig {
+    /**
+     * Optional policy applied to each command before it is forwarded to gpg-agent.
+     * When omitted, all commands are forwarded unchanged.
+     */
+    commandPolicy?: CommandPolicy;
+
+    /**
+     * Optional callback asked to approve commands whose policy action is 'confirm'.
+     * Resolves true to forward the command. When omitted, 'confirm' is treated as 'deny'.
+     */
+    confirmCommandCallback?: (sessionId: string, decision: CommandPolicyDecision) => Promise<boolean>;
+}
+
 /**
  * Abstraction for file system operations.
  * Allows injection of mock implementations for testing.
@@ -48,20 +67,57 @@ export interface IFileSystem {
     unlinkSync(path: string): void;
 }
 
+/**
+ * Abstraction for watching a file for changes.
+ * Allows injection of mock implementations for testing.
+ */
+export interface IFileWatcher {
+    /**
+     * Call listener when the file at path is created, modified, or deleted.
+     * The file does not need to exist when watching starts.
+     * Returns a handle whose close() stops watching.
+     */
+    watch(path: string, listener: () => void): { close(): void };
+}
+
 /**
  * Abstraction for creating TCP sockets.
  * Allows injection of mock implementations for testing.
  */
 export interface ISocketFactory {
     /**
-     * Create a TCP connection to a remote host.
+     * Create a TCP connection to a host, or a connection to a Unix domain socket path.
      */
     createConnection(
-        options: { host: string; port: number },
+        options: { host: string; port: number } | { path: string },
         connectionListener?: () => void
     ): net.Socket;
 }
 
+/**
+ * Assuan services that can be relayed from a remote to the Windows host
+ */
+export type AssuanService = 'gpg-agent' | 'dirmngr' | 'keyboxd';
+
+/**
+ * Options for ICommandExecutor.sendCommands()
+ */
+export interface SendCommandsOptions {
+    // Have agent-proxy push status and D lines to `_gpg-bridge-request.receiveResponseLines`
+    // as gpg-agent sends them; the resolved response then holds only the remaining lines
+    stream?: boolean;
+}
+
+/**
+ * Result of ICommandExecutor.sendCommands()
+ */
+export interface SendCommandsResult {
+    response: string;
+    // agent-proxy closed the session after this response (e.g. it exceeded a size or line
+    // limit); the response is the ERR to relay and no further commands can be sent
+    sessionClosed?: boolean;
+}
+
 /**
  * Abstraction for VS Code command execution.
  * Used by request-proxy to communicate with agent-proxy extension.
@@ -79,14 +135,54 @@ export interface ICommandExecutor {
 
     /**
      * Send Assuan protocol commands to the GPG agent.
-     * Returns the agent's response.
+     * Returns the agent's response; with options.stream, only the part not already streamed.
      */
-    sendCommands(sessionId: string, commandBlock: string): Promise<{ response: string }>;
+    sendCommands(sessionId: string, commandBlock: string, options?: SendCommandsOptions): Promise<SendCommandsResult>;
 
     /**
      * Disconnect and clean up a session with the agent-proxy extension.
+     *
+     * @param reason Why the client went away; the agent-proxy cancels an operation still
+     *   running (e.g. waiting on pinentry) and logs the reason
+     */
+    disconnectAgent(sessionId: string, reason?: string): Promise<void>;
+}
+
+/**
+ * Abstraction for VS Code command execution of the SSH agent relay.
+ * Used by the request-proxy SSH relay to communicate with agent-proxy extension.
+ * Messages are framed SSH agent protocol messages as latin1 strings.
+ */
+export interface ISshCommandExecutor {
+    /**
+     * Connect to gpg-agent's SSH agent socket via agent-proxy extension.
+     *
+     * @param sessionId Optional caller-supplied UUID hint, as for connectAgent()
+     */
+    connectSshAgent(sessionId?: string): Promise<{ sessionId: string }>;
+
+    /**
+     * Send one request message and return gpg-agent's response message.
+     */
+    sendSshRequest(sessionId: string, message: string): Promise<{ response: string }>;
+
+    /**
+     * Disconnect and clean up an SSH session with the agent-proxy extension.
+     */
+    disconnectSshAgent(sessionId: string): Promise<void>;
+}
+
+/**
+ * Abstraction for fetching public keys from the agent-proxy extension.
+ * Used by the request-proxy public key sync to import the keys gpg-agent can use.
+ */
+export interface IPublicKeyExporter {
+    /**
+     * Export the public keys for the secret keys gpg-agent holds.
+     *
+     * @returns Primary key fingerprints and their ASCII-armored public keys; both empty if there are none
      */
-    disconnectAgent(sessionId: string): Promise<void>;
+    exportPublicKeys(): Promise<{ fingerprints: string[]; armored: string }>;
 }
 
 /**